@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { logger } from 'ccusage/logger';
+import { renderStats } from './src/cli/terminalRenderer.js';
+import type { CCUsageService } from './src/services/ccusageService.js';
+import { DemoDataService } from './src/services/demoDataService.js';
+import { ProfileService } from './src/services/profileService.js';
+import { ResetTimeService } from './src/services/resetTimeService.js';
+import { SettingsService } from './src/services/settingsService.js';
+import type { AppPreferences } from './src/types/usage.js';
+import { getUserDataDir } from './src/utils/userDataDir.js';
+
+const HELP = `Usage: ccseva [options]
+
+Print Claude Code usage stats without the desktop app.
+
+Options:
+  --json              Print stats as JSON
+  --watch             Refresh continuously (JSON mode prints one line per refresh)
+  --interval <secs>   Refresh interval for --watch (defaults to the app's setting)
+  --no-color          Disable ANSI colors
+  --demo              Show the bundled synthetic logs instead of your usage
+  --demo-data <dir>   Show synthetic logs from a Claude config directory of your own
+  --profile <name>    Show another profile than the one active in the app ("Default" for the
+                      top-level settings)
+  -h, --help          Show this help
+`;
+
+// ccusage logs info messages to stdout, which would corrupt JSON output and watch redraws
+const WARN_LOG_LEVEL = 1;
+
+// Clear the screen and move the cursor home so watch mode redraws in place
+const CLEAR_SCREEN = '\x1b[H\x1b[2J';
+const HIDE_CURSOR = '\x1b[?25l';
+const SHOW_CURSOR = '\x1b[?25h';
+
+// The CLI runs from dist/, one level below the bundled assets
+const BUNDLED_DEMO_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '..',
+  'assets',
+  'demo'
+);
+
+/**
+ * The id of the profile with this name or id, null for the default profile
+ */
+function findProfileId(preferences: AppPreferences, name: string): string | null {
+  const wanted = name.trim().toLowerCase();
+  if (wanted === 'default') return null;
+
+  const profile = preferences.profiles.find(
+    (candidate) => candidate.id === name || candidate.name.trim().toLowerCase() === wanted
+  );
+  if (!profile) {
+    throw new Error(`Unknown profile: ${name}`);
+  }
+  return profile.id;
+}
+
+class CCSevaCli {
+  private profileService: ProfileService;
+  private resetTimeService: ResetTimeService;
+  private settingsService: SettingsService;
+
+  constructor() {
+    this.profileService = ProfileService.getInstance();
+    this.resetTimeService = ResetTimeService.getInstance();
+    this.settingsService = SettingsService.getInstance();
+  }
+
+  private get usageService(): CCUsageService {
+    return this.profileService.getUsageService();
+  }
+
+  async run(argv: string[]) {
+    const { values } = parseArgs({
+      args: argv,
+      options: {
+        json: { type: 'boolean', default: false },
+        watch: { type: 'boolean', default: false },
+        interval: { type: 'string' },
+        'no-color': { type: 'boolean', default: false },
+        demo: { type: 'boolean', default: false },
+        'demo-data': { type: 'string' },
+        profile: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+
+    if (values.help) {
+      process.stdout.write(HELP);
+      return;
+    }
+
+    // Keep stdout for our own output; services log diagnostics with console.log
+    logger.level = WARN_LOG_LEVEL;
+    console.log = console.error;
+
+    // Read the desktop app's settings and history without writing them, so a running app stays
+    // their only writer
+    const userDataDir = getUserDataDir();
+    const demoMode = values.demo || Boolean(values['demo-data']);
+    if (demoMode) {
+      // A separate work directory, so a running app's demo data is left alone
+      const source = values['demo-data'] ?? BUNDLED_DEMO_DIR;
+      const demo = DemoDataService.getInstance().prepare(
+        source,
+        path.join(userDataDir, 'demo-cli')
+      );
+      this.profileService.getUsageService(null).useDemoData(demo.claudeDirectory, source);
+      this.profileService.setStorageDirectory(demo.storageDirectory);
+    } else {
+      this.profileService.setStorageDirectory(userDataDir, true);
+    }
+    const preferences = this.settingsService.load(userDataDir, true);
+    const activeProfileId =
+      values.profile === undefined
+        ? preferences.activeProfileId
+        : findProfileId(preferences, values.profile);
+    // Demo logs stand in for the default profile only, so other profiles are left out
+    this.profileService.configure({
+      ...preferences,
+      profiles: demoMode ? [] : preferences.profiles,
+      activeProfileId,
+    });
+
+    const color = !values['no-color'] && !process.env.NO_COLOR && process.stdout.isTTY === true;
+    const intervalMs = values.interval
+      ? Number.parseFloat(values.interval) * 1000
+      : preferences.refreshInterval;
+
+    if (Number.isNaN(intervalMs) || intervalMs <= 0) {
+      throw new Error(`Invalid --interval value: ${values.interval}`);
+    }
+
+    if (!values.watch) {
+      process.stdout.write(`${await this.render(values.json, color)}\n`);
+      return;
+    }
+
+    await this.watch(values.json, color, intervalMs);
+  }
+
+  private async render(json: boolean, color: boolean): Promise<string> {
+    const stats = await this.usageService.getUsageStats();
+    const sessionSummary = this.usageService.getSessionTracker().getSessionSummary();
+
+    if (json) {
+      return JSON.stringify({ ...stats, sessionSummary });
+    }
+
+    return renderStats(stats, {
+      color,
+      resetCountdown: this.resetTimeService.formatTimeUntilReset(stats.resetInfo.timeUntilReset),
+      sessionSummary,
+    });
+  }
+
+  private async watch(json: boolean, color: boolean, intervalMs: number) {
+    const redrawInPlace = !json && process.stdout.isTTY === true;
+
+    if (redrawInPlace) {
+      process.stdout.write(HIDE_CURSOR);
+    }
+
+    process.on('SIGINT', () => {
+      if (redrawInPlace) {
+        process.stdout.write(SHOW_CURSOR);
+      }
+      process.exit(0);
+    });
+
+    while (true) {
+      try {
+        const output = await this.render(json, color);
+        process.stdout.write(redrawInPlace ? `${CLEAR_SCREEN}${output}\n` : `${output}\n`);
+      } catch (error) {
+        console.error('Error refreshing usage stats:', error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  }
+}
+
+const cli = new CCSevaCli();
+cli.run(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -2,41 +2,144 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { BrowserWindow, Menu, Tray, app, ipcMain, nativeImage, screen } from 'electron';
-import { CCUsageService } from './src/services/ccusageService.js';
+import {
+  BrowserWindow,
+  Menu,
+  Tray,
+  app,
+  dialog,
+  ipcMain,
+  nativeImage,
+  nativeTheme,
+  powerMonitor,
+  screen,
+} from 'electron';
+import { AlertService } from './src/services/alertService.js';
+import type { CCUsageService } from './src/services/ccusageService.js';
+import { DemoDataService } from './src/services/demoDataService.js';
+import { ExportService } from './src/services/exportService.js';
+import { LogWatcher } from './src/services/logWatcher.js';
+import { MetricsExporter } from './src/services/metricsExporter.js';
+import { NotificationChannelService } from './src/services/notificationChannelService.js';
 import { NotificationService } from './src/services/notificationService.js';
+import { ProfileService } from './src/services/profileService.js';
+import { ReplayService } from './src/services/replayService.js';
+import { SettingsService, preferencesToConfiguration } from './src/services/settingsService.js';
+import { StatusServer } from './src/services/statusServer.js';
+import { SummaryScheduler } from './src/services/summaryScheduler.js';
+import type {
+  AppPreferences,
+  DataSourceState,
+  DemoModeInfo,
+  ExportRequest,
+  MenuBarData,
+  NotificationChannel,
+  ProfileStatus,
+  ReplayState,
+  UsageStats,
+} from './src/types/usage.js';
 import { DynamicTrayIcon } from './src/utils/dynamicIcon.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const TRAY_TOOLTIP = 'CCSeva - Claude Code Usage Monitor';
+
+// `--demo` shows the bundled fixture logs, `--demo=<dir>` a Claude config directory of your own
+const DEMO_FLAG = '--demo';
+
+/**
+ * The demo directory asked for on the command line: '' for the bundled set, null without the flag
+ */
+function getDemoFlag(argv: string[]): string | null {
+  const arg = argv.find((value) => value === DEMO_FLAG || value.startsWith(`${DEMO_FLAG}=`));
+  return arg === undefined ? null : arg.slice(DEMO_FLAG.length + 1);
+}
+
+// Shown in the tray whenever the numbers aren't read live from the Claude logs
+const dataSourceWarnings: Record<Exclude<DataSourceState, 'live'>, string> = {
+  stale: 'Showing stale data',
+  mock: 'Showing demo data',
+  replay: 'Replaying past usage',
+  error: 'No usage data',
+};
+
+/**
+ * A profile's usage as listed in the tray menu, e.g. "42% of Max5"
+ */
+function formatProfileUsage({ usage }: ProfileStatus): string {
+  if (!usage) return 'not loaded yet';
+  const summary = `${Math.round(usage.percentageUsed)}% of ${usage.currentPlan}`;
+  return usage.dataSource.state === 'live' ? summary : `${summary} ⚠`;
+}
+
 class CCSevaApp {
   private tray: Tray | null = null;
   private window: BrowserWindow | null = null;
-  private usageService: CCUsageService;
+  private profileService: ProfileService;
+  private demoDataService: DemoDataService;
   private notificationService: NotificationService;
+  private replayAlerts: AlertService | null = null; // rule state for a replay, apart from live alerts
+  private channelService: NotificationChannelService;
+  private summaryScheduler: SummaryScheduler;
+  private settingsService: SettingsService;
+  private statusServer: StatusServer;
+  private metricsExporter: MetricsExporter;
+  private exportService: ExportService;
+  private replayService: ReplayService;
+  private logWatcher: LogWatcher;
   private iconService: DynamicTrayIcon;
   private updateInterval: NodeJS.Timeout | null = null;
   private displayInterval: NodeJS.Timeout | null = null;
   private showPercentage = true;
   private cachedMenuBarData: any = null;
   private menuBarDisplayMode: 'off' | 'percentage' | 'value' | 'all' = 'all';
+  private demoMode: DemoModeInfo = { active: false, source: null, fromCommandLine: false };
 
   constructor() {
-    this.usageService = CCUsageService.getInstance();
+    this.profileService = ProfileService.getInstance();
+    this.demoDataService = DemoDataService.getInstance();
     this.notificationService = NotificationService.getInstance();
+    this.channelService = NotificationChannelService.getInstance();
+    this.summaryScheduler = SummaryScheduler.getInstance();
+    this.settingsService = SettingsService.getInstance();
+    this.statusServer = StatusServer.getInstance();
+    this.metricsExporter = MetricsExporter.getInstance();
+    this.exportService = ExportService.getInstance();
+    this.replayService = ReplayService.getInstance();
+    this.logWatcher = LogWatcher.getInstance();
     this.iconService = DynamicTrayIcon.getInstance();
   }
 
+  // The active profile's service; the window, tray and servers all show that profile
+  private get usageService(): CCUsageService {
+    return this.profileService.getUsageService();
+  }
+
+  // What the window and tray show: the replay while one runs, otherwise the active profile
+  private get shownUsageService(): CCUsageService {
+    return this.replayService.getUsageService() ?? this.usageService;
+  }
+
   async initialize() {
     await app.whenReady();
 
+    // Restore saved preferences and history before anything reads them
+    const userDataDir = app.getPath('userData');
+    const preferences = this.settingsService.load(userDataDir);
+    this.profileService.setStorageDirectory(this.startDemoMode(preferences, userDataDir) ?? userDataDir);
+    this.summaryScheduler.setStorageDirectory(userDataDir);
+    this.applyPreferences(preferences);
+
     this.createTray();
     this.createWindow();
     this.setupIPC();
     this.startUsagePolling();
     this.startDisplayToggle();
 
+    // Timers don't fire while asleep, so send any summary that came due in the meantime
+    powerMonitor.on('resume', () => this.summaryScheduler.check());
+
     app.on('window-all-closed', () => {
       // Prevent app from quitting, keep in menu bar
     });
@@ -48,11 +151,35 @@ class CCSevaApp {
     });
   }
 
+  /**
+   * Switch to fixture logs when demo mode is asked for on the command line or in settings.
+   * Returns the directory demo history is kept in, or null to use the real data.
+   */
+  private startDemoMode(preferences: AppPreferences, userDataDir: string): string | null {
+    const flag = getDemoFlag(process.argv);
+    if (flag === null && !preferences.demoMode) return null;
+
+    const source =
+      (flag ?? preferences.demoDataDirectory) || path.join(app.getAppPath(), 'assets', 'demo');
+    this.demoMode = { active: false, source, fromCommandLine: flag !== null };
+
+    try {
+      const demo = this.demoDataService.prepare(source, path.join(userDataDir, 'demo'));
+      this.usageService.useDemoData(demo.claudeDirectory, source);
+      this.demoMode.active = true;
+      return demo.storageDirectory;
+    } catch (error) {
+      console.error('Failed to start demo mode, showing real usage instead:', error);
+      this.demoMode.error = error instanceof Error ? error.message : String(error);
+      return null;
+    }
+  }
+
   private createTray() {
     // Create initial dynamic icon with 0%
     const initialIcon = this.iconService.createStaticIcon();
     this.tray = new Tray(initialIcon);
-    this.tray.setToolTip('CCSeva - Claude Code Usage Monitor');
+    this.tray.setToolTip(TRAY_TOOLTIP);
 
     // Update tray with usage percentage
     this.updateTrayTitle();
@@ -64,17 +191,34 @@ class CCSevaApp {
 
   private async updateTrayTitle() {
     try {
-      const menuBarData = await this.usageService.getMenuBarData();
+      const replayUsage = this.replayService.getUsageService();
+      const stats = replayUsage
+        ? await replayUsage.getUsageStats()
+        : await this.profileService.loadStats();
+      const menuBarData = await this.shownUsageService.getMenuBarData(stats);
       this.cachedMenuBarData = menuBarData;
 
+      const { state, reason } = stats.dataSource;
+      const profileName = this.profileService.getProfileName(this.profileService.getActiveProfileId());
+      const tooltip = this.profileService.hasProfiles()
+        ? `${TRAY_TOOLTIP}\nProfile: ${profileName}`
+        : TRAY_TOOLTIP;
+      this.tray?.setToolTip(
+        state === 'live' ? tooltip : `${tooltip}\n${dataSourceWarnings[state]}: ${reason ?? 'unknown reason'}`
+      );
+
       // Update tray title based on current display mode
       this.updateTrayDisplay();
 
+      // Mock and zeroed fallback stats aren't real usage, so never alert on them
+      if (state === 'live' || state === 'stale' || state === 'replay') {
+        this.checkAlerts(stats, menuBarData);
+      }
+
+      await this.refreshOtherProfiles();
+
       // Add context menu for Linux compatibility
       this.updateTrayContextMenu();
-
-      // Check for notifications (auto source)
-      this.notificationService.checkAndNotify(menuBarData, 'auto');
     } catch (error) {
       console.error('Error updating tray title:', error);
       this.tray?.setTitle('--');
@@ -82,6 +226,64 @@ class CCSevaApp {
     }
   }
 
+  /**
+   * Load the profiles that aren't shown, so the tray menu lists their usage and their
+   * alerts still fire
+   */
+  private async refreshOtherProfiles() {
+    for (const id of this.profileService.getProfileIds()) {
+      if (id === this.profileService.getActiveProfileId()) continue;
+      try {
+        const stats = await this.profileService.loadStats(id);
+        const { state } = stats.dataSource;
+        if (state === 'live' || state === 'stale') {
+          const menuBarData = await this.profileService.getUsageService(id).getMenuBarData(stats);
+          this.checkAlerts(stats, menuBarData, id);
+        }
+      } catch (error) {
+        console.error(`Error loading profile ${this.profileService.getProfileName(id)}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Evaluate alert rules on every refresh, even with notifications off,
+   * so turning them back on doesn't replay conditions that already held
+   */
+  private checkAlerts(
+    stats: UsageStats,
+    menuBarData: MenuBarData,
+    profileId = this.profileService.getActiveProfileId()
+  ) {
+    // Replayed stats are evaluated on the replay's clock, apart from the profile's live alerts
+    const replayAlerts = stats.dataSource.state === 'replay' ? this.replayAlerts : null;
+    const replaying = replayAlerts !== null;
+    const alerts = replayAlerts
+      ? replayAlerts.evaluate(stats, this.replayService.clock())
+      : this.profileService.getAlertService(profileId).evaluate(stats);
+    const desktopEnabled = this.settingsService.getPreferences().notifications;
+
+    for (const alert of alerts) {
+      const labelled = { ...alert, title: this.labelAlertTitle(alert.title, profileId, replaying) };
+      if (desktopEnabled) {
+        this.notificationService.showAlert(labelled);
+      }
+      // Replayed alerts stay on this machine rather than reaching webhooks and other channels
+      if (!replaying) {
+        // Channels have their own enabled flags, independent of desktop notifications
+        this.channelService.dispatch(labelled, menuBarData);
+      }
+    }
+  }
+
+  // Name the profile once there is more than one, and mark replayed alerts
+  private labelAlertTitle(title: string, profileId: string | null, replaying: boolean): string {
+    const profile = this.profileService.hasProfiles()
+      ? ` [${this.profileService.getProfileName(profileId)}]`
+      : '';
+    return `${title}${profile}${replaying ? ' (replay)' : ''}`;
+  }
+
   private updateTrayDisplay() {
     if (!this.cachedMenuBarData) return;
 
@@ -95,13 +297,16 @@ class CCSevaApp {
       
       case 'percentage':
         const percentage = Math.round(this.cachedMenuBarData.percentageUsed);
-        const percentageIcon = this.iconService.createPercentageIcon(percentage);
+        const percentageIcon = this.iconService.createPercentageIcon(
+          percentage,
+          this.cachedMenuBarData.status
+        );
         this.tray?.setImage(percentageIcon);
         break;
       
       case 'value':
         const cost = this.cachedMenuBarData.cost;
-        const costIcon = this.iconService.createCostIcon(cost);
+        const costIcon = this.iconService.createCostIcon(cost, this.cachedMenuBarData.status);
         this.tray?.setImage(costIcon);
         break;
       
@@ -109,18 +314,25 @@ class CCSevaApp {
         // Toggle between percentage and cost based on showPercentage flag
         if (this.showPercentage) {
           const percentage = Math.round(this.cachedMenuBarData.percentageUsed);
-          const dynamicIcon = this.iconService.createPercentageIcon(percentage);
+          const dynamicIcon = this.iconService.createPercentageIcon(
+            percentage,
+            this.cachedMenuBarData.status
+          );
           this.tray?.setImage(dynamicIcon);
         } else {
           const cost = this.cachedMenuBarData.cost;
-          const dynamicIcon = this.iconService.createCostIcon(cost);
+          const dynamicIcon = this.iconService.createCostIcon(
+            cost,
+            this.cachedMenuBarData.status
+          );
           this.tray?.setImage(dynamicIcon);
         }
         break;
     }
     
-    // Clear title since we're showing everything in the icon
-    this.tray?.setTitle('');
+    // The icon shows everything; the title only flags data that isn't live
+    const { dataSource } = this.cachedMenuBarData;
+    this.tray?.setTitle(dataSource === 'live' ? '' : dataSource === 'replay' ? '⏵' : '⚠');
   }
 
   private startDisplayToggle() {
@@ -135,7 +347,15 @@ class CCSevaApp {
   }
 
   private updateTrayContextMenu() {
+    const dataSource: DataSourceState = this.cachedMenuBarData?.dataSource ?? 'error';
     const contextMenu = Menu.buildFromTemplate([
+      ...(dataSource === 'live'
+        ? []
+        : [{ label: `⚠ ${dataSourceWarnings[dataSource]}`, enabled: false }, { type: 'separator' as const }]),
+      ...(dataSource === 'replay'
+        ? [{ label: 'Stop Replay', click: () => this.stopReplay() }, { type: 'separator' as const }]
+        : []),
+      ...this.getProfileMenuItems(),
       {
         label: 'Show/Hide',
         click: () => this.toggleWindow()
@@ -153,7 +373,7 @@ class CCSevaApp {
       {
         label: 'Quit',
         click: () => {
-          if (this.updateInterval) clearInterval(this.updateInterval);
+          this.stopUsagePolling();
           if (this.displayInterval) clearInterval(this.displayInterval);
           app.quit();
         }
@@ -163,6 +383,36 @@ class CCSevaApp {
     this.tray?.setContextMenu(contextMenu);
   }
 
+  /**
+   * One radio item per profile with its usage, so every account can be checked and switched to
+   */
+  private getProfileMenuItems() {
+    if (!this.profileService.hasProfiles()) return [];
+    return [
+      ...this.profileService.getStatuses().map((profile) => ({
+        label: `${profile.name}: ${formatProfileUsage(profile)}`,
+        type: 'radio' as const,
+        checked: profile.active,
+        click: () => this.switchProfile(profile.id),
+      })),
+      { type: 'separator' as const },
+    ];
+  }
+
+  /**
+   * Switch profiles from the tray, telling the window its saved preferences changed
+   */
+  private switchProfile(id: string | null) {
+    if (id === this.profileService.getActiveProfileId()) return;
+
+    const previous = this.settingsService.getPreferences();
+    const preferences = this.settingsService.updatePreferences({ activeProfileId: id });
+    this.applyPreferences(preferences, previous);
+    if (this.window && !this.window.isDestroyed()) {
+      this.window.webContents.send('preferences-updated');
+    }
+  }
+
   private createWindow() {
     const { width } = screen.getPrimaryDisplay().workAreaSize;
 
@@ -202,7 +452,7 @@ class CCSevaApp {
   private setupIPC() {
     ipcMain.handle('get-usage-stats', async () => {
       try {
-        return await this.usageService.getUsageStats();
+        return await this.shownUsageService.getUsageStats();
       } catch (error) {
         console.error('Error getting usage stats:', error);
         throw error;
@@ -211,9 +461,9 @@ class CCSevaApp {
 
     ipcMain.handle('refresh-data', async () => {
       try {
-        // Clear cache and fetch fresh data
-        const stats = await this.usageService.getUsageStats();
-        await this.updateTrayTitle();
+        // Clear cache and fetch fresh data, letting every view that loads its own data know
+        const stats = await this.shownUsageService.getUsageStats();
+        await this.refreshUsage();
         return stats;
       } catch (error) {
         console.error('Error refreshing data:', error);
@@ -222,12 +472,13 @@ class CCSevaApp {
     });
 
     ipcMain.handle('quit-app', () => {
-      if (this.updateInterval) {
-        clearInterval(this.updateInterval);
-      }
+      this.stopUsagePolling();
       if (this.displayInterval) {
         clearInterval(this.displayInterval);
       }
+      this.statusServer.stop();
+      this.metricsExporter.stop();
+      this.summaryScheduler.stop();
       app.quit();
     });
 
@@ -235,37 +486,302 @@ class CCSevaApp {
       return this.takeScreenshot();
     });
 
-    ipcMain.handle('update-menu-bar-display', async (event, mode: 'off' | 'percentage' | 'value' | 'all') => {
-      this.menuBarDisplayMode = mode;
-      
-      // Clear the display toggle interval if switching away from 'all' mode
-      if (mode !== 'all' && this.displayInterval) {
-        clearInterval(this.displayInterval);
-        this.displayInterval = null;
-      }
-      
-      // Restart the display toggle if switching to 'all' mode
-      if (mode === 'all' && !this.displayInterval) {
-        this.startDisplayToggle();
+    ipcMain.handle('get-usage-history', async (event, startDate?: string, endDate?: string) => {
+      return this.usageService.getDailyUsageHistory(startDate, endDate);
+    });
+
+    ipcMain.handle('get-usage-heatmap', async (event, startDate?: string) => {
+      return this.shownUsageService.getUsageHeatmap(startDate ? new Date(startDate) : undefined);
+    });
+
+    ipcMain.handle('get-profiles', () => {
+      return this.profileService.getStatuses();
+    });
+
+    ipcMain.handle('get-integration-status', () => {
+      return {
+        statusServer: this.statusServer.getStatus(),
+        metrics: this.metricsExporter.getStatus(),
+      };
+    });
+
+    ipcMain.handle('get-data-source-diagnostics', () => {
+      return this.usageService.getDataSourceDiagnostics();
+    });
+
+    ipcMain.handle('get-conversations', async (event, blockId?: string) => {
+      return this.shownUsageService.getConversations(blockId);
+    });
+
+    ipcMain.handle('test-notification-channel', async (event, channel: NotificationChannel) => {
+      const menuBarData = this.cachedMenuBarData ?? (await this.usageService.getMenuBarData());
+      return this.channelService.sendTest(channel, menuBarData);
+    });
+
+    ipcMain.handle('export-usage', async (event, request: ExportRequest) => {
+      return this.exportUsage(request);
+    });
+
+    ipcMain.handle('get-replay-state', () => {
+      return this.replayService.getState();
+    });
+
+    ipcMain.handle('start-replay', (event, day: string) => {
+      return this.startReplay(day);
+    });
+
+    ipcMain.handle('pause-replay', () => {
+      return this.replayService.pause();
+    });
+
+    ipcMain.handle('resume-replay', () => {
+      // A replay that reached its end starts over, which is a seek back to the beginning
+      const { position, end } = this.replayService.getState();
+      if (position === end) {
+        this.replayAlerts?.reset();
       }
-      
-      this.updateTrayDisplay();
+      return this.replayService.resume();
+    });
+
+    ipcMain.handle('seek-replay', (event, position: string) => {
+      // Alert conditions from the old position don't carry over to the new one
+      this.replayAlerts?.reset();
+      return this.replayService.seek(new Date(position));
+    });
+
+    ipcMain.handle('set-replay-speed', (event, speed: number) => {
+      return this.replayService.setSpeed(speed);
+    });
+
+    ipcMain.handle('stop-replay', () => {
+      return this.stopReplay();
+    });
+
+    ipcMain.handle('get-demo-mode', () => {
+      return this.demoMode;
+    });
+
+    ipcMain.handle('get-preferences', () => {
+      return this.settingsService.getPreferences();
+    });
+
+    ipcMain.handle('update-preferences', async (event, changes: Partial<AppPreferences>) => {
+      const previous = this.settingsService.getPreferences();
+      const preferences = this.settingsService.updatePreferences(changes);
+      this.applyPreferences(preferences, previous);
+      return preferences;
+    });
+
+    ipcMain.handle('update-menu-bar-display', async (event, mode: 'off' | 'percentage' | 'value' | 'all') => {
+      this.settingsService.updatePreferences({ menuBarDisplay: mode });
+      this.setMenuBarDisplayMode(mode);
     });
   }
 
-  private startUsagePolling() {
-    // Update every 30 seconds
-    this.updateInterval = setInterval(async () => {
-      await this.updateTrayTitle();
+  /**
+   * Push saved preferences into the services that depend on them
+   */
+  private applyPreferences(preferences: AppPreferences, previous?: AppPreferences) {
+    // Demo mode shows fixture logs only, so no other account's real logs are read
+    this.profileService.configure(
+      this.demoMode.active ? { ...preferences, profiles: [] } : preferences
+    );
+    this.channelService.setChannels(preferences.notificationChannels);
+    // Summaries go to real channels, so they are never built from demo data
+    if (!this.demoMode.active) {
+      this.summaryScheduler.configure(preferences.summarySchedule);
+    }
+
+    nativeTheme.themeSource = preferences.theme === 'auto' ? 'system' : preferences.theme;
+
+    if (preferences.menuBarDisplay !== this.menuBarDisplayMode) {
+      this.setMenuBarDisplayMode(preferences.menuBarDisplay);
+    }
+
+    // Restart polling so a new interval takes effect immediately
+    if (previous && previous.refreshInterval !== preferences.refreshInterval && this.updateInterval) {
+      this.startPollingTimer();
+    }
+
+    // Recolour the tray right away instead of waiting for the next poll
+    if (previous && previous.warningThresholds !== preferences.warningThresholds) {
+      this.updateTrayTitle();
+    }
+
+    // Watch the new set of directories and reload from them right away
+    const directoriesChanged =
+      previous &&
+      (previous.dataSources !== preferences.dataSources || previous.profiles !== preferences.profiles);
+    if (directoriesChanged && this.updateInterval) {
+      this.startUsagePolling();
+    }
 
-      // Notify renderer if window is open
-      if (this.window && !this.window.isDestroyed()) {
-        this.window.webContents.send('usage-updated');
+    // A replay belongs to the profile it started on; everything else just shows the new one
+    if (previous && previous.activeProfileId !== preferences.activeProfileId) {
+      if (this.replayAlerts) {
+        this.stopReplay();
+      } else {
+        this.refreshUsage();
       }
-    }, 30000);
+    }
+
+    this.applyStatusServerPreferences(preferences, previous);
+    this.applyMetricsPreferences(preferences, previous);
+    this.applyDemoPreferences(preferences, previous);
+  }
+
+  /**
+   * Demo mode replaces the data every service has loaded, so switching it restarts the app
+   */
+  private applyDemoPreferences(preferences: AppPreferences, previous?: AppPreferences) {
+    const changed =
+      previous &&
+      (previous.demoMode !== preferences.demoMode ||
+        (preferences.demoMode && previous.demoDataDirectory !== preferences.demoDataDirectory));
+    if (!changed) return;
+
+    // Drop a --demo flag so the saved choice takes effect
+    app.relaunch({ args: process.argv.slice(1).filter((arg) => getDemoFlag([arg]) === null) });
+    app.quit();
+  }
+
+  private applyStatusServerPreferences(preferences: AppPreferences, previous?: AppPreferences) {
+    const changed =
+      !previous ||
+      previous.statusServerEnabled !== preferences.statusServerEnabled ||
+      previous.statusServerPort !== preferences.statusServerPort;
+    if (!changed) return;
+
+    const starting = preferences.statusServerEnabled
+      ? this.statusServer.start(preferences.statusServerPort)
+      : this.statusServer.stop();
+    starting
+      .catch((error) => {
+        console.error(`Failed to start status server on port ${preferences.statusServerPort}:`, error);
+      })
+      .finally(() => this.sendIntegrationStatus());
+  }
+
+  /**
+   * Tell Settings that a local server started, stopped or failed to start
+   */
+  private sendIntegrationStatus() {
+    if (this.window && !this.window.isDestroyed()) {
+      this.window.webContents.send('integration-status-updated');
+    }
+  }
+
+  private applyMetricsPreferences(preferences: AppPreferences, previous?: AppPreferences) {
+    const changed =
+      !previous ||
+      previous.metricsEnabled !== preferences.metricsEnabled ||
+      previous.metricsHost !== preferences.metricsHost ||
+      previous.metricsPort !== preferences.metricsPort;
+    if (!changed) return;
+
+    const { metricsHost, metricsPort } = preferences;
+    const starting = preferences.metricsEnabled
+      ? this.metricsExporter.start(metricsPort, metricsHost)
+      : this.metricsExporter.stop();
+    starting
+      .catch((error) => {
+        console.error(`Failed to start metrics exporter on ${metricsHost}:${metricsPort}:`, error);
+      })
+      .finally(() => this.sendIntegrationStatus());
+  }
+
+  private setMenuBarDisplayMode(mode: 'off' | 'percentage' | 'value' | 'all') {
+    this.menuBarDisplayMode = mode;
 
-    // Initial update
-    setTimeout(() => this.updateTrayTitle(), 1000);
+    // Clear the display toggle interval if switching away from 'all' mode
+    if (mode !== 'all' && this.displayInterval) {
+      clearInterval(this.displayInterval);
+      this.displayInterval = null;
+    }
+
+    // Restart the display toggle if switching to 'all' mode
+    if (mode === 'all' && !this.displayInterval) {
+      this.startDisplayToggle();
+    }
+
+    this.updateTrayDisplay();
+  }
+
+  /**
+   * Replay a past day through the stats pipeline. Its alerts are evaluated with their own
+   * rule state, so live alerts that already fired don't fire again when it ends.
+   */
+  private startReplay(day: string): ReplayState {
+    const { warningThresholds } = this.settingsService.getPreferences();
+    const replayAlerts = new AlertService();
+    replayAlerts.setRules(this.profileService.getSettings()?.alertRules ?? []);
+    replayAlerts.setWarningThresholds(warningThresholds);
+    // Only count as replaying once there was something to replay
+    const state = this.replayService.start(day, () => this.refreshReplay());
+    this.replayAlerts = replayAlerts;
+    return state;
+  }
+
+  private async stopReplay(): Promise<ReplayState> {
+    const state = this.replayService.stop();
+    this.replayAlerts = null;
+    await this.refreshUsage();
+    return state;
+  }
+
+  /**
+   * Show each replay step in the tray and window, without pushing every step to status server subscribers
+   */
+  private async refreshReplay() {
+    await this.updateTrayTitle();
+    if (this.window && !this.window.isDestroyed()) {
+      this.window.webContents.send('usage-updated');
+    }
+  }
+
+  private startUsagePolling() {
+    // Refresh as soon as Claude Code writes to its logs, and poll for whatever can't be watched
+    this.logWatcher.start(() => this.refreshUsage());
+    this.startPollingTimer();
+
+    // Initial update, which also reloads views after the watched directories change
+    setTimeout(() => this.refreshUsage(), 1000);
+  }
+
+  /**
+   * Poll at the configured interval even while watching, so countdowns and block expiry stay
+   * current without new messages. Each poll also retries watching directories that appeared since.
+   */
+  private startPollingTimer() {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+    }
+
+    const { refreshInterval } = this.settingsService.getPreferences();
+    this.updateInterval = setInterval(() => {
+      this.logWatcher.watchMissing();
+      this.refreshUsage();
+    }, refreshInterval);
+  }
+
+  private stopUsagePolling() {
+    this.logWatcher.stop();
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+  }
+
+  private async refreshUsage() {
+    await this.updateTrayTitle();
+
+    // Notify renderer if window is open
+    if (this.window && !this.window.isDestroyed()) {
+      this.window.webContents.send('usage-updated');
+    }
+
+    // Push the refresh to status server subscribers
+    await this.statusServer.publishUpdate();
   }
 
   private showWindow() {
@@ -317,6 +833,47 @@ class CCSevaApp {
     }
   }
 
+  private async exportUsage(request: ExportRequest) {
+    try {
+      const extension = this.exportService.getFileExtension(request.format);
+      const options = {
+        title: 'Export Usage',
+        defaultPath: path.join(
+          app.getPath('documents'),
+          this.exportService.getDefaultFilename(request)
+        ),
+        filters: [{ name: request.format.toUpperCase(), extensions: [extension] }],
+      };
+      const { canceled, filePath } = this.window
+        ? await dialog.showSaveDialog(this.window, options)
+        : await dialog.showSaveDialog(options);
+
+      if (canceled || !filePath) {
+        return { success: false, canceled: true };
+      }
+
+      const content = this.exportService.generate(request, {
+        dailyUsage: await this.usageService.getDailyUsageHistory(),
+        sessionWindows: this.usageService.getSessionTracker().getSessionTracking().sessionHistory,
+      });
+
+      fs.writeFileSync(filePath, content);
+
+      return {
+        success: true,
+        filename: path.basename(filePath),
+        filepath: filePath,
+        message: `Usage exported to ${filePath}`,
+      };
+    } catch (error) {
+      console.error('Export error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown export error',
+      };
+    }
+  }
+
   private createScreenshotPath(): string {
     // Cross-platform screenshots directory
     const picturesDir = process.platform === 'win32' 
@@ -5,10 +5,38 @@ const electronAPI = {
   refreshData: () => ipcRenderer.invoke('refresh-data'),
   quitApp: () => ipcRenderer.invoke('quit-app'),
   takeScreenshot: () => ipcRenderer.invoke('take-screenshot'),
+  getUsageHistory: (startDate?: string, endDate?: string) =>
+    ipcRenderer.invoke('get-usage-history', startDate, endDate),
+  getUsageHeatmap: (startDate?: string) => ipcRenderer.invoke('get-usage-heatmap', startDate),
+  getConversations: (blockId?: string) => ipcRenderer.invoke('get-conversations', blockId),
+  getDataSourceDiagnostics: () => ipcRenderer.invoke('get-data-source-diagnostics'),
+  getProfiles: () => ipcRenderer.invoke('get-profiles'),
+  getIntegrationStatus: () => ipcRenderer.invoke('get-integration-status'),
+  exportUsage: (request: Record<string, unknown>) => ipcRenderer.invoke('export-usage', request),
+  testNotificationChannel: (channel: Record<string, unknown>) =>
+    ipcRenderer.invoke('test-notification-channel', channel),
   updateMenuBarDisplay: (mode: string) => ipcRenderer.invoke('update-menu-bar-display', mode),
+  getReplayState: () => ipcRenderer.invoke('get-replay-state'),
+  startReplay: (day: string) => ipcRenderer.invoke('start-replay', day),
+  pauseReplay: () => ipcRenderer.invoke('pause-replay'),
+  resumeReplay: () => ipcRenderer.invoke('resume-replay'),
+  seekReplay: (position: string) => ipcRenderer.invoke('seek-replay', position),
+  setReplaySpeed: (speed: number) => ipcRenderer.invoke('set-replay-speed', speed),
+  stopReplay: () => ipcRenderer.invoke('stop-replay'),
+  getDemoMode: () => ipcRenderer.invoke('get-demo-mode'),
+  getPreferences: () => ipcRenderer.invoke('get-preferences'),
+  updatePreferences: (changes: Record<string, unknown>) =>
+    ipcRenderer.invoke('update-preferences', changes),
   onUsageUpdated: (callback: () => void) => ipcRenderer.on('usage-updated', callback),
   removeUsageUpdatedListener: (callback: () => void) =>
     ipcRenderer.removeListener('usage-updated', callback),
+  onPreferencesUpdated: (callback: () => void) => ipcRenderer.on('preferences-updated', callback),
+  removePreferencesUpdatedListener: (callback: () => void) =>
+    ipcRenderer.removeListener('preferences-updated', callback),
+  onIntegrationStatusUpdated: (callback: () => void) =>
+    ipcRenderer.on('integration-status-updated', callback),
+  removeIntegrationStatusUpdatedListener: (callback: () => void) =>
+    ipcRenderer.removeListener('integration-status-updated', callback),
 };
 
 contextBridge.exposeInMainWorld('electronAPI', electronAPI);
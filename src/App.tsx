@@ -3,17 +3,31 @@ import type React from 'react';
 import { useCallback, useEffect, useState } from 'react';
 import { toast } from 'sonner';
 import { Analytics } from './components/Analytics';
+import { ConversationsView } from './components/ConversationsView';
 import { Dashboard } from './components/Dashboard';
+import { DataSourceBanner, DataSourceIndicator } from './components/DataSourceBanner';
+import { DiagnosticsView } from './components/DiagnosticsView';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { LiveMonitoring } from './components/LiveMonitoring';
 import { LoadingScreen } from './components/LoadingScreen';
 import { NavigationTabs } from './components/NavigationTabs';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { ProjectsView } from './components/ProjectsView';
 import { SettingsPanel } from './components/SettingsPanel';
 import { TerminalView } from './components/TerminalView';
 import { Button } from './components/ui/button';
 import { Toaster } from './components/ui/sonner';
-import type { UsageStats } from './types/usage';
-
-type ViewType = 'dashboard' | 'live' | 'analytics' | 'terminal' | 'settings';
+import type { AppPreferences, UsageStats } from './types/usage';
+
+type ViewType =
+  | 'dashboard'
+  | 'live'
+  | 'analytics'
+  | 'projects'
+  | 'conversations'
+  | 'terminal'
+  | 'settings'
+  | 'diagnostics';
 
 interface AppState {
   currentView: ViewType;
@@ -29,18 +43,18 @@ interface AppState {
     message: string;
     timestamp: Date;
   }>;
-  preferences: {
-    autoRefresh: boolean;
-    refreshInterval: number;
-    theme: 'auto' | 'light' | 'dark';
-    notifications: boolean;
-    animationsEnabled: boolean;
-    timezone?: string;
-    resetHour?: number;
-    menuBarDisplay: 'off' | 'percentage' | 'value' | 'all';
-  };
+  preferences: AppPreferences | null; // loaded from the main process, which owns the defaults
+  conversationBlockId: string | null; // session block the conversations view opens on
+  conversationReturnView: ViewType;
+  diagnosticsReturnView: ViewType;
 }
 
+// Open data source diagnostics, remembering where to go back to
+const openDiagnostics = (prev: AppState): AppState =>
+  prev.currentView === 'diagnostics'
+    ? prev
+    : { ...prev, currentView: 'diagnostics', diagnosticsReturnView: prev.currentView };
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
     currentView: 'dashboard',
@@ -50,16 +64,10 @@ const App: React.FC = () => {
     sidebarExpanded: false,
     focusMode: false,
     notifications: [],
-    preferences: {
-      autoRefresh: true,
-      refreshInterval: 30000,
-      theme: 'auto',
-      notifications: true,
-      animationsEnabled: true,
-      timezone: 'America/Los_Angeles',
-      resetHour: 0,
-      menuBarDisplay: 'all',
-    },
+    preferences: null,
+    conversationBlockId: null,
+    conversationReturnView: 'dashboard',
+    diagnosticsReturnView: 'dashboard',
   });
 
   // Load usage stats with enhanced error handling
@@ -195,24 +203,78 @@ const App: React.FC = () => {
     }));
   };
 
-  // Update preferences
-  const updatePreferences = (newPreferences: Partial<AppState['preferences']>) => {
+  // Update preferences and persist them in the main process
+  const updatePreferences = (newPreferences: Partial<AppPreferences>) => {
     setState((prev) => ({
       ...prev,
-      preferences: { ...prev.preferences, ...newPreferences },
+      preferences: prev.preferences && { ...prev.preferences, ...newPreferences },
     }));
 
-    // Send menu bar display preference to main process
-    if ('menuBarDisplay' in newPreferences && newPreferences.menuBarDisplay) {
-      window.electronAPI.updateMenuBarDisplay(newPreferences.menuBarDisplay);
-    }
+    window.electronAPI
+      ?.updatePreferences(newPreferences)
+      .then((saved) => {
+        // The main process may have clamped or dropped invalid values
+        setState((prev) => ({ ...prev, preferences: saved }));
+
+        // These change the reset or limit calculation, so pull fresh stats
+        const statsKeys = [
+          'timezone',
+          'resetMode',
+          'resetHour',
+          'plan',
+          'customTokenLimit',
+          'warningThresholds',
+          'profiles',
+          'activeProfileId',
+        ];
+        if (statsKeys.some((key) => key in newPreferences)) {
+          return window.electronAPI.getUsageStats().then((data) => {
+            setState((prev) => ({ ...prev, stats: data }));
+          });
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to save preferences:', err);
+      });
   };
 
+  // Load saved preferences from the main process, again whenever it changes them (e.g. a profile switch from the tray)
+  useEffect(() => {
+    const loadPreferences = () => {
+      window.electronAPI
+        ?.getPreferences()
+        .then((preferences) => {
+          setState((prev) => ({ ...prev, preferences }));
+        })
+        .catch((err) => {
+          console.error('Failed to load preferences:', err);
+        });
+    };
+
+    loadPreferences();
+    window.electronAPI?.onPreferencesUpdated(loadPreferences);
+    return () => window.electronAPI?.removePreferencesUpdatedListener(loadPreferences);
+  }, []);
+
   // Handle navigation
   const navigateTo = useCallback((view: ViewType) => {
     setState((prev) => ({ ...prev, currentView: view }));
   }, []);
 
+  // Open the conversations drill-down, remembering where to go back to
+  const viewConversations = useCallback((blockId?: string) => {
+    setState((prev) => ({
+      ...prev,
+      currentView: 'conversations',
+      conversationBlockId: blockId ?? null,
+      conversationReturnView: prev.currentView,
+    }));
+  }, []);
+
+  const viewDiagnostics = useCallback(() => {
+    setState(openDiagnostics);
+  }, []);
+
   // Toggle focus mode
   const toggleFocusMode = useCallback(() => {
     setState((prev) => ({ ...prev, focusMode: !prev.focusMode }));
@@ -238,7 +300,7 @@ const App: React.FC = () => {
 
     // Handle usage updates from main process
     const handleUsageUpdate = () => {
-      if (state.preferences.autoRefresh) {
+      if (state.preferences?.autoRefresh) {
         // Silent update from main process - no notification needed
         setState((prev) => ({ ...prev, loading: true, error: null }));
 
@@ -272,7 +334,7 @@ const App: React.FC = () => {
         window.electronAPI.removeUsageUpdatedListener(handleUsageUpdate);
       }
     };
-  }, [state.preferences.autoRefresh, loadUsageStats]);
+  }, [state.preferences?.autoRefresh, loadUsageStats]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -303,6 +365,10 @@ const App: React.FC = () => {
             event.preventDefault();
             navigateTo('terminal');
             break;
+          case '5':
+            event.preventDefault();
+            navigateTo('projects');
+            break;
           case ',':
             event.preventDefault();
             navigateTo('settings');
@@ -322,12 +388,6 @@ const App: React.FC = () => {
   }, [navigateTo, refreshData, takeScreenshot]);
 
   // Helper functions
-  const getUsageStatus = (percentage: number): 'safe' | 'warning' | 'critical' => {
-    if (percentage >= 90) return 'critical';
-    if (percentage >= 75) return 'warning';
-    return 'safe';
-  };
-
   const formatTimeRemaining = (burnRate: number, tokensRemaining: number): string => {
     if (burnRate <= 0) return 'Unlimited';
     const hoursRemaining = tokensRemaining / burnRate;
@@ -336,15 +396,6 @@ const App: React.FC = () => {
     return `${Math.round(hoursRemaining / 24)}d remaining`;
   };
 
-  // Render loading screen
-  if (state.loading && !state.stats) {
-    return (
-      <div className="app-background">
-        <LoadingScreen />
-      </div>
-    );
-  }
-
   // Render error state
   if (state.error && !state.stats) {
     return (
@@ -380,8 +431,9 @@ const App: React.FC = () => {
     );
   }
 
-  const currentStats = state.stats;
-  if (!currentStats) {
+  // Render loading screen until the first stats and the saved preferences arrive
+  const { stats: currentStats, preferences } = state;
+  if (!currentStats || !preferences) {
     return (
       <div className="app-background">
         <LoadingScreen />
@@ -389,7 +441,6 @@ const App: React.FC = () => {
     );
   }
 
-  const usageStatus = getUsageStatus(currentStats.percentageUsed);
   const timeRemaining = formatTimeRemaining(currentStats.burnRate, currentStats.tokensRemaining);
 
   return (
@@ -428,6 +479,12 @@ const App: React.FC = () => {
                   </div>
 
                   <div className="flex items-center gap-2">
+                    <ProfileSwitcher
+                      onSwitch={(activeProfileId) => updatePreferences({ activeProfileId })}
+                    />
+
+                    <DataSourceIndicator status={currentStats.dataSource} onClick={viewDiagnostics} />
+
                     <div className="glass px-2 py-1 rounded-lg">
                       <span className="text-xs text-neutral-300">
                         {new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -491,16 +548,51 @@ const App: React.FC = () => {
 
             {/* Content */}
             <div className={state.focusMode ? "h-screen" : "space-y-3 pb-3"}>
+              {/* Diagnostics explain the data source; every other view warns while it isn't live */}
+              {state.currentView === 'diagnostics' ? (
+                <DiagnosticsView
+                  stats={currentStats}
+                  onRefresh={refreshData}
+                  onBack={() => navigateTo(state.diagnosticsReturnView)}
+                />
+              ) : (
+                <DataSourceBanner
+                  status={currentStats.dataSource}
+                  onOpenDiagnostics={viewDiagnostics}
+                />
+              )}
+
               {state.currentView === 'dashboard' && (
                 <Dashboard
                   stats={currentStats}
-                  status={usageStatus}
                   timeRemaining={timeRemaining}
                 />
               )}
 
               {state.currentView === 'analytics' && (
-                <Analytics stats={currentStats} preferences={state.preferences} />
+                <Analytics
+                  stats={currentStats}
+                  preferences={preferences}
+                  onViewConversations={viewConversations}
+                />
+              )}
+
+              {state.currentView === 'live' && (
+                <LiveMonitoring
+                  stats={currentStats}
+                  onRefresh={refreshData}
+                  onViewConversations={viewConversations}
+                />
+              )}
+
+              {state.currentView === 'projects' && <ProjectsView stats={currentStats} />}
+
+              {state.currentView === 'conversations' && (
+                <ConversationsView
+                  stats={currentStats}
+                  initialBlockId={state.conversationBlockId}
+                  onBack={() => navigateTo(state.conversationReturnView)}
+                />
               )}
 
               {state.currentView === 'terminal' && (
@@ -509,7 +601,7 @@ const App: React.FC = () => {
 
               {state.currentView === 'settings' && (
                 <SettingsPanel
-                  preferences={state.preferences}
+                  preferences={preferences}
                   onUpdatePreferences={updatePreferences}
                   stats={currentStats}
                 />
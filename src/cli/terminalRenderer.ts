@@ -0,0 +1,137 @@
+import type { DataSourceState, UsageStats, UsageStatus } from '../types/usage.js';
+
+interface RenderOptions {
+  color: boolean;
+  resetCountdown: string;
+  sessionSummary: {
+    currentStatus: string;
+    windowSummary: string;
+    efficiency: string;
+    recommendation: string;
+  };
+}
+
+const ANSI = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  magenta: '\x1b[35m',
+  cyan: '\x1b[36m',
+  gray: '\x1b[90m',
+};
+
+type Color = keyof typeof ANSI;
+
+const dataSourceWarnings: Record<Exclude<DataSourceState, 'live'>, string> = {
+  stale: 'STALE DATA',
+  mock: 'DEMO DATA',
+  replay: 'REPLAYED DATA',
+  error: 'NO USAGE DATA',
+};
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return Math.round(num).toLocaleString();
+};
+
+const generateProgressBar = (percentage: number, width = 30, fill = '█', empty = '░') => {
+  const filled = Math.max(0, Math.min(width, Math.round((percentage / 100) * width)));
+  return fill.repeat(filled) + empty.repeat(width - filled);
+};
+
+const getStatusEmoji = (status: UsageStatus) => {
+  if (status === 'critical') return '🔴';
+  if (status === 'warning') return '🟡';
+  return '🟢';
+};
+
+const getBurnRateEmoji = (burnRate: number) => {
+  if (burnRate > 1000) return '🔥';
+  if (burnRate > 500) return '⚡';
+  return '💤';
+};
+
+const getTrendEmoji = (trend: UsageStats['velocity']['trend']) => {
+  if (trend === 'increasing') return '📈';
+  if (trend === 'decreasing') return '📉';
+  return '➡️';
+};
+
+/**
+ * Render usage stats as plain terminal text, mirroring the in-app TerminalView
+ */
+export function renderStats(stats: UsageStats, options: RenderOptions): string {
+  const paint = (text: string, ...colors: Color[]) =>
+    options.color ? `${colors.map((c) => ANSI[c]).join('')}${text}${ANSI.reset}` : text;
+
+  const timeProgress = stats.resetInfo?.percentUntilReset ?? 0;
+  const planSource = stats.planManager?.autoSwitchEnabled === false ? 'pinned' : 'auto-detected';
+  const lines: string[] = [];
+
+  lines.push(paint('┌─ Claude Code Usage Monitor ─┐', 'green'));
+  lines.push(paint(`└─ ${new Date().toLocaleTimeString()} ─┘`, 'green', 'dim'));
+  lines.push('');
+
+  const { state, reason } = stats.dataSource;
+  if (state !== 'live') {
+    const detail = reason ? `: ${reason.split('\n')[0]}` : '';
+    lines.push(paint(`⚠ ${dataSourceWarnings[state]}${detail}`, 'yellow', 'bold'));
+    lines.push('');
+  }
+
+  lines.push(
+    `${paint('TOKEN USAGE:', 'green')} ${paint(`${stats.percentageUsed.toFixed(1)}%`, 'bold')} ${getStatusEmoji(stats.status)}`
+  );
+  lines.push(
+    `${paint('[', 'green')}${paint(generateProgressBar(stats.percentageUsed), 'yellow')}${paint(']', 'green')} ${paint(`${formatNumber(stats.tokensUsed)}/${formatNumber(stats.tokenLimit)}`, 'gray')}`
+  );
+  lines.push('');
+
+  lines.push(
+    `${paint('TIME PROGRESS:', 'blue')} ${paint(`${timeProgress.toFixed(1)}%`, 'bold')} ⏰`
+  );
+  lines.push(
+    `${paint('[', 'blue')}${paint(generateProgressBar(timeProgress, 30, '▓', '▒'), 'cyan')}${paint(']', 'blue')} ${paint(`${options.resetCountdown} until reset`, 'gray')}`
+  );
+  lines.push('');
+
+  lines.push(
+    `${paint('BURN RATE:', 'yellow')}  ${paint(formatNumber(stats.burnRate), 'bold')} tokens/hr ${getBurnRateEmoji(stats.burnRate)}`
+  );
+  lines.push(
+    `${paint('PLAN:', 'magenta')}       ${paint(stats.currentPlan, 'bold')} ${paint(planSource, 'gray')}`
+  );
+  lines.push(
+    `${paint('COST TODAY:', 'red')} ${paint(`$${stats.today.totalCost.toFixed(3)}`, 'bold')} USD`
+  );
+  lines.push(
+    `${paint('REMAINING:', 'yellow')}  ${paint(formatNumber(stats.tokensRemaining), 'bold')} tokens`
+  );
+
+  if (stats.sessionTracking) {
+    lines.push('');
+    lines.push(paint('SESSION WINDOW (5H):', 'cyan'));
+    lines.push(
+      `  ${stats.sessionTracking.sessionsInWindow} sessions · ${formatNumber(stats.sessionTracking.activeWindow.totalTokens)} window tokens`
+    );
+    lines.push(`  ${options.sessionSummary.currentStatus}`);
+    lines.push(`  ${options.sessionSummary.efficiency}`);
+    lines.push(`  ${options.sessionSummary.recommendation}`);
+  }
+
+  if (stats.velocity) {
+    const sign = stats.velocity.trendPercent > 0 ? '+' : '';
+    lines.push('');
+    lines.push(paint('VELOCITY ANALYSIS:', 'magenta'));
+    lines.push(
+      `  Trend: ${getTrendEmoji(stats.velocity.trend)} ${stats.velocity.trend}   Change: ${sign}${stats.velocity.trendPercent}%`
+    );
+  }
+
+  return lines.join('\n');
+}
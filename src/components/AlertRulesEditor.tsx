@@ -0,0 +1,204 @@
+import type React from 'react';
+import type { AlertMetric, AlertRule, AlertSeverity } from '../types/usage';
+import { DraftInput } from './DraftInput';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+
+const metricOptions: { metric: AlertMetric; label: string; unit: string }[] = [
+  { metric: 'percentageUsed', label: 'Token usage', unit: '%' },
+  { metric: 'burnRate', label: 'Burn rate', unit: 'tokens/hr' },
+  { metric: 'depletionBeforeReset', label: 'Depletes before reset', unit: '' },
+  { metric: 'dailyCost', label: "Today's cost", unit: 'USD' },
+  { metric: 'sessionEndsIn', label: 'Session ends within', unit: 'min' },
+];
+
+const severityOptions: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onCommit }) => (
+  <div>
+    <div className="text-white/60 text-xs mb-1">{label}</div>
+    <DraftInput
+      type="number"
+      value={value.toString()}
+      isValid={(draft) => {
+        const parsed = Number.parseFloat(draft);
+        return !Number.isNaN(parsed) && parsed >= 0;
+      }}
+      onCommit={(draft) => onCommit(Number.parseFloat(draft))}
+      className="w-full"
+    />
+  </div>
+);
+
+interface AlertRuleRowProps {
+  rule: AlertRule;
+  onChange: (changes: Partial<AlertRule>) => void;
+  onDelete: () => void;
+}
+
+const AlertRuleRow: React.FC<AlertRuleRowProps> = ({ rule, onChange, onDelete }) => {
+  const metric = metricOptions.find((option) => option.metric === rule.metric);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-3">
+      <div className="flex items-center gap-3">
+        <Switch checked={rule.enabled} onCheckedChange={(enabled) => onChange({ enabled })} />
+        <DraftInput
+          value={rule.name}
+          onCommit={(name) => onChange({ name: name.trim() })}
+          className="flex-1"
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          className="h-auto px-2 py-1 text-xs text-red-300 hover:text-red-200"
+        >
+          Delete
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <div className="text-white/60 text-xs mb-1">Metric</div>
+          <Select
+            value={rule.metric}
+            onValueChange={(value) =>
+              // Only usage % rules can follow the warning thresholds
+              onChange({ metric: value as AlertMetric, thresholdLevel: undefined })
+            }
+          >
+            <SelectTrigger className="w-full bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-neutral-900/80 border-white/20">
+              {metricOptions.map((option) => (
+                <SelectItem key={option.metric} value={option.metric}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <div className="text-white/60 text-xs mb-1">Severity</div>
+          <Select
+            value={rule.severity}
+            onValueChange={(value) => onChange({ severity: value as AlertSeverity })}
+          >
+            <SelectTrigger className="w-full bg-white/10 border-white/20 text-white capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-neutral-900/80 border-white/20">
+              {severityOptions.map((severity) => (
+                <SelectItem key={severity} value={severity} className="capitalize">
+                  {severity}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {rule.thresholdLevel && (
+          <div>
+            <div className="text-white/60 text-xs mb-1">Threshold (%)</div>
+            <div className="text-white/70 text-sm py-1">
+              {rule.thresholdLevel === 'high' ? 'Critical' : 'Warning'} level
+            </div>
+          </div>
+        )}
+        {!rule.thresholdLevel && rule.metric !== 'depletionBeforeReset' && (
+          <NumberField
+            label={`Threshold (${metric?.unit})`}
+            value={rule.threshold}
+            onCommit={(threshold) => onChange({ threshold })}
+          />
+        )}
+        <NumberField
+          label="For (min)"
+          value={rule.durationMinutes}
+          onCommit={(durationMinutes) => onChange({ durationMinutes })}
+        />
+        <NumberField
+          label="Cooldown (min)"
+          value={rule.cooldownMinutes}
+          onCommit={(cooldownMinutes) => onChange({ cooldownMinutes })}
+        />
+      </div>
+
+      <div>
+        <div className="text-white/60 text-xs mb-1">Message</div>
+        <DraftInput
+          value={rule.message}
+          onCommit={(message) => onChange({ message })}
+          className="w-full"
+        />
+      </div>
+    </div>
+  );
+};
+
+interface AlertRulesEditorProps {
+  rules: AlertRule[];
+  onChange: (rules: AlertRule[]) => void;
+}
+
+export const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ rules, onChange }) => {
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      {
+        id: `custom-${Date.now()}`,
+        name: 'New Alert',
+        enabled: true,
+        metric: 'percentageUsed',
+        threshold: 50,
+        durationMinutes: 0,
+        cooldownMinutes: 30,
+        severity: 'info',
+        message: "You've used {percentageUsed}% of your tokens.",
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule) => (
+        <AlertRuleRow
+          key={rule.id}
+          rule={rule}
+          onChange={(changes) => updateRule(rule.id, changes)}
+          onDelete={() => onChange(rules.filter((r) => r.id !== rule.id))}
+        />
+      ))}
+
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-white/50">
+          Placeholders: {'{percentageUsed}'}, {'{burnRate}'}, {'{dailyCost}'}, {'{depletionTime}'},{' '}
+          {'{resetTime}'}, {'{minutesUntilSessionEnd}'}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={addRule}
+          className="glass h-auto shrink-0 rounded-lg px-3 py-1 text-xs text-neutral-300 hover:text-white"
+        >
+          Add rule
+        </Button>
+      </div>
+    </div>
+  );
+};
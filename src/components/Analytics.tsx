@@ -1,6 +1,16 @@
 import type React from 'react';
 import { useEffect, useMemo, useRef, useState } from 'react';
-import type { UsageStats } from '../types/usage';
+import { toast } from 'sonner';
+import { loadOnUsageUpdate } from '../lib/usageUpdates';
+import type {
+  DailyUsage,
+  DepletionForecast,
+  ExportFormat,
+  ProjectUsage,
+  UsageHeatmap,
+  UsageStats,
+} from '../types/usage';
+import { ALL_PROJECTS, ProjectFilter, scopeStatsToProject } from './ProjectFilter';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
@@ -10,9 +20,28 @@ interface AnalyticsProps {
   preferences: {
     animationsEnabled: boolean;
   };
+  onViewConversations: () => void;
 }
 
-type ChartTimeRange = '7d' | '30d';
+type ChartTimeRange = '7d' | '30d' | '90d' | '1y' | 'all';
+type ChartGranularity = 'day' | 'week' | 'month';
+
+// Ranges beyond 30 days come from the local history store and are bucketed to stay readable
+const timeRangeOptions: Record<
+  ChartTimeRange,
+  { label: string; description: string; days?: number; granularity: ChartGranularity }
+> = {
+  '7d': { label: '7 Days', description: 'Last 7 days', days: 7, granularity: 'day' },
+  '30d': { label: '30 Days', description: 'Last 30 days', days: 30, granularity: 'day' },
+  '90d': { label: '90 Days', description: 'Last 90 days by week', days: 90, granularity: 'week' },
+  '1y': {
+    label: '1 Year',
+    description: 'Last 12 months by month',
+    days: 365,
+    granularity: 'month',
+  },
+  all: { label: 'All', description: 'All recorded history by month', granularity: 'month' },
+};
 type ChartType = 'area' | 'line' | 'bar';
 
 // Helper functions extracted to reduce complexity
@@ -34,7 +63,7 @@ const formatCurrency = (amount: number) => {
 };
 
 const getDepletionText = (stats: UsageStats) => {
-  if (!stats.predictedDepleted || stats.burnRate <= 0) return 'No depletion';
+  if (!stats.predictedDepleted) return 'No depletion';
 
   try {
     const depletionDate = new Date(stats.predictedDepleted);
@@ -44,8 +73,12 @@ const getDepletionText = (stats: UsageStats) => {
     const diffTime = depletionDate.getTime() - now.getTime();
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 
-    if (diffDays < 0) return 'Already depleted';
-    if (diffDays === 0) return 'Today';
+    if (diffTime <= 0) return 'Already depleted';
+    if (diffTime < 1000 * 60 * 60 * 24) {
+      const hours = Math.floor(diffTime / (1000 * 60 * 60));
+      const minutes = Math.floor((diffTime % (1000 * 60 * 60)) / (1000 * 60));
+      return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+    }
     if (diffDays === 1) return 'Tomorrow';
     if (diffDays < 7) return `${diffDays} days`;
     if (diffDays < 30) return `${Math.ceil(diffDays / 7)} weeks`;
@@ -55,6 +88,18 @@ const getDepletionText = (stats: UsageStats) => {
   }
 };
 
+const toLocalDateString = (date: Date) => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toLocalDateString(date);
+};
+
 // Separate component for control tabs
 const ControlTabs: React.FC<{
   timeRange: ChartTimeRange;
@@ -67,7 +112,7 @@ const ControlTabs: React.FC<{
   <div className="flex flex-wrap gap-3 mb-5">
     {/* Time Range */}
     <div className="flex bg-neutral-800/50 rounded-xl p-1 backdrop-blur-sm border border-white/10">
-      {(['7d', '30d'] as ChartTimeRange[]).map((range) => (
+      {(Object.keys(timeRangeOptions) as ChartTimeRange[]).map((range) => (
         <Button
           key={range}
           onClick={() => setTimeRange(range)}
@@ -92,7 +137,7 @@ const ControlTabs: React.FC<{
               d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
             />
           </svg>
-          {range === '7d' ? '7 Days' : '30 Days'}
+          {timeRangeOptions[range].label}
         </Button>
       ))}
     </div>
@@ -203,26 +248,83 @@ const SummaryStats: React.FC<{
   </div>
 );
 
+// Start of the week (Monday) or month containing a YYYY-MM-DD date
+const getBucketStart = (date: string, granularity: ChartGranularity) => {
+  if (granularity === 'month') return `${date.slice(0, 7)}-01`;
+  if (granularity === 'day') return date;
+
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().split('T')[0];
+};
+
+const bucketDailyUsage = (days: DailyUsage[], granularity: ChartGranularity) => {
+  const buckets = new Map<string, { date: string; totalTokens: number; totalCost: number }>();
+  for (const day of days) {
+    const key = getBucketStart(day.date, granularity);
+    const bucket = buckets.get(key) ?? { date: key, totalTokens: 0, totalCost: 0 };
+    bucket.totalTokens += day.totalTokens;
+    bucket.totalCost += day.totalCost;
+    buckets.set(key, bucket);
+  }
+  return [...buckets.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Hook for loading long ranges from the local history store, reloaded with every usage refresh
+const useUsageHistory = (timeRange: ChartTimeRange) => {
+  const [history, setHistory] = useState<DailyUsage[]>([]);
+
+  useEffect(() => {
+    const { days, granularity } = timeRangeOptions[timeRange];
+    if (granularity === 'day' || !window.electronAPI) return;
+
+    const startDate = days ? daysAgo(days - 1) : undefined;
+    return loadOnUsageUpdate(
+      () => window.electronAPI.getUsageHistory(startDate),
+      setHistory,
+      (err) => console.error('Failed to load usage history:', err)
+    );
+  }, [timeRange]);
+
+  return history;
+};
+
+// The history store only keeps overall totals, so a project's long ranges come from its live logs
+const getProjectHistory = (project: ProjectUsage, timeRange: ChartTimeRange) => {
+  const { days } = timeRangeOptions[timeRange];
+  if (!days) return project.dailyUsage;
+
+  const startDate = daysAgo(days - 1);
+  return project.dailyUsage.filter((day) => day.date >= startDate);
+};
+
 // Hook for chart data processing
-const useChartData = (stats: UsageStats, timeRange: ChartTimeRange) => {
+const useChartData = (stats: UsageStats, timeRange: ChartTimeRange, history: DailyUsage[]) => {
   return useMemo(() => {
-    const rawData = timeRange === '7d' ? stats.thisWeek : stats.thisMonth;
+    const { granularity } = timeRangeOptions[timeRange];
+    const isMonthly = granularity === 'month';
+    let rawData: Array<{ date: string; totalTokens: number; totalCost: number }>;
+    if (granularity !== 'day') {
+      rawData = bucketDailyUsage(history, granularity);
+    } else {
+      rawData = timeRange === '7d' ? stats.thisWeek : stats.thisMonth;
+    }
 
     return rawData.map((day, index) => ({
-      date: new Date(day.date).toLocaleDateString('en-US', {
-        month: 'short',
-        day: 'numeric',
-      }),
-      shortDate: new Date(day.date).toLocaleDateString('en-US', {
-        month: 'numeric',
-        day: 'numeric',
-      }),
+      date: new Date(day.date).toLocaleDateString(
+        'en-US',
+        isMonthly ? { month: 'short', year: 'numeric' } : { month: 'short', day: 'numeric' }
+      ),
+      shortDate: new Date(day.date).toLocaleDateString(
+        'en-US',
+        isMonthly ? { month: 'short' } : { month: 'numeric', day: 'numeric' }
+      ),
       fullDate: day.date,
       totalTokens: day.totalTokens,
       totalCost: day.totalCost,
       dayIndex: index,
     }));
-  }, [stats, timeRange]);
+  }, [stats, timeRange, history]);
 };
 
 // Hook for model breakdown data
@@ -350,7 +452,7 @@ const MainChart: React.FC<{
               {selectedMetric === 'tokens' ? 'Token Usage' : 'Cost'} Trends
             </h3>
             <p className="text-sm text-neutral-400">
-              {timeRange === '7d' ? 'Last 7 days' : 'Last 30 days'} • {chartType} visualization
+              {timeRangeOptions[timeRange].description} • {chartType} visualization
             </p>
           </div>
 
@@ -545,17 +647,416 @@ const MainChart: React.FC<{
   );
 };
 
-export const Analytics: React.FC<AnalyticsProps> = ({ stats }) => {
+const formatClockTime = (time: string) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const getForecastSummary = (forecast: DepletionForecast) => {
+  if (!forecast.p50) {
+    return forecast.p10
+      ? `Unlikely before reset, though possible from ${formatClockTime(forecast.p10)}`
+      : 'Not expected before reset';
+  }
+  const range = `${forecast.p10 ? formatClockTime(forecast.p10) : 'now'} – ${
+    forecast.p90 ? formatClockTime(forecast.p90) : 'after reset'
+  }`;
+  return `Most likely at ${formatClockTime(forecast.p50)} (80% range ${range})`;
+};
+
+// Projected session usage with its P10-P90 cone against the token limit
+const ForecastCone: React.FC<{ stats: UsageStats }> = ({ stats }) => {
+  const { chartDimensions, chartContainerRef } = useChartDimensions();
+  const forecast = stats.prediction.forecast;
+  const chartWidth = chartDimensions.width;
+  const chartHeight = 200;
+  const padding = 40;
+  const plotWidth = chartWidth - padding * 2;
+  const plotHeight = chartHeight - padding * 2;
+
+  const cone = forecast?.cone ?? [];
+  const startTime = cone.length > 0 ? new Date(cone[0].time).getTime() : 0;
+  const endTime = cone.length > 0 ? new Date(cone[cone.length - 1].time).getTime() : 1;
+  const maxValue = Math.max(stats.tokenLimit, ...cone.map((point) => point.p90)) * 1.05;
+
+  const toX = (time: string) =>
+    padding +
+    ((new Date(time).getTime() - startTime) / Math.max(endTime - startTime, 1)) * plotWidth;
+  const toY = (value: number) => padding + plotHeight - (value / maxValue) * plotHeight;
+  const toPath = (values: { time: string; value: number }[]) =>
+    values
+      .map((point, i) => `${i === 0 ? 'M' : 'L'} ${toX(point.time)} ${toY(point.value)}`)
+      .join(' ');
+
+  const conePath = `${toPath(cone.map((point) => ({ time: point.time, value: point.p90 })))} ${[
+    ...cone,
+  ]
+    .reverse()
+    .map((point) => `L ${toX(point.time)} ${toY(point.p10)}`)
+    .join(' ')} Z`;
+  const medianPath = toPath(cone.map((point) => ({ time: point.time, value: point.p50 })));
+
+  return (
+    <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
+      <CardContent className="p-5">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-white mb-1">Depletion Forecast</h3>
+            <p className="text-sm text-neutral-400">
+              {forecast ? getForecastSummary(forecast) : 'Starts with your next session'}
+            </p>
+          </div>
+          {forecast && (
+            <div className="glass px-3 py-1 rounded-lg">
+              <span className="text-xs text-neutral-300">{forecast.confidence}% confidence</span>
+            </div>
+          )}
+        </div>
+
+        <div ref={chartContainerRef} className="relative w-full" style={{ height: chartHeight }}>
+          {chartWidth > 0 && cone.length > 1 && (
+            <svg width={chartWidth} height={chartHeight} className="absolute inset-0">
+              <path d={conePath} fill="rgba(249, 115, 22, 0.15)" stroke="none" />
+              <path
+                d={medianPath}
+                fill="none"
+                stroke="#F97316"
+                strokeWidth="2"
+                strokeDasharray="6,4"
+              />
+
+              {/* Token limit */}
+              <line
+                x1={padding}
+                y1={toY(stats.tokenLimit)}
+                x2={chartWidth - padding}
+                y2={toY(stats.tokenLimit)}
+                stroke="#EF4444"
+                strokeDasharray="2,2"
+              />
+              <text
+                x={padding - 8}
+                y={toY(stats.tokenLimit) + 4}
+                textAnchor="end"
+                className="fill-red-400 text-xs"
+              >
+                {formatNumber(stats.tokenLimit)}
+              </text>
+
+              {[...new Set([0, Math.floor(cone.length / 2), cone.length - 1])]
+                .map((i) => cone[i])
+                .map((point) => (
+                  <text
+                    key={`forecast-label-${point.time}`}
+                    x={toX(point.time)}
+                    y={chartHeight - 10}
+                    textAnchor="middle"
+                    className="fill-neutral-400 text-xs"
+                  >
+                    {formatClockTime(point.time)}
+                  </text>
+                ))}
+            </svg>
+          )}
+        </div>
+
+        <div className="flex items-center gap-4 text-xs text-neutral-400">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5 bg-orange-500" /> Median
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm bg-orange-500/20" /> P10 – P90
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5 bg-red-500" /> Session limit
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+type HeatmapRange = '7d' | '30d' | '90d' | 'all';
+
+const heatmapRanges: Record<HeatmapRange, { label: string; days?: number }> = {
+  '7d': { label: '7 Days', days: 7 },
+  '30d': { label: '30 Days', days: 30 },
+  '90d': { label: '90 Days', days: 90 },
+  all: { label: 'All' },
+};
+
+// Rows run Monday to Sunday; cells are indexed from Sunday
+const heatmapWeekdays = [
+  { index: 1, label: 'Mon' },
+  { index: 2, label: 'Tue' },
+  { index: 3, label: 'Wed' },
+  { index: 4, label: 'Thu' },
+  { index: 5, label: 'Fri' },
+  { index: 6, label: 'Sat' },
+  { index: 0, label: 'Sun' },
+];
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+// Hook for loading the weekday/hour heatmap for a range, reloaded with every usage refresh
+const useUsageHeatmap = (range: HeatmapRange) => {
+  const [heatmap, setHeatmap] = useState<UsageHeatmap | null>(null);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const { days } = heatmapRanges[range];
+    const start = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+    return loadOnUsageUpdate(
+      () => window.electronAPI.getUsageHeatmap(start?.toISOString()),
+      setHeatmap,
+      (err) => console.error('Failed to load usage heatmap:', err)
+    );
+  }, [range]);
+
+  return heatmap;
+};
+
+// Busiest weekday/hour slot and the quietest hour of the day overall
+const getHeatmapHighlights = (heatmap: UsageHeatmap, metric: 'tokens' | 'cost') => {
+  const slots = heatmap.cells.flatMap((row, weekday) =>
+    row.map((cell, hour) => ({ weekday, hour, value: cell[metric] }))
+  );
+  const busiest = slots.reduce((best, slot) => (slot.value > best.value ? slot : best));
+
+  const hourTotals = new Array<number>(24).fill(0);
+  for (const slot of slots) hourTotals[slot.hour] += slot.value;
+  const quietestHour = hourTotals.indexOf(Math.min(...hourTotals));
+
+  return { busiest, quietestHour };
+};
+
+const UsageHeatmapChart: React.FC = () => {
+  const [range, setRange] = useState<HeatmapRange>('30d');
+  const [metric, setMetric] = useState<'tokens' | 'cost'>('tokens');
+  const heatmap = useUsageHeatmap(range);
+
+  const maxValue = heatmap
+    ? Math.max(...heatmap.cells.flatMap((row) => row.map((cell) => cell[metric])), 0)
+    : 0;
+  const highlights = heatmap && maxValue > 0 ? getHeatmapHighlights(heatmap, metric) : null;
+  const color = metric === 'tokens' ? '59, 130, 246' : '16, 185, 129';
+
+  return (
+    <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
+      <CardContent className="p-5">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-white mb-1">When You Use Claude</h3>
+            <p className="text-sm text-neutral-400">
+              {highlights
+                ? `Busiest ${heatmapWeekdays.find((d) => d.index === highlights.busiest.weekday)?.label} ${formatHour(highlights.busiest.hour)} • quietest around ${formatHour(highlights.quietestHour)}`
+                : 'No usage in this range'}
+              {heatmap && ` • ${heatmap.timezone}`}
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <div className="flex bg-neutral-800/50 rounded-xl p-1 border border-white/10">
+              {(Object.keys(heatmapRanges) as HeatmapRange[]).map((option) => (
+                <Button
+                  key={option}
+                  onClick={() => setRange(option)}
+                  variant="ghost"
+                  size="sm"
+                  className={`px-2 py-1 h-auto rounded-lg text-xs ${
+                    range === option
+                      ? 'bg-blue-500 text-white hover:bg-blue-600'
+                      : 'text-neutral-400 hover:text-white hover:bg-white/5'
+                  }`}
+                >
+                  {heatmapRanges[option].label}
+                </Button>
+              ))}
+            </div>
+            <div className="flex bg-neutral-800/50 rounded-xl p-1 border border-white/10">
+              {(['tokens', 'cost'] as const).map((option) => (
+                <Button
+                  key={option}
+                  onClick={() => setMetric(option)}
+                  variant="ghost"
+                  size="sm"
+                  className={`px-2 py-1 h-auto rounded-lg text-xs capitalize ${
+                    metric === option
+                      ? 'bg-blue-500 text-white hover:bg-blue-600'
+                      : 'text-neutral-400 hover:text-white hover:bg-white/5'
+                  }`}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          {heatmapWeekdays.map((weekday) => (
+            <div key={weekday.label} className="flex items-center gap-1">
+              <div className="w-8 text-xs text-neutral-400">{weekday.label}</div>
+              <div className="grid flex-1 grid-cols-[repeat(24,minmax(0,1fr))] gap-0.5">
+                {(heatmap?.cells[weekday.index] ?? []).map((cell, hour) => {
+                  const value = cell[metric];
+                  const intensity = maxValue > 0 ? value / maxValue : 0;
+                  return (
+                    <div
+                      key={`${weekday.label}-${formatHour(hour)}`}
+                      className="h-4 rounded-sm"
+                      style={{
+                        backgroundColor:
+                          value > 0
+                            ? `rgba(${color}, ${0.15 + intensity * 0.85})`
+                            : 'rgba(255, 255, 255, 0.05)',
+                      }}
+                      title={`${weekday.label} ${formatHour(hour)}: ${
+                        metric === 'tokens' ? formatNumber(value) : formatCurrency(value)
+                      } (${cell.messageCount} messages)`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center gap-1">
+            <div className="w-8" />
+            <div className="grid flex-1 grid-cols-4 text-xs text-neutral-500">
+              {[0, 6, 12, 18].map((hour) => (
+                <span key={`heatmap-hour-${formatHour(hour)}`}>{formatHour(hour)}</span>
+              ))}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const exportFormats: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'markdown', label: 'Markdown' },
+];
+
+// Export panel for writing usage history to a file
+const ExportPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [startDate, setStartDate] = useState(() => daysAgo(29));
+  const [endDate, setEndDate] = useState(() => toLocalDateString(new Date()));
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (startDate > endDate) {
+      toast.error('Export failed', { description: 'Start date must be before end date' });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const result = await window.electronAPI.exportUsage({ format, startDate, endDate });
+
+      if (result.success) {
+        toast.success('Usage exported!', { description: result.message, duration: 4000 });
+        onClose();
+      } else if (!result.canceled) {
+        toast.error('Export failed', {
+          description: result.error || 'Unknown error occurred',
+          duration: 4000,
+        });
+      }
+    } catch (err) {
+      toast.error('Export failed', {
+        description: err instanceof Error ? err.message : 'Failed to export usage',
+        duration: 4000,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const dateInputClass =
+    'bg-white/10 border border-white/20 rounded-md px-2 py-1 text-white text-sm focus:outline-none focus:border-blue-400';
+
+  return (
+    <div className="mb-5 p-4 rounded-xl bg-neutral-800/50 border border-white/10 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex bg-neutral-900/50 rounded-lg p-1 border border-white/10">
+          {exportFormats.map((option) => (
+            <Button
+              key={option.format}
+              onClick={() => setFormat(option.format)}
+              variant="ghost"
+              size="sm"
+              className={`px-3 py-1 h-auto rounded-md text-sm ${
+                format === option.format
+                  ? 'bg-blue-500 text-white hover:bg-blue-600'
+                  : 'text-neutral-400 hover:text-white hover:bg-white/5'
+              }`}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 text-sm text-neutral-400">
+          <input
+            type="date"
+            value={startDate}
+            max={endDate}
+            onChange={(event) => setStartDate(event.target.value)}
+            className={dateInputClass}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(event) => setEndDate(event.target.value)}
+            className={dateInputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-neutral-500">
+          Includes daily totals, per-model breakdowns and completed session windows
+        </p>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose} className="text-neutral-400">
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-blue-500 text-white hover:bg-blue-600"
+          >
+            {isExporting ? 'Exporting...' : 'Save As...'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const Analytics: React.FC<AnalyticsProps> = ({ stats, onViewConversations }) => {
   const [timeRange, setTimeRange] = useState<ChartTimeRange>('7d');
   const [chartType, setChartType] = useState<ChartType>('area');
   const [selectedMetric, setSelectedMetric] = useState<'tokens' | 'cost'>('tokens');
+  const [showExport, setShowExport] = useState(false);
+  const [projectFilter, setProjectFilter] = useState(ALL_PROJECTS);
   const { chartDimensions, chartContainerRef } = useChartDimensions();
 
-  const chartData = useChartData(stats, timeRange);
-  const modelBreakdownData = useModelBreakdownData(stats);
+  const projectStats = scopeStatsToProject(stats, projectFilter);
+  const selectedProject = stats.projects?.find((p) => p.projectPath === projectFilter);
+  const storedHistory = useUsageHistory(timeRange);
+  const history = selectedProject ? getProjectHistory(selectedProject, timeRange) : storedHistory;
+  const chartData = useChartData(projectStats, timeRange, history);
+  const modelBreakdownData = useModelBreakdownData(projectStats);
 
-  const totalWeekTokens = stats.thisWeek.reduce((sum, day) => sum + day.totalTokens, 0);
-  const totalWeekCost = stats.thisWeek.reduce((sum, day) => sum + day.totalCost, 0);
+  const totalWeekTokens = projectStats.thisWeek.reduce((sum, day) => sum + day.totalTokens, 0);
+  const totalWeekCost = projectStats.thisWeek.reduce((sum, day) => sum + day.totalCost, 0);
   const avgDailyTokens = totalWeekTokens / 7;
   const avgDailyCost = totalWeekCost / 7;
 
@@ -574,6 +1075,23 @@ export const Analytics: React.FC<AnalyticsProps> = ({ stats }) => {
               </div>
 
               <div className="flex items-center gap-2">
+                <ProjectFilter stats={stats} value={projectFilter} onChange={setProjectFilter} />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onViewConversations}
+                  className="glass px-3 py-1 h-auto rounded-lg text-xs text-neutral-300 hover:text-white"
+                >
+                  Conversations
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowExport((open) => !open)}
+                  className="glass px-3 py-1 h-auto rounded-lg text-xs text-neutral-300 hover:text-white"
+                >
+                  Export
+                </Button>
                 <div className="glass px-3 py-1 rounded-lg">
                   <div className="flex items-center gap-2">
                     <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
@@ -583,6 +1101,8 @@ export const Analytics: React.FC<AnalyticsProps> = ({ stats }) => {
               </div>
             </div>
 
+            {showExport && <ExportPanel onClose={() => setShowExport(false)} />}
+
             <ControlTabs
               timeRange={timeRange}
               setTimeRange={setTimeRange}
@@ -610,6 +1130,10 @@ export const Analytics: React.FC<AnalyticsProps> = ({ stats }) => {
           chartContainerRef={chartContainerRef}
         />
 
+        <ForecastCone stats={stats} />
+
+        <UsageHeatmapChart />
+
         {/* Bottom Section - Model Distribution & Performance */}
         <div className="grid grid-cols-1 gap-4">
           {/* Model Distribution */}
@@ -679,7 +1203,7 @@ export const Analytics: React.FC<AnalyticsProps> = ({ stats }) => {
                     <div className="absolute inset-0 flex items-center justify-center">
                       <div className="text-center">
                         <div className="text-xl font-bold text-white">
-                          {formatNumber(stats.today.totalTokens)}
+                          {formatNumber(projectStats.today.totalTokens)}
                         </div>
                         <div className="text-xs text-neutral-400">tokens</div>
                       </div>
@@ -893,8 +1417,8 @@ export const Analytics: React.FC<AnalyticsProps> = ({ stats }) => {
                             </TooltipTrigger>
                             <TooltipContent>
                               <p>
-                                Estimated time until your daily token limit is reached at current
-                                usage rate
+                                Median forecast of when your session token limit is reached, from
+                                your recent rate and usual activity for the time of day
                               </p>
                             </TooltipContent>
                           </Tooltip>
@@ -903,7 +1427,9 @@ export const Analytics: React.FC<AnalyticsProps> = ({ stats }) => {
                       </div>
                     </div>
 
-                    <div className="text-xs text-neutral-400">at current burn rate</div>
+                    <div className="text-xs text-neutral-400">
+                      {stats.prediction.confidence}% confidence
+                    </div>
                   </CardContent>
                 </Card>
 
@@ -929,9 +1455,10 @@ export const Analytics: React.FC<AnalyticsProps> = ({ stats }) => {
                         </div>
                         <div>
                           <div className="text-xl font-bold text-white">
-                            {stats.today.totalTokens > 0
+                            {projectStats.today.totalTokens > 0
                               ? formatCurrency(
-                                  (stats.today.totalCost / stats.today.totalTokens) * 1000
+                                  (projectStats.today.totalCost / projectStats.today.totalTokens) *
+                                    1000
                                 )
                               : '$0.000'}
                           </div>
@@ -0,0 +1,270 @@
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { loadOnUsageUpdate } from '../lib/usageUpdates';
+import type { ConversationUsage, UsageStats } from '../types/usage';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+
+const ALL_BLOCKS = 'all';
+const MAX_BLOCK_OPTIONS = 20;
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return num.toLocaleString();
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
+
+const formatTime = (timestamp: string | Date) =>
+  new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatDuration = (startTime: string, endTime: string) => {
+  const minutes = Math.round((new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const getProjectName = (projectPath: string) =>
+  projectPath.split(/[\\/]/).filter(Boolean).pop() ?? projectPath;
+
+const modelColors = ['bg-purple-500', 'bg-blue-500', 'bg-green-500', 'bg-orange-500'];
+
+// Session blocks that can be drilled into: the current one, then completed blocks newest first
+const useBlockOptions = (stats: UsageStats) => {
+  return useMemo(() => {
+    const tracking = stats.sessionTracking;
+    const options: { id: string; label: string }[] = [];
+    if (tracking?.currentSession?.isActive) {
+      options.push({ id: tracking.currentSession.id, label: 'Current session' });
+    }
+    for (const block of tracking?.sessionHistory ?? []) {
+      if (options.length >= MAX_BLOCK_OPTIONS) break;
+      options.push({ id: block.id, label: formatTime(block.startTime) });
+    }
+    return options;
+  }, [stats]);
+};
+
+// Reloaded with every usage refresh, since new messages land in the open conversations
+const useConversations = (blockId: string) => {
+  const [conversations, setConversations] = useState<ConversationUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    setLoading(true);
+    return loadOnUsageUpdate(
+      () => window.electronAPI.getConversations(blockId === ALL_BLOCKS ? undefined : blockId),
+      (result) => {
+        setConversations(result);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Failed to load conversations:', err);
+        setLoading(false);
+      }
+    );
+  }, [blockId]);
+
+  return { conversations, loading };
+};
+
+const TokenBreakdown: React.FC<{ conversation: ConversationUsage }> = ({ conversation }) => (
+  <div className="grid grid-cols-4 gap-2 text-xs">
+    {[
+      { label: 'Input', value: conversation.inputTokens },
+      { label: 'Output', value: conversation.outputTokens },
+      { label: 'Cache write', value: conversation.cacheCreationTokens },
+      { label: 'Cache read', value: conversation.cacheReadTokens },
+    ].map((item) => (
+      <div key={item.label}>
+        <div className="text-neutral-500">{item.label}</div>
+        <div className="text-white font-medium">{formatNumber(item.value)}</div>
+      </div>
+    ))}
+  </div>
+);
+
+const ModelMix: React.FC<{ conversation: ConversationUsage }> = ({ conversation }) => {
+  const models = Object.entries(conversation.models).sort(([, a], [, b]) => b.tokens - a.tokens);
+  if (models.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-1.5 w-full overflow-hidden rounded-full bg-neutral-800">
+        {models.map(([model, usage], index) => (
+          <div
+            key={model}
+            className={modelColors[index % modelColors.length]}
+            style={{
+              width: `${conversation.totalTokens > 0 ? (usage.tokens / conversation.totalTokens) * 100 : 0}%`,
+            }}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-neutral-400">
+        {models.map(([model, usage], index) => (
+          <span key={model} className="flex items-center gap-1">
+            <span
+              className={`inline-block h-2 w-2 rounded-full ${modelColors[index % modelColors.length]}`}
+            />
+            {model} · {formatCurrency(usage.cost)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ConversationCard: React.FC<{ conversation: ConversationUsage }> = ({ conversation }) => (
+  <div className="space-y-3 rounded-lg border border-neutral-800 bg-neutral-800/30 p-3">
+    <div className="flex items-start justify-between gap-3">
+      <div className="min-w-0">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="truncate text-sm font-medium text-white font-primary cursor-help">
+              {getProjectName(conversation.projectPath)}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p className="font-mono text-xs">{conversation.projectPath}</p>
+            <p className="font-mono text-xs mt-1">Session {conversation.sessionId}</p>
+          </TooltipContent>
+        </Tooltip>
+        <div className="text-xs text-neutral-500 font-primary">
+          {formatTime(conversation.startTime)} – {formatTime(conversation.endTime)} (
+          {formatDuration(conversation.startTime, conversation.endTime)})
+        </div>
+      </div>
+      <div className="shrink-0 text-right">
+        <div className="text-sm font-bold text-white font-primary">
+          {formatCurrency(conversation.totalCost)}
+        </div>
+        <div className="text-xs text-neutral-400 font-primary">
+          {formatNumber(conversation.totalTokens)} tokens · {conversation.messageCount} msgs
+        </div>
+      </div>
+    </div>
+
+    <ModelMix conversation={conversation} />
+    <TokenBreakdown conversation={conversation} />
+  </div>
+);
+
+interface ConversationsViewProps {
+  stats: UsageStats;
+  initialBlockId?: string | null;
+  onBack: () => void;
+}
+
+export const ConversationsView: React.FC<ConversationsViewProps> = ({
+  stats,
+  initialBlockId,
+  onBack,
+}) => {
+  const [blockId, setBlockId] = useState(initialBlockId ?? ALL_BLOCKS);
+  const blockOptions = useBlockOptions(stats);
+  const { conversations, loading } = useConversations(blockId);
+
+  const totalTokens = conversations.reduce((sum, c) => sum + c.totalTokens, 0);
+  const totalCost = conversations.reduce((sum, c) => sum + c.totalCost, 0);
+
+  return (
+    <TooltipProvider>
+      <div className="space-y-4">
+        <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <CardTitle className="text-xl font-bold text-gradient font-primary">
+                  Conversations
+                </CardTitle>
+                <CardDescription>
+                  Individual Claude Code sessions inside a 5-hour block
+                </CardDescription>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onBack}
+                className="glass px-3 py-1 h-auto rounded-lg text-xs text-neutral-300 hover:text-white"
+              >
+                Back
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select value={blockId} onValueChange={setBlockId}>
+              <SelectTrigger className="w-full bg-white/10 border-white/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-neutral-900/80 border-white/20">
+                <SelectItem value={ALL_BLOCKS}>All sessions</SelectItem>
+                {blockOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold text-neutral-100 font-primary">
+                  {conversations.length}
+                </div>
+                <div className="text-xs text-neutral-400 font-primary">Conversations</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-neutral-100 font-primary">
+                  {formatNumber(totalTokens)}
+                </div>
+                <div className="text-xs text-neutral-400 font-primary">Tokens</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-neutral-100 font-primary">
+                  {formatCurrency(totalCost)}
+                </div>
+                <div className="text-xs text-neutral-400 font-primary">Cost</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
+          <CardContent className="p-4 space-y-3">
+            {conversations.length > 0 ? (
+              conversations.map((conversation) => (
+                <ConversationCard key={conversation.sessionId} conversation={conversation} />
+              ))
+            ) : (
+              <div className="text-center py-8 text-neutral-400">
+                <p className="text-sm">
+                  {loading
+                    ? 'Loading conversations...'
+                    : 'No conversations found. Logs for older sessions may have been pruned.'}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </TooltipProvider>
+  );
+};
@@ -1,5 +1,14 @@
 import type React from 'react';
-import type { UsageStats } from '../types/usage';
+import { useState } from 'react';
+import type {
+  AdvancedBurnRate,
+  BurnRateClassification,
+  EnhancedResetInfo,
+  ResetTimeInfo,
+  UsageStats,
+  UsageStatus,
+} from '../types/usage';
+import { ALL_PROJECTS, ProjectFilter, scopeStatsToProject } from './ProjectFilter';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
@@ -78,7 +87,14 @@ const formatCurrency = (amount: number) => {
 };
 
 // Helper for getting status-related values
-const getStatusHelpers = (status: 'safe' | 'warning' | 'critical') => {
+const formatDuration = (milliseconds: number) => {
+  const hours = Math.floor(milliseconds / (1000 * 60 * 60));
+  const minutes = Math.floor((milliseconds % (1000 * 60 * 60)) / (1000 * 60));
+  if (hours >= 24) return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const getStatusHelpers = (status: UsageStatus) => {
   const getStatusColor = () => {
     switch (status) {
       case 'critical':
@@ -104,6 +120,56 @@ const getStatusHelpers = (status: 'safe' | 'warning' | 'critical') => {
   return { getStatusColor, getStatusIcon };
 };
 
+const detectionMethodLabels: Record<string, string> = {
+  default: 'no usage yet',
+  'plan-ceiling': 'your highest session',
+  'usage-cluster': 'sessions stopping at the same ceiling',
+  'max-observed': 'your highest session',
+};
+
+// Component for plan detection details in the plan card
+const PlanDetectionDetails: React.FC<{ stats: UsageStats }> = ({ stats }) => {
+  const { planManager, limitDetection } = stats;
+  if (!planManager) return null;
+
+  const lastSwitch = planManager.lastSwitch;
+
+  return (
+    <div className="space-y-1 text-xs pt-1">
+      <div className="flex justify-between items-center">
+        <span className="text-neutral-400 font-primary">
+          {planManager.autoSwitchEnabled ? 'Auto-detected' : 'Pinned'}
+        </span>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="text-neutral-300 font-primary cursor-help">
+              {planManager.detectedPlan} · {planManager.confidence}% confidence
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>
+              Based on {detectionMethodLabels[limitDetection?.detectionMethod ?? 'default']}
+              {limitDetection ? ` (limit ~${formatNumber(limitDetection.detectedLimit)})` : ''}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      {limitDetection?.shouldUpdate && (
+        <div className="text-yellow-400 font-primary">
+          Usage suggests a {formatNumber(limitDetection.detectedLimit)} token limit
+        </div>
+      )}
+      {lastSwitch && (
+        <div className="text-neutral-500 font-primary">
+          {`Switched ${lastSwitch.fromPlan} → ${lastSwitch.toPlan} on ${new Date(
+            lastSwitch.timestamp
+          ).toLocaleDateString()} (${lastSwitch.trigger})`}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Component for key metrics row
 const KeyMetricsRow: React.FC<{
   stats: UsageStats;
@@ -140,10 +206,33 @@ const KeyMetricsRow: React.FC<{
   </div>
 );
 
+// Share of the current session used by the selected project
+const ProjectSessionShare: React.FC<{ stats: UsageStats; projectPath: string }> = ({
+  stats,
+  projectPath,
+}) => {
+  const project = stats.projects?.find((p) => p.projectPath === projectPath);
+  if (!project) return null;
+
+  const share = stats.tokensUsed > 0 ? (project.activeBlockTokens / stats.tokensUsed) * 100 : 0;
+
+  return (
+    <div className="mt-6 space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="text-neutral-400 font-primary">{project.displayName} this session</span>
+        <span className="text-neutral-100 font-medium font-primary">
+          {formatNumber(project.activeBlockTokens)} ({share.toFixed(1)}%)
+        </span>
+      </div>
+      <Progress value={share} className="w-full h-1.5" />
+    </div>
+  );
+};
+
 // Component for circular progress charts
 const CircularProgressChart: React.FC<{
   percentage: number;
-  status?: 'safe' | 'warning' | 'critical';
+  status?: UsageStatus;
   label: string;
   subtitle: string;
   emoji: string;
@@ -217,14 +306,130 @@ const CircularProgressChart: React.FC<{
   </div>
 );
 
+/**
+ * Elapsed share of the current reset cycle, a session window or a billing month
+ */
+const ResetProgressChart: React.FC<{
+  resetInfo: ResetTimeInfo;
+  enhancedResetInfo?: EnhancedResetInfo;
+}> = ({ resetInfo, enhancedResetInfo }) => (
+  <Tooltip>
+    <TooltipTrigger asChild>
+      <div>
+        <CircularProgressChart
+          percentage={resetInfo.percentUntilReset}
+          label={resetInfo.resetType === 'interval' ? 'Session' : 'Month'}
+          subtitle={`${formatDuration(resetInfo.timeUntilReset)} left`}
+          emoji={enhancedResetInfo?.isInCriticalPeriod ? '⚠️' : '⏱️'}
+          isTime
+        />
+      </div>
+    </TooltipTrigger>
+    <TooltipContent>
+      <div className="text-center">
+        <p className="font-semibold">
+          {resetInfo.resetType === 'interval' ? '5-hour session window' : 'Monthly billing cycle'}
+        </p>
+        <p className="text-sm mt-1">
+          Resets at {new Date(resetInfo.nextResetTime).toLocaleString()}
+        </p>
+        {enhancedResetInfo && (
+          <p className="text-xs mt-1 text-neutral-400">
+            Then{' '}
+            {enhancedResetInfo.resetSchedule
+              .slice(1)
+              .map((time) =>
+                new Date(time).toLocaleString([], {
+                  month: resetInfo.resetType === 'interval' ? undefined : 'short',
+                  day: resetInfo.resetType === 'interval' ? undefined : 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })
+              )
+              .join(', ')}
+          </p>
+        )}
+      </div>
+    </TooltipContent>
+  </Tooltip>
+);
+
+const burnRateLabels: Record<BurnRateClassification, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast',
+  very_fast: 'Very Fast',
+};
+
+const trendArrows: Record<AdvancedBurnRate['trend']['direction'], string> = {
+  increasing: '↑',
+  decreasing: '↓',
+  stable: '→',
+};
+
+// Velocity class of the last hour, falling back to the legacy burn rate bands
+const BurnRateBadge: React.FC<{ stats: UsageStats }> = ({ stats }) => {
+  const { advancedBurnRate } = stats;
+  if (!advancedBurnRate) {
+    return (
+      <Badge
+        variant={
+          stats.burnRate > 1000 ? 'destructive' : stats.burnRate > 500 ? 'secondary' : 'default'
+        }
+        className="w-full justify-center"
+      >
+        {stats.burnRate > 1000
+          ? 'High Usage'
+          : stats.burnRate > 500
+            ? 'Moderate Usage'
+            : 'Normal Usage'}
+      </Badge>
+    );
+  }
+
+  const { classification, emoji } = advancedBurnRate.velocity;
+  const { direction, percentage } = advancedBurnRate.trend;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant={
+            classification === 'very_fast'
+              ? 'destructive'
+              : classification === 'fast'
+                ? 'secondary'
+                : 'default'
+          }
+          className="w-full justify-center cursor-help"
+        >
+          {emoji} {burnRateLabels[classification]} {trendArrows[direction]}{' '}
+          {Math.abs(percentage).toFixed(0)}%
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>
+          {formatNumber(advancedBurnRate.hourly)} tokens in the last hour,{' '}
+          {formatNumber(advancedBurnRate.current)}/min over the last 15 minutes
+        </p>
+        <p className="text-xs mt-1">
+          Trend compares the last 30 minutes with the 30 before · {advancedBurnRate.confidence}%
+          confidence
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
 interface DashboardProps {
   stats: UsageStats;
-  status: 'safe' | 'warning' | 'critical';
   timeRemaining: string;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ stats, status, timeRemaining }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ stats, timeRemaining }) => {
+  const { status, warningThresholds } = stats;
   const { getStatusColor, getStatusIcon } = getStatusHelpers(status);
+  const [projectFilter, setProjectFilter] = useState(ALL_PROJECTS);
+  const projectStats = scopeStatsToProject(stats, projectFilter);
 
   return (
     <TooltipProvider>
@@ -232,11 +437,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, status, timeRemaini
         {/* Hero Section */}
         <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
           <CardContent className="p-6">
-            <div className="mb-6">
-              <h2 className="text-xl font-bold text-gradient mb-2 font-primary">Usage Dashboard</h2>
-              <p className="text-neutral-400 text-sm font-primary">
-                Real-time monitoring of your Claude API usage
-              </p>
+            <div className="mb-6 flex items-start justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-bold text-gradient mb-2 font-primary">
+                  Usage Dashboard
+                </h2>
+                <p className="text-neutral-400 text-sm font-primary">
+                  Real-time monitoring of your Claude API usage
+                </p>
+              </div>
+              <ProjectFilter stats={stats} value={projectFilter} onChange={setProjectFilter} />
             </div>
 
             {/* Dual Progress Display - Token and Time */}
@@ -264,17 +474,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, status, timeRemaini
                     </p>
                     <p className="text-sm mt-1">
                       {status === 'critical'
-                        ? 'Over 90% of daily limit used'
+                        ? `Over ${warningThresholds.high}% of daily limit used`
                         : status === 'warning'
-                          ? '70-90% of daily limit used'
-                          : 'Less than 70% of daily limit used'}
+                          ? `${warningThresholds.low}-${warningThresholds.high}% of daily limit used`
+                          : `Less than ${warningThresholds.low}% of daily limit used`}
                     </p>
                   </div>
                 </TooltipContent>
               </Tooltip>
+              <ResetProgressChart
+                resetInfo={stats.resetInfo}
+                enhancedResetInfo={stats.enhancedResetInfo}
+              />
             </div>
 
             <KeyMetricsRow stats={stats} timeRemaining={timeRemaining} />
+            <ProjectSessionShare stats={stats} projectPath={projectFilter} />
           </CardContent>
         </Card>
 
@@ -310,8 +525,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, status, timeRemaini
                     </TooltipTrigger>
                     <TooltipContent>
                       <p>
-                        Your detected Claude plan based on daily token limit:{' '}
-                        {formatNumber(stats.tokenLimit)} tokens/day
+                        {stats.planManager?.autoSwitchEnabled === false
+                          ? 'Your pinned Claude plan'
+                          : 'Your detected Claude plan'}{' '}
+                        with a session limit of {formatNumber(stats.tokenLimit)} tokens
                       </p>
                     </TooltipContent>
                   </Tooltip>
@@ -327,6 +544,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, status, timeRemaini
                   </span>
                 </div>
                 <Progress value={Math.min(stats.percentageUsed, 100)} className="w-full h-2" />
+                <PlanDetectionDetails stats={stats} />
               </div>
             </CardContent>
           </Card>
@@ -392,22 +610,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, status, timeRemaini
                   </Tooltip>
                   <span className="text-neutral-100 font-medium font-primary">{timeRemaining}</span>
                 </div>
-                <Badge
-                  variant={
-                    stats.burnRate > 1000
-                      ? 'destructive'
-                      : stats.burnRate > 500
-                        ? 'secondary'
-                        : 'default'
-                  }
-                  className="w-full justify-center"
-                >
-                  {stats.burnRate > 1000
-                    ? 'High Usage'
-                    : stats.burnRate > 500
-                      ? 'Moderate Usage'
-                      : 'Normal Usage'}
-                </Badge>
+                <BurnRateBadge stats={stats} />
               </div>
             </CardContent>
           </Card>
@@ -441,19 +644,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, status, timeRemaini
                 <div className="flex justify-between">
                   <span className="text-neutral-400">Tokens</span>
                   <span className="text-white font-medium">
-                    {stats.today.totalTokens.toLocaleString()}
+                    {projectStats.today.totalTokens.toLocaleString()}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-neutral-400">Cost</span>
                   <span className="text-white font-medium">
-                    {formatCurrency(stats.today.totalCost)}
+                    {formatCurrency(projectStats.today.totalCost)}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-neutral-400">Models</span>
                   <span className="text-white font-medium">
-                    {Object.keys(stats.today.models).length}
+                    {Object.keys(projectStats.today.models).length}
                   </span>
                 </div>
               </div>
@@ -489,20 +692,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, status, timeRemaini
                 <div className="flex justify-between">
                   <span className="text-neutral-400">Total Cost</span>
                   <span className="text-white font-medium">
-                    {formatCurrency(stats.thisWeek.reduce((sum, day) => sum + day.totalCost, 0))}
+                    {formatCurrency(
+                      projectStats.thisWeek.reduce((sum, day) => sum + day.totalCost, 0)
+                    )}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-neutral-400">Total Tokens</span>
                   <span className="text-white font-medium">
-                    {stats.thisWeek.reduce((sum, day) => sum + day.totalTokens, 0).toLocaleString()}
+                    {projectStats.thisWeek
+                      .reduce((sum, day) => sum + day.totalTokens, 0)
+                      .toLocaleString()}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-neutral-400">Avg Daily</span>
                   <span className="text-white font-medium">
                     {formatCurrency(
-                      stats.thisWeek.reduce((sum, day) => sum + day.totalCost, 0) / 7
+                      projectStats.thisWeek.reduce((sum, day) => sum + day.totalCost, 0) / 7
                     )}
                   </span>
                 </div>
@@ -564,13 +771,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, status, timeRemaini
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {stats.today.models && Object.keys(stats.today.models).length > 0 ? (
-                Object.entries(stats.today.models).map(([modelName, modelData], index) => (
+              {projectStats.today.models && Object.keys(projectStats.today.models).length > 0 ? (
+                Object.entries(projectStats.today.models).map(([modelName, modelData], index) => (
                   <ModelUsageItem
                     key={modelName}
                     modelName={modelName}
                     modelData={modelData}
-                    totalTokens={stats.today.totalTokens}
+                    totalTokens={projectStats.today.totalTokens}
                     index={index}
                   />
                 ))
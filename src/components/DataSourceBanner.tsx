@@ -0,0 +1,121 @@
+import type React from 'react';
+import type { DataSourceState, DataSourceStatus } from '../types/usage';
+import { Button } from './ui/button';
+
+export const dataSourceStyles: Record<
+  DataSourceState,
+  { label: string; title: string; dot: string; banner: string }
+> = {
+  live: {
+    label: 'Live',
+    title: 'Live data',
+    dot: 'bg-green-400',
+    banner: 'border-green-500/30 bg-green-500/10 text-green-200',
+  },
+  stale: {
+    label: 'Stale',
+    title: 'Showing stale data',
+    dot: 'bg-yellow-400',
+    banner: 'border-yellow-500/30 bg-yellow-500/10 text-yellow-200',
+  },
+  mock: {
+    label: 'Demo',
+    title: 'Showing demo data',
+    dot: 'bg-purple-400',
+    banner: 'border-purple-500/30 bg-purple-500/10 text-purple-200',
+  },
+  replay: {
+    label: 'Replay',
+    title: 'Replaying past usage',
+    dot: 'bg-cyan-400',
+    banner: 'border-cyan-500/30 bg-cyan-500/10 text-cyan-200',
+  },
+  error: {
+    label: 'No data',
+    title: 'No usage data',
+    dot: 'bg-red-400',
+    banner: 'border-red-500/30 bg-red-500/10 text-red-200',
+  },
+};
+
+export const formatLastLoad = (lastSuccessfulLoad: string | null) => {
+  if (!lastSuccessfulLoad) return 'never';
+  const minutes = Math.floor((Date.now() - new Date(lastSuccessfulLoad).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m ago`;
+  return new Date(lastSuccessfulLoad).toLocaleString();
+};
+
+const descriptions: Record<Exclude<DataSourceState, 'live'>, string> = {
+  stale: 'The latest load failed, so these are the numbers from the last successful one.',
+  mock: 'Demo mode is on. These numbers come from synthetic Claude Code logs, not your usage.',
+  replay:
+    'These numbers are recorded usage played back on a virtual clock, not what is happening now.',
+  error: 'Claude usage logs could not be read. All values are zero until they can be.',
+};
+
+interface DataSourceIndicatorProps {
+  status: DataSourceStatus;
+  onClick: () => void;
+}
+
+/**
+ * Compact header pill that opens the diagnostics view
+ */
+export const DataSourceIndicator: React.FC<DataSourceIndicatorProps> = ({ status, onClick }) => {
+  const style = dataSourceStyles[status.state];
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="glass px-2 py-1 rounded-lg flex items-center gap-1.5 hover:bg-white/10 transition-colors"
+      title={`${style.title} (last successful load: ${formatLastLoad(status.lastSuccessfulLoad)})`}
+    >
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+      <span className="text-xs text-neutral-300">{style.label}</span>
+    </button>
+  );
+};
+
+interface DataSourceBannerProps {
+  status: DataSourceStatus;
+  onOpenDiagnostics: () => void;
+}
+
+/**
+ * Warning shown above every view while the data isn't live
+ */
+export const DataSourceBanner: React.FC<DataSourceBannerProps> = ({
+  status,
+  onOpenDiagnostics,
+}) => {
+  if (status.state === 'live') return null;
+
+  const style = dataSourceStyles[status.state];
+  return (
+    <div
+      role="alert"
+      className={`rounded-lg border px-3 py-2 flex items-start justify-between gap-3 ${style.banner}`}
+    >
+      <div className="min-w-0 space-y-0.5">
+        <div className="text-sm font-semibold">⚠ {style.title}</div>
+        <p className="text-xs opacity-90">{descriptions[status.state]}</p>
+        {status.reason && (
+          <p className="text-xs opacity-75 whitespace-pre-line break-words">{status.reason}</p>
+        )}
+        <p className="text-xs opacity-75">
+          Last successful load: {formatLastLoad(status.lastSuccessfulLoad)}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onOpenDiagnostics}
+        className="glass shrink-0 px-3 py-1 h-auto rounded-lg text-xs text-neutral-200 hover:text-white"
+      >
+        Diagnostics
+      </Button>
+    </div>
+  );
+};
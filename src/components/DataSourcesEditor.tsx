@@ -0,0 +1,222 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { loadOnUsageUpdate } from '../lib/usageUpdates';
+import type {
+  DataDirectoryDiagnostics,
+  DataSourceConfig,
+  DataSourceDiagnostics,
+  SourceUsage,
+  UsageStats,
+} from '../types/usage';
+import { DraftInput } from './DraftInput';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return num.toLocaleString();
+};
+
+const getDirectoryName = (directory: string) =>
+  directory.split(/[\\/]/).filter(Boolean).pop() ?? directory;
+
+// Each load rescans the directories, so reload with every usage refresh
+const useDiagnostics = () => {
+  const [diagnostics, setDiagnostics] = useState<DataSourceDiagnostics | null>(null);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    return loadOnUsageUpdate(
+      () => window.electronAPI.getDataSourceDiagnostics(),
+      setDiagnostics,
+      (err) => console.error('Failed to load data source diagnostics:', err)
+    );
+  }, []);
+
+  return diagnostics;
+};
+
+const getStatusText = (directory: DataDirectoryDiagnostics | undefined, enabled: boolean) => {
+  if (!enabled) return { text: 'Off', className: 'text-neutral-500' };
+  if (!directory) return { text: 'Not scanned yet', className: 'text-neutral-500' };
+  if (directory.error) return { text: 'Failed to list logs', className: 'text-red-300' };
+  if (!directory.exists) return { text: 'Not found', className: 'text-red-300' };
+  if (!directory.hasProjects) return { text: 'No projects/ folder', className: 'text-yellow-300' };
+  if (!directory.inUse) return { text: 'Not read', className: 'text-neutral-500' };
+  return { text: `${directory.logFileCount} log files`, className: 'text-green-300' };
+};
+
+const SourceUsageLine: React.FC<{ usage?: SourceUsage }> = ({ usage }) =>
+  usage ? (
+    <div className="text-xs text-white/60">
+      {formatNumber(usage.activeBlockTokens)} tokens this session ·{' '}
+      {formatNumber(usage.totalTokens)} total · ${usage.totalCost.toFixed(2)}
+    </div>
+  ) : null;
+
+interface SourceRowProps {
+  source: DataSourceConfig;
+  directory?: DataDirectoryDiagnostics;
+  usage?: SourceUsage;
+  onChange: (changes: Partial<DataSourceConfig>) => void;
+  onRemove: () => void;
+}
+
+const SourceRow: React.FC<SourceRowProps> = ({ source, directory, usage, onChange, onRemove }) => {
+  const status = getStatusText(directory, source.enabled);
+  return (
+    <div className="space-y-2 rounded-lg border border-white/10 bg-white/5 p-3">
+      <div className="flex items-center gap-3">
+        <Switch checked={source.enabled} onCheckedChange={(enabled) => onChange({ enabled })} />
+        <DraftInput
+          value={source.label}
+          onCommit={(label) => onChange({ label: label.trim() })}
+          className="flex-1"
+        />
+        <span className={`text-xs shrink-0 ${status.className}`}>{status.text}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-auto px-2 py-1 text-xs text-red-300 hover:text-red-200"
+        >
+          Remove
+        </Button>
+      </div>
+      <DraftInput
+        value={source.path}
+        placeholder="/path/to/.claude"
+        onCommit={(path) => onChange({ path: path.trim() })}
+        className="w-full font-mono"
+      />
+      {directory?.origin === 'env' && (
+        <div className="text-xs text-white/50">Also listed in CLAUDE_CONFIG_DIR</div>
+      )}
+      {directory?.origin === 'default' && (
+        <div className="text-xs text-white/50">Default Claude location</div>
+      )}
+      {source.enabled && <SourceUsageLine usage={usage} />}
+    </div>
+  );
+};
+
+interface DetectedRowProps {
+  directory: DataDirectoryDiagnostics;
+  usage?: SourceUsage;
+  onConfigure: (enabled: boolean) => void;
+}
+
+// A directory ccusage finds on its own; toggling or labelling it adds it to the list
+const DetectedRow: React.FC<DetectedRowProps> = ({ directory, usage, onConfigure }) => {
+  const status = getStatusText(directory, true);
+  return (
+    <div className="space-y-1 rounded-lg border border-white/10 bg-white/5 p-3">
+      <div className="flex items-center gap-3">
+        <Switch checked={directory.inUse} onCheckedChange={onConfigure} />
+        <span className="flex-1 text-sm text-white font-mono break-all">{directory.path}</span>
+        <span className={`text-xs shrink-0 ${status.className}`}>{status.text}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onConfigure(directory.inUse)}
+          className="h-auto px-2 py-1 text-xs text-neutral-300 hover:text-white"
+        >
+          Label
+        </Button>
+      </div>
+      <div className="text-xs text-white/50">
+        {directory.origin === 'env' ? 'From CLAUDE_CONFIG_DIR' : 'Default Claude location'}
+      </div>
+      <SourceUsageLine usage={usage} />
+    </div>
+  );
+};
+
+interface DataSourcesEditorProps {
+  sources: DataSourceConfig[];
+  stats: UsageStats;
+  onChange: (sources: DataSourceConfig[]) => void;
+}
+
+export const DataSourcesEditor: React.FC<DataSourcesEditorProps> = ({
+  sources,
+  stats,
+  onChange,
+}) => {
+  const diagnostics = useDiagnostics();
+  const directories = diagnostics?.directories ?? [];
+  const findDirectory = (path: string) => directories.find((directory) => directory.path === path);
+  const findUsage = (path: string) => stats.sources?.find((usage) => usage.path === path);
+
+  // Found by ccusage and not yet in the list; missing default locations aren't worth showing
+  const detected = directories.filter(
+    (directory) =>
+      (directory.origin === 'env' || directory.origin === 'default') &&
+      directory.exists &&
+      !sources.some((source) => source.path === directory.path)
+  );
+
+  const updateSource = (id: string, changes: Partial<DataSourceConfig>) => {
+    onChange(sources.map((source) => (source.id === id ? { ...source, ...changes } : source)));
+  };
+
+  const addSource = (path = '', enabled = true) => {
+    onChange([
+      ...sources,
+      {
+        id: `source-${Date.now()}`,
+        label: path ? getDirectoryName(path) : 'New source',
+        path,
+        enabled,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {sources.map((source) => (
+        <SourceRow
+          key={source.id}
+          source={source}
+          directory={findDirectory(source.path)}
+          usage={findUsage(source.path)}
+          onChange={(changes) => updateSource(source.id, changes)}
+          onRemove={() => onChange(sources.filter((s) => s.id !== source.id))}
+        />
+      ))}
+
+      {detected.map((directory) => (
+        <DetectedRow
+          key={directory.path}
+          directory={directory}
+          usage={findUsage(directory.path)}
+          onConfigure={(enabled) => addSource(directory.path, enabled)}
+        />
+      ))}
+
+      {diagnostics?.directories.some((directory) => directory.origin === 'override') && (
+        <div className="text-xs text-yellow-300">
+          Demo mode is on, so these directories are ignored until it is turned off
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-xs text-white/50">
+          CLAUDE_CONFIG_DIR:{' '}
+          <span className="font-mono">{diagnostics?.configDirEnv ?? 'not set'}</span>. Usage from
+          every enabled directory is added together.
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => addSource()}
+          className="glass h-auto shrink-0 rounded-lg px-3 py-1 text-xs text-neutral-300 hover:text-white"
+        >
+          Add directory
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { loadOnUsageUpdate } from '../lib/usageUpdates';
+import type { DataDirectoryDiagnostics, DataSourceDiagnostics, UsageStats } from '../types/usage';
+import { dataSourceStyles, formatLastLoad } from './DataSourceBanner';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+
+// Reloaded with every usage refresh, since each load rescans the data directories
+const useDiagnostics = () => {
+  const [diagnostics, setDiagnostics] = useState<DataSourceDiagnostics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    return loadOnUsageUpdate(
+      () => window.electronAPI.getDataSourceDiagnostics(),
+      (result) => {
+        setDiagnostics(result);
+        setError(null);
+      },
+      (err) => setError(err instanceof Error ? err.message : String(err))
+    );
+  }, []);
+
+  return { diagnostics, error };
+};
+
+const getDirectoryStatus = (directory: DataDirectoryDiagnostics) => {
+  if (directory.error) return { text: 'Failed to list logs', className: 'text-red-400' };
+  if (!directory.exists) return { text: 'Not found', className: 'text-neutral-500' };
+  if (!directory.hasProjects) return { text: 'No projects/ folder', className: 'text-yellow-400' };
+  return {
+    text: `${directory.logFileCount} log file${directory.logFileCount === 1 ? '' : 's'}`,
+    className: 'text-green-400',
+  };
+};
+
+const getDirectoryOrigin = (directory: DataDirectoryDiagnostics) => {
+  if (directory.origin === 'env') return 'From CLAUDE_CONFIG_DIR';
+  if (directory.origin === 'settings') return `Added in Settings as "${directory.label}"`;
+  if (directory.origin === 'override') return 'Demo mode logs';
+  return directory.label ? `Default location, labelled "${directory.label}"` : 'Default location';
+};
+
+const DirectoryRow: React.FC<{ directory: DataDirectoryDiagnostics }> = ({ directory }) => {
+  const status = getDirectoryStatus(directory);
+  return (
+    <div className="p-3 rounded-lg bg-white/5 border border-white/10 space-y-1">
+      <div className="flex items-start justify-between gap-3">
+        <span className="text-xs text-white font-primary break-all">{directory.path}</span>
+        <span className={`text-xs shrink-0 ${status.className}`}>{status.text}</span>
+      </div>
+      <div className="text-xs text-neutral-500">
+        {getDirectoryOrigin(directory)}
+        {!directory.enabled && ' · turned off'}
+      </div>
+      {directory.error && <div className="text-xs text-red-300 break-words">{directory.error}</div>}
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <div className="text-lg font-bold text-white font-primary">{value}</div>
+    <div className="text-xs text-neutral-400">{label}</div>
+  </div>
+);
+
+interface DiagnosticsViewProps {
+  stats: UsageStats;
+  onRefresh: () => void;
+  onBack: () => void;
+}
+
+export const DiagnosticsView: React.FC<DiagnosticsViewProps> = ({ stats, onRefresh, onBack }) => {
+  const { diagnostics, error } = useDiagnostics();
+  const status = diagnostics?.status ?? stats.dataSource;
+  const style = dataSourceStyles[status.state];
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <CardTitle className="text-xl font-bold text-gradient font-primary">
+                Diagnostics
+              </CardTitle>
+              <CardDescription>Where CCSeva reads Claude Code usage from</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onRefresh}
+                className="glass px-3 py-1 h-auto rounded-lg text-xs text-neutral-300 hover:text-white"
+              >
+                Rescan
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onBack}
+                className="glass px-3 py-1 h-auto rounded-lg text-xs text-neutral-300 hover:text-white"
+              >
+                Back
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <span className={`w-2.5 h-2.5 rounded-full ${style.dot}`} />
+            <span className="text-sm font-semibold text-white">{style.title}</span>
+          </div>
+          {status.reason && (
+            <p className="text-xs text-neutral-300 whitespace-pre-line break-words">
+              {status.reason}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <Stat label="Last successful load" value={formatLastLoad(status.lastSuccessfulLoad)} />
+            <Stat
+              label="Last scan"
+              value={diagnostics?.lastScan ? formatLastLoad(diagnostics.lastScan) : 'never'}
+            />
+          </div>
+
+          {diagnostics && (
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <Stat label="Log files" value={diagnostics.logFileCount.toLocaleString()} />
+              <Stat label="Entries" value={diagnostics.entryCount.toLocaleString()} />
+              <Stat label="Session blocks" value={diagnostics.blockCount.toLocaleString()} />
+            </div>
+          )}
+          {error && <p className="text-xs text-red-400">Couldn't load diagnostics: {error}</p>}
+        </CardContent>
+      </Card>
+
+      {diagnostics && (
+        <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-sm font-semibold text-white">Data directories</CardTitle>
+            <CardDescription>
+              CLAUDE_CONFIG_DIR:{' '}
+              <span className="font-primary">{diagnostics.configDirEnv ?? 'not set'}</span>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {diagnostics.directories.length === 0 && (
+              <p className="text-xs text-neutral-400">No scan has run yet.</p>
+            )}
+            {diagnostics.directories.map((directory) => (
+              <DirectoryRow key={directory.path} directory={directory} />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
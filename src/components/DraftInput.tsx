@@ -0,0 +1,59 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+
+const inputClassName =
+  'bg-white/10 border border-white/20 rounded-md px-2 py-1 text-white text-sm focus:outline-none focus:border-blue-400';
+
+interface DraftInputProps {
+  value: string;
+  onCommit: (value: string) => void;
+  // Returns false for drafts that should be discarded instead of committed
+  isValid?: (draft: string) => boolean;
+  type?: 'text' | 'number';
+  min?: number;
+  max?: number;
+  placeholder?: string;
+  className?: string;
+}
+
+// Commits on blur or Enter so typing doesn't rewrite settings on every keystroke
+export const DraftInput: React.FC<DraftInputProps> = ({
+  value,
+  onCommit,
+  isValid = (draft) => draft.trim() !== '',
+  type = 'text',
+  min = type === 'number' ? 0 : undefined,
+  max,
+  placeholder,
+  className,
+}) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (!isValid(draft)) {
+      setDraft(value);
+      return;
+    }
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <input
+      type={type}
+      min={min}
+      max={max}
+      value={draft}
+      placeholder={placeholder}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') commit();
+      }}
+      className={`${inputClassName} ${className ?? ''}`}
+    />
+  );
+};
@@ -1,16 +1,11 @@
 import type React from 'react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type { UsageStats } from '../types/usage';
+import { ReplayControls } from './ReplayControls';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 
 // Helper functions
-const getUsageStatus = (percentage: number): 'safe' | 'warning' | 'critical' => {
-  if (percentage >= 90) return 'critical';
-  if (percentage >= 70) return 'warning';
-  return 'safe';
-};
-
 const getStatusColor = (status: string) => {
   switch (status) {
     case 'critical':
@@ -43,6 +38,9 @@ const formatTimeRemaining = (milliseconds: number): string => {
   return `${minutes}m`;
 };
 
+const getPlanSourceLabel = (stats: UsageStats) =>
+  stats.planManager?.autoSwitchEnabled === false ? 'Pinned' : 'Auto-detected';
+
 const formatNumber = (num: number) => {
   if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
   if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
@@ -104,6 +102,7 @@ const StatusCard: React.FC<{
 interface LiveMonitoringProps {
   stats: UsageStats;
   onRefresh: () => void;
+  onViewConversations: (blockId?: string) => void;
 }
 
 interface LogEntry {
@@ -114,12 +113,15 @@ interface LogEntry {
   emoji: string;
 }
 
-export const LiveMonitoring: React.FC<LiveMonitoringProps> = ({ stats, onRefresh }) => {
+export const LiveMonitoring: React.FC<LiveMonitoringProps> = ({
+  stats,
+  onRefresh,
+  onViewConversations,
+}) => {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isLiveMode, setIsLiveMode] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const logContainerRef = useRef<HTMLDivElement>(null);
-  const intervalRef = useRef<NodeJS.Timeout | undefined>(undefined);
 
   const addLogEntry = useCallback((type: LogEntry['type'], message: string, emoji: string) => {
     const newEntry: LogEntry = {
@@ -143,52 +145,40 @@ export const LiveMonitoring: React.FC<LiveMonitoringProps> = ({ stats, onRefresh
     }
   }, [isLiveMode]);
 
-  // Real-time updates every 3 seconds (like Python script)
+  // Real-time updates pushed by the main process whenever Claude Code writes to its logs.
+  // App reloads stats on the same event, so this only records the activity.
   useEffect(() => {
-    if (!isLiveMode) return;
+    if (!isLiveMode || !window.electronAPI) return;
 
-    intervalRef.current = setInterval(() => {
-      onRefresh();
+    const handleUsageUpdate = () => {
       setLastUpdate(new Date());
-      addLogEntry('info', 'Data refreshed', '🔄');
-    }, 3000);
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
+      addLogEntry('info', 'New activity detected', '🔄');
     };
-  }, [isLiveMode, onRefresh, addLogEntry]);
+
+    window.electronAPI.onUsageUpdated(handleUsageUpdate);
+    return () => window.electronAPI.removeUsageUpdatedListener(handleUsageUpdate);
+  }, [isLiveMode, addLogEntry]);
 
   // Add status-based log entries
   useEffect(() => {
     const timeUntilReset = stats.resetInfo?.timeUntilReset;
 
-    if (stats.percentageUsed >= 95) {
+    if (stats.status === 'critical') {
       addLogEntry('error', `Critical: ${stats.percentageUsed.toFixed(1)}% usage detected`, '🚨');
-    } else if (stats.percentageUsed >= 80) {
+    } else if (stats.status === 'warning') {
       addLogEntry('warning', `High usage: ${stats.percentageUsed.toFixed(1)}%`, '⚠️');
     }
 
     if (timeUntilReset && timeUntilReset < 3600000) {
       addLogEntry('info', `Reset in ${formatTimeRemaining(timeUntilReset)}`, '⏰');
     }
-  }, [stats.percentageUsed, stats.resetInfo?.timeUntilReset, addLogEntry]);
+  }, [stats.status, stats.percentageUsed, stats.resetInfo?.timeUntilReset, addLogEntry]);
 
-  const currentStatus = getUsageStatus(stats.percentageUsed);
+  const currentStatus = stats.status;
   const tokensPercentage = Math.min(stats.percentageUsed, 100);
 
-  // Calculate time progress (assuming reset info exists)
-  const getTimeProgress = (): number => {
-    if (!stats.resetInfo) return 0;
-
-    const totalCycleDuration = 24 * 60 * 60 * 1000;
-    const timeElapsed = totalCycleDuration - stats.resetInfo.timeUntilReset;
-
-    return Math.max(0, Math.min(100, (timeElapsed / totalCycleDuration) * 100));
-  };
-
-  const timeProgress = getTimeProgress();
+  // Share of the current reset cycle that has elapsed
+  const timeProgress = stats.resetInfo.percentUntilReset;
 
   return (
     <div className="space-y-4">
@@ -249,6 +239,8 @@ export const LiveMonitoring: React.FC<LiveMonitoringProps> = ({ stats, onRefresh
         </CardContent>
       </Card>
 
+      <ReplayControls />
+
       {/* Terminal-style Output */}
       <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
         <CardContent className="p-5">
@@ -302,7 +294,17 @@ export const LiveMonitoring: React.FC<LiveMonitoringProps> = ({ stats, onRefresh
       {/* Current Session Info */}
       <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
         <CardHeader>
-          <CardTitle className="text-white">Current Session</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white">Current Session</CardTitle>
+            <Button
+              onClick={() => onViewConversations(stats.sessionTracking?.currentSession?.id)}
+              variant="ghost"
+              size="sm"
+              className="glass px-3 py-1 h-auto rounded-lg text-xs text-neutral-300 hover:text-white"
+            >
+              Conversations
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -319,7 +321,7 @@ export const LiveMonitoring: React.FC<LiveMonitoringProps> = ({ stats, onRefresh
             <div className="text-center">
               <div className="text-2xl font-bold text-white mb-1">{stats.currentPlan}</div>
               <div className="text-sm text-neutral-400">Current Plan</div>
-              <div className="text-xs text-neutral-500 mt-1">📊 Auto-detected</div>
+              <div className="text-xs text-neutral-500 mt-1">📊 {getPlanSourceLabel(stats)}</div>
             </div>
 
             <div className="text-center">
@@ -1,7 +1,15 @@
 import type React from 'react';
 import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
 
-type ViewType = 'dashboard' | 'live' | 'analytics' | 'terminal' | 'settings';
+type ViewType =
+  | 'dashboard'
+  | 'live'
+  | 'analytics'
+  | 'projects'
+  | 'conversations'
+  | 'terminal'
+  | 'settings'
+  | 'diagnostics';
 
 interface NavigationTabsProps {
   currentView: ViewType;
@@ -32,6 +40,18 @@ const AnalyticsIcon = () => (
   </svg>
 );
 
+const ProjectsIcon = () => (
+  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <title>Projects</title>
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={1.5}
+      d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z"
+    />
+  </svg>
+);
+
 const TerminalIcon = () => (
   <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
     <title>Terminal</title>
@@ -66,6 +86,12 @@ const tabs = [
     icon: AnalyticsIcon,
     description: 'Usage trends and insights',
   },
+  {
+    id: 'projects' as ViewType,
+    name: 'Projects',
+    icon: ProjectsIcon,
+    description: 'Usage by project',
+  },
   {
     id: 'terminal' as ViewType,
     name: 'Terminal',
@@ -91,7 +117,7 @@ export const NavigationTabs: React.FC<NavigationTabsProps> = ({
       onValueChange={(value) => onNavigate(value as ViewType)}
       className={`${className} w-full`}
     >
-      <TabsList className="grid w-full grid-cols-4 gap-1">
+      <TabsList className="grid w-full grid-cols-5 gap-1">
         {tabs.map((tab) => {
           const IconComponent = tab.icon;
           return (
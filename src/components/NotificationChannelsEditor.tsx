@@ -0,0 +1,212 @@
+import type React from 'react';
+import { useState } from 'react';
+import type {
+  AlertSeverity,
+  NotificationChannel,
+  NotificationChannelResult,
+  NotificationChannelType,
+} from '../types/usage';
+import { DraftInput } from './DraftInput';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+
+const typeOptions: { type: NotificationChannelType; label: string; placeholder: string }[] = [
+  { type: 'slack', label: 'Slack', placeholder: 'https://hooks.slack.com/services/...' },
+  { type: 'discord', label: 'Discord', placeholder: 'https://discord.com/api/webhooks/...' },
+  { type: 'webhook', label: 'Webhook (JSON)', placeholder: 'https://example.com/ccseva' },
+  { type: 'command', label: 'Shell command', placeholder: 'notify-send "$CCSEVA_TITLE"' },
+];
+
+const severityOptions: { severity: AlertSeverity; label: string }[] = [
+  { severity: 'info', label: 'All alerts' },
+  { severity: 'warning', label: 'Warning and above' },
+  { severity: 'critical', label: 'Critical only' },
+];
+
+// Matches DEFAULT_CHANNEL_TEMPLATE in the main process, shown when the template is empty
+const DEFAULT_TEMPLATE_HINT =
+  '{title}: {message} ({percentageUsed}% of {tokenLimit} tokens, ${cost} today)';
+
+interface ChannelRowProps {
+  channel: NotificationChannel;
+  onChange: (changes: Partial<NotificationChannel>) => void;
+  onDelete: () => void;
+}
+
+const ChannelRow: React.FC<ChannelRowProps> = ({ channel, onChange, onDelete }) => {
+  const [testing, setTesting] = useState(false);
+  const [result, setResult] = useState<NotificationChannelResult | null>(null);
+  const typeOption = typeOptions.find((option) => option.type === channel.type);
+
+  const sendTest = () => {
+    if (!window.electronAPI) return;
+
+    setTesting(true);
+    setResult(null);
+    window.electronAPI
+      .testNotificationChannel(channel)
+      .then(setResult)
+      .catch((err) => setResult({ success: false, error: String(err) }))
+      .finally(() => setTesting(false));
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-3">
+      <div className="flex items-center gap-3">
+        <Switch checked={channel.enabled} onCheckedChange={(enabled) => onChange({ enabled })} />
+        <DraftInput
+          value={channel.name}
+          onCommit={(name) => onChange({ name: name.trim() })}
+          className="flex-1"
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          className="h-auto px-2 py-1 text-xs text-red-300 hover:text-red-200"
+        >
+          Delete
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <div className="text-white/60 text-xs mb-1">Type</div>
+          <Select
+            value={channel.type}
+            onValueChange={(value) => onChange({ type: value as NotificationChannelType })}
+          >
+            <SelectTrigger className="w-full bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-neutral-900/80 border-white/20">
+              {typeOptions.map((option) => (
+                <SelectItem key={option.type} value={option.type}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <div className="text-white/60 text-xs mb-1">Send</div>
+          <Select
+            value={channel.minSeverity}
+            onValueChange={(value) => onChange({ minSeverity: value as AlertSeverity })}
+          >
+            <SelectTrigger className="w-full bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-neutral-900/80 border-white/20">
+              {severityOptions.map((option) => (
+                <SelectItem key={option.severity} value={option.severity}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-white/60 text-xs mb-1">
+          {channel.type === 'command' ? 'Command' : 'Webhook URL'}
+        </div>
+        <DraftInput
+          value={channel.target}
+          placeholder={typeOption?.placeholder}
+          isValid={() => true}
+          onCommit={(target) => onChange({ target: target.trim() })}
+          className="w-full font-mono"
+        />
+      </div>
+
+      <div>
+        <div className="text-white/60 text-xs mb-1">Message</div>
+        <DraftInput
+          value={channel.template}
+          placeholder={DEFAULT_TEMPLATE_HINT}
+          isValid={() => true}
+          onCommit={(template) => onChange({ template })}
+          className="w-full"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <div
+          className={`text-xs ${result?.success ? 'text-green-300' : 'text-red-300'} truncate`}
+          title={result?.error}
+        >
+          {result && (result.success ? 'Test sent' : `Test failed: ${result.error}`)}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={sendTest}
+          disabled={testing}
+          className="glass h-auto shrink-0 rounded-lg px-3 py-1 text-xs text-neutral-300 hover:text-white"
+        >
+          {testing ? 'Sending...' : 'Send test'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface NotificationChannelsEditorProps {
+  channels: NotificationChannel[];
+  onChange: (channels: NotificationChannel[]) => void;
+}
+
+export const NotificationChannelsEditor: React.FC<NotificationChannelsEditorProps> = ({
+  channels,
+  onChange,
+}) => {
+  const updateChannel = (id: string, changes: Partial<NotificationChannel>) => {
+    onChange(channels.map((channel) => (channel.id === id ? { ...channel, ...changes } : channel)));
+  };
+
+  const addChannel = () => {
+    onChange([
+      ...channels,
+      {
+        id: `channel-${Date.now()}`,
+        name: 'New Channel',
+        enabled: true,
+        type: 'slack',
+        target: '',
+        template: '',
+        minSeverity: 'critical',
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {channels.map((channel) => (
+        <ChannelRow
+          key={channel.id}
+          channel={channel}
+          onChange={(changes) => updateChannel(channel.id, changes)}
+          onDelete={() => onChange(channels.filter((c) => c.id !== channel.id))}
+        />
+      ))}
+
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-white/50">
+          Placeholders: {'{title}'}, {'{message}'}, {'{severity}'}, {'{status}'},{' '}
+          {'{percentageUsed}'}, {'{tokensUsed}'}, {'{tokenLimit}'}, {'{cost}'}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={addChannel}
+          className="glass h-auto shrink-0 rounded-lg px-3 py-1 text-xs text-neutral-300 hover:text-white"
+        >
+          Add channel
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { loadOnUsageUpdate } from '../lib/usageUpdates';
+import type { ProfileStatus } from '../types/usage';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+// Select values can't be empty, so the default profile's null id goes by this one
+const DEFAULT_PROFILE_VALUE = 'default';
+
+export const formatProfileUsage = ({ usage }: ProfileStatus) =>
+  usage ? `${Math.round(usage.percentageUsed)}% of ${usage.currentPlan}` : 'not loaded yet';
+
+// Profile usage is loaded with every refresh, so reload the list on usage refreshes
+export const useProfileStatuses = () => {
+  const [profiles, setProfiles] = useState<ProfileStatus[]>([]);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    return loadOnUsageUpdate(
+      () => window.electronAPI.getProfiles(),
+      setProfiles,
+      (err) => console.error('Failed to load profiles:', err)
+    );
+  }, []);
+
+  return profiles;
+};
+
+interface ProfileSwitcherProps {
+  onSwitch: (profileId: string | null) => void;
+}
+
+/**
+ * Header dropdown for the profile shown in the window, hidden until there is a second profile
+ */
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ onSwitch }) => {
+  const profiles = useProfileStatuses();
+  if (profiles.length < 2) return null;
+
+  const active = profiles.find((profile) => profile.active);
+  return (
+    <Select
+      value={active?.id ?? DEFAULT_PROFILE_VALUE}
+      onValueChange={(value) => onSwitch(value === DEFAULT_PROFILE_VALUE ? null : value)}
+    >
+      <SelectTrigger
+        title="Switch profile"
+        className="glass h-7 max-w-40 border-none px-2 text-xs text-neutral-300"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-neutral-900/80 border-white/20">
+        {profiles.map((profile) => (
+          <SelectItem
+            key={profile.id ?? DEFAULT_PROFILE_VALUE}
+            value={profile.id ?? DEFAULT_PROFILE_VALUE}
+          >
+            {profile.name} · {formatProfileUsage(profile)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,162 @@
+import type React from 'react';
+import type { AppPreferences, ProfileSettings, ProfileStatus, UsageProfile } from '../types/usage';
+import { DraftInput } from './DraftInput';
+import { formatProfileUsage, useProfileStatuses } from './ProfileSwitcher';
+import { Button } from './ui/button';
+
+type UpdatePreferences = (preferences: Partial<AppPreferences>) => void;
+
+/**
+ * The active profile's plan, reset, alert and data source settings, and a setter that
+ * writes them back to that profile (the top-level preferences for the default one)
+ */
+export const useProfileSettings = (
+  preferences: AppPreferences,
+  onUpdatePreferences: UpdatePreferences
+) => {
+  const activeProfile = preferences.profiles.find(
+    (profile) => profile.id === preferences.activeProfileId
+  );
+  const profileSettings: ProfileSettings = activeProfile ?? preferences;
+
+  const updateProfileSettings = (changes: Partial<ProfileSettings>) => {
+    if (!activeProfile) {
+      onUpdatePreferences(changes);
+      return;
+    }
+    onUpdatePreferences({
+      profiles: preferences.profiles.map((profile) =>
+        profile.id === activeProfile.id ? { ...profile, ...changes } : profile
+      ),
+    });
+  };
+
+  return { profileSettings, updateProfileSettings };
+};
+
+interface ProfileRowProps {
+  name: React.ReactNode;
+  status?: ProfileStatus;
+  active: boolean;
+  onSwitch: () => void;
+  onRemove?: () => void;
+}
+
+const ProfileRow: React.FC<ProfileRowProps> = ({ name, status, active, onSwitch, onRemove }) => (
+  <div className="flex items-center gap-3 rounded-lg border border-white/10 bg-white/5 p-3">
+    <div className="min-w-0 flex-1">{name}</div>
+    {status && <span className="text-xs shrink-0 text-white/60">{formatProfileUsage(status)}</span>}
+    {active ? (
+      <span className="text-xs shrink-0 text-green-300">Active</span>
+    ) : (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onSwitch}
+        className="h-auto px-2 py-1 text-xs text-neutral-300 hover:text-white"
+      >
+        Switch
+      </Button>
+    )}
+    {onRemove && (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onRemove}
+        className="h-auto px-2 py-1 text-xs text-red-300 hover:text-red-200"
+      >
+        Remove
+      </Button>
+    )}
+  </div>
+);
+
+interface ProfilesEditorProps {
+  preferences: AppPreferences;
+  onUpdatePreferences: UpdatePreferences;
+}
+
+export const ProfilesEditor: React.FC<ProfilesEditorProps> = ({
+  preferences,
+  onUpdatePreferences,
+}) => {
+  const statuses = useProfileStatuses();
+  const findStatus = (id: string | null) => statuses.find((status) => status.id === id);
+  const { profiles, activeProfileId } = preferences;
+  const isActive = (id: string | null) =>
+    id === activeProfileId ||
+    (id === null && !profiles.some((profile) => profile.id === activeProfileId));
+
+  const updateProfile = (id: string, changes: Partial<UsageProfile>) => {
+    onUpdatePreferences({
+      profiles: profiles.map((profile) =>
+        profile.id === id ? { ...profile, ...changes } : profile
+      ),
+    });
+  };
+
+  const removeProfile = (id: string) => {
+    onUpdatePreferences({
+      profiles: profiles.filter((profile) => profile.id !== id),
+      ...(id === activeProfileId && { activeProfileId: null }),
+    });
+  };
+
+  // A new account starts from the default profile's alert rules and reads no directories yet
+  const addProfile = () => {
+    const profile: UsageProfile = {
+      id: `profile-${Date.now()}`,
+      name: 'New profile',
+      dataSources: [],
+      plan: 'auto',
+      customTokenLimit: undefined,
+      resetMode: 'session',
+      resetHour: 0,
+      alertRules: preferences.alertRules,
+    };
+    onUpdatePreferences({ profiles: [...profiles, profile] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <ProfileRow
+        name={<span className="text-sm text-white">Default</span>}
+        status={findStatus(null)}
+        active={isActive(null)}
+        onSwitch={() => onUpdatePreferences({ activeProfileId: null })}
+      />
+
+      {profiles.map((profile) => (
+        <ProfileRow
+          key={profile.id}
+          name={
+            <DraftInput
+              value={profile.name}
+              onCommit={(name) => updateProfile(profile.id, { name: name.trim() })}
+              className="w-full"
+            />
+          }
+          status={findStatus(profile.id)}
+          active={isActive(profile.id)}
+          onSwitch={() => onUpdatePreferences({ activeProfileId: profile.id })}
+          onRemove={() => removeProfile(profile.id)}
+        />
+      ))}
+
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-xs text-white/50">
+          Plan, reset, alert rule and data source settings belong to the active profile. Profiles
+          other than Default read only the directories added to them.
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={addProfile}
+          className="glass h-auto shrink-0 rounded-lg px-3 py-1 text-xs text-neutral-300 hover:text-white"
+        >
+          Add profile
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import type React from 'react';
+import type { UsageStats } from '../types/usage';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+export const ALL_PROJECTS = 'all';
+
+const isWithinDays = (date: string, days: number) => {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - days);
+  return new Date(date) >= cutoff;
+};
+
+/**
+ * Narrow the daily usage in stats to a single project, matching how the main process
+ * builds today, thisWeek and thisMonth. Session-wide figures are left untouched, and an
+ * unknown project (e.g. one whose logs were pruned) falls back to all projects.
+ */
+export const scopeStatsToProject = (stats: UsageStats, projectPath: string): UsageStats => {
+  const project = stats.projects?.find((p) => p.projectPath === projectPath);
+  if (!project) return stats;
+
+  const { dailyUsage } = project;
+
+  return {
+    ...stats,
+    today: dailyUsage.find((day) => day.date === stats.today.date) ?? {
+      date: stats.today.date,
+      totalTokens: 0,
+      totalCost: 0,
+      models: {},
+    },
+    thisWeek: dailyUsage.filter((day) => isWithinDays(day.date, 7)),
+    thisMonth: dailyUsage.filter((day) => isWithinDays(day.date, 30)),
+  };
+};
+
+interface ProjectFilterProps {
+  stats: UsageStats;
+  value: string;
+  onChange: (projectPath: string) => void;
+  className?: string;
+}
+
+export const ProjectFilter: React.FC<ProjectFilterProps> = ({
+  stats,
+  value,
+  onChange,
+  className = '',
+}) => {
+  const projects = stats.projects ?? [];
+  if (projects.length === 0) return null;
+
+  const selected = projects.some((p) => p.projectPath === value) ? value : ALL_PROJECTS;
+
+  return (
+    <Select value={selected} onValueChange={onChange}>
+      <SelectTrigger
+        className={`h-8 w-44 bg-white/10 border-white/20 text-xs text-white ${className}`}
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-neutral-900/80 border-white/20">
+        <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+        {projects.map((project) => (
+          <SelectItem key={project.projectPath} value={project.projectPath}>
+            <span title={project.projectPath}>{project.displayName}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
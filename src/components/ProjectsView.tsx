@@ -0,0 +1,207 @@
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import type { ProjectUsage, UsageStats } from '../types/usage';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Progress } from './ui/progress';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+
+type ProjectSort = 'block' | 'tokens' | 'cost';
+
+const sortOptions: { sort: ProjectSort; label: string }[] = [
+  { sort: 'block', label: 'Current Session' },
+  { sort: 'tokens', label: 'Tokens' },
+  { sort: 'cost', label: 'Cost' },
+];
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return num.toLocaleString();
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
+
+const formatLastActivity = (timestamp: string) => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const sortProjects = (projects: ProjectUsage[], sort: ProjectSort) => {
+  const value = (project: ProjectUsage) => {
+    switch (sort) {
+      case 'block':
+        return project.activeBlockTokens;
+      case 'tokens':
+        return project.totalTokens;
+      case 'cost':
+        return project.totalCost;
+    }
+  };
+  return [...projects].sort((a, b) => value(b) - value(a) || b.totalTokens - a.totalTokens);
+};
+
+const ProjectRow: React.FC<{ project: ProjectUsage; tokenLimit: number }> = ({
+  project,
+  tokenLimit,
+}) => {
+  const blockPercentage = tokenLimit > 0 ? (project.activeBlockTokens / tokenLimit) * 100 : 0;
+  const topModel = Object.entries(project.models).sort(([, a], [, b]) => b.tokens - a.tokens)[0];
+
+  return (
+    <div className="space-y-2 rounded-lg border border-neutral-800 bg-neutral-800/30 p-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="truncate text-sm font-medium text-white font-primary cursor-help">
+                {project.displayName}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="font-mono text-xs">{project.projectPath}</p>
+            </TooltipContent>
+          </Tooltip>
+          <div className="truncate text-xs text-neutral-500 font-mono">{project.projectPath}</div>
+        </div>
+        {project.activeBlockTokens > 0 && (
+          <Badge variant="secondary" className="shrink-0">
+            Active
+          </Badge>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs">
+          <span className="text-neutral-400 font-primary">Current session</span>
+          <span className="text-neutral-300 font-primary">
+            {formatNumber(project.activeBlockTokens)} ({blockPercentage.toFixed(1)}% of limit)
+          </span>
+        </div>
+        <Progress value={Math.min(blockPercentage, 100)} className="w-full h-1.5" />
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-xs">
+        <div>
+          <div className="text-neutral-500">Tokens</div>
+          <div className="text-white font-medium">{formatNumber(project.totalTokens)}</div>
+        </div>
+        <div>
+          <div className="text-neutral-500">Cost</div>
+          <div className="text-white font-medium">{formatCurrency(project.totalCost)}</div>
+        </div>
+        <div>
+          <div className="text-neutral-500">Sessions</div>
+          <div className="text-white font-medium">{project.sessionCount}</div>
+        </div>
+        <div>
+          <div className="text-neutral-500">Last active</div>
+          <div className="text-white font-medium">{formatLastActivity(project.lastActivity)}</div>
+        </div>
+      </div>
+
+      {topModel && (
+        <div className="text-xs text-neutral-500 font-primary">
+          Mostly {topModel[0]} · {Object.keys(project.models).length} model
+          {Object.keys(project.models).length === 1 ? '' : 's'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ProjectsViewProps {
+  stats: UsageStats;
+}
+
+export const ProjectsView: React.FC<ProjectsViewProps> = ({ stats }) => {
+  const [sort, setSort] = useState<ProjectSort>('block');
+  const projects = useMemo(() => sortProjects(stats.projects ?? [], sort), [stats, sort]);
+  const activeProjects = projects.filter((project) => project.activeBlockTokens > 0).length;
+
+  return (
+    <TooltipProvider>
+      <div className="space-y-4">
+        <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold text-gradient font-primary">Projects</CardTitle>
+            <CardDescription>
+              Usage attributed to the directories Claude Code ran in
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold text-neutral-100 font-primary">
+                  {projects.length}
+                </div>
+                <div className="text-xs text-neutral-400 font-primary">Projects</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-neutral-100 font-primary">
+                  {activeProjects}
+                </div>
+                <div className="text-xs text-neutral-400 font-primary">In Current Session</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-neutral-100 font-primary">
+                  {formatNumber(stats.tokensUsed)}
+                </div>
+                <div className="text-xs text-neutral-400 font-primary">
+                  of {formatNumber(stats.tokenLimit)} Used
+                </div>
+              </div>
+            </div>
+
+            <div className="flex bg-neutral-800/50 rounded-xl p-1 backdrop-blur-sm border border-white/10 w-fit">
+              {sortOptions.map((option) => (
+                <Button
+                  key={option.sort}
+                  onClick={() => setSort(option.sort)}
+                  variant="ghost"
+                  size="sm"
+                  className={`px-3 py-1.5 h-auto rounded-lg text-sm font-medium transition-all ${
+                    sort === option.sort
+                      ? 'bg-blue-500 text-white shadow-lg hover:bg-blue-600'
+                      : 'text-neutral-400 hover:text-white hover:bg-white/5'
+                  }`}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
+          <CardContent className="p-4 space-y-3">
+            {projects.length > 0 ? (
+              projects.map((project) => (
+                <ProjectRow
+                  key={project.projectPath}
+                  project={project}
+                  tokenLimit={stats.tokenLimit}
+                />
+              ))
+            ) : (
+              <div className="text-center py-8 text-neutral-400">
+                <p className="text-sm">No project usage found in your Claude Code logs</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </TooltipProvider>
+  );
+};
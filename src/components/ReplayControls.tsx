@@ -0,0 +1,172 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { loadOnUsageUpdate } from '../lib/usageUpdates';
+import type { ReplayState } from '../types/usage';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Slider } from './ui/slider';
+
+const SPEEDS = [10, 60, 100, 300, 1000];
+const MINUTE_MS = 60 * 1000;
+
+const formatClock = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Each replay step is a usage refresh, so reloading on refreshes keeps the position current
+const useReplayState = () => {
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    return loadOnUsageUpdate(
+      () => window.electronAPI.getReplayState(),
+      setReplay,
+      () => {
+        // Keep the last known state; the next refresh tries again
+      }
+    );
+  }, []);
+
+  const run = (action: () => Promise<ReplayState>) => {
+    action()
+      .then((result) => {
+        setReplay(result);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  };
+
+  return { replay, error, run };
+};
+
+const ReplayTimeline: React.FC<{ replay: ReplayState; onSeek: (position: number) => void }> = ({
+  replay,
+  onSeek,
+}) => {
+  const [draft, setDraft] = useState<number | null>(null);
+  const start = new Date(replay.start ?? 0).getTime();
+  const end = new Date(replay.end ?? 0).getTime();
+  const position = draft ?? new Date(replay.position ?? start).getTime();
+
+  return (
+    <div className="space-y-2">
+      <Slider
+        value={[position]}
+        min={start}
+        max={end}
+        step={MINUTE_MS}
+        onValueChange={([value]) => setDraft(value)}
+        onValueCommit={([value]) => {
+          setDraft(null);
+          onSeek(value);
+        }}
+      />
+      <div className="flex justify-between text-xs text-neutral-400">
+        <span>{formatClock(start)}</span>
+        <span className="text-white font-medium">{formatClock(position)}</span>
+        <span>{formatClock(end)}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Play back a past day through the monitor on a virtual clock, with pause and seek
+ */
+export const ReplayControls: React.FC = () => {
+  const { replay, error, run } = useReplayState();
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  if (!replay || !window.electronAPI) return null;
+
+  const api = window.electronAPI;
+  const day = replay.day ?? selectedDay ?? replay.days[0];
+
+  const togglePlayback = () => {
+    if (!replay.active) run(() => api.startReplay(day));
+    else run(replay.playing ? api.pauseReplay : api.resumeReplay);
+  };
+
+  return (
+    <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
+      <CardContent className="p-5 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-bold text-white">Replay</h3>
+            <p className="text-xs text-neutral-400">
+              Play back a past day through the monitor, alerts included
+            </p>
+          </div>
+          {replay.active && (
+            <span className="glass px-3 py-1 rounded-lg text-xs text-cyan-300">
+              {replay.playing ? 'PLAYING' : 'PAUSED'}
+            </span>
+          )}
+        </div>
+
+        {replay.days.length === 0 ? (
+          <p className="text-xs text-neutral-400">No recorded usage to replay yet.</p>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Select value={day} onValueChange={setSelectedDay} disabled={replay.active}>
+              <SelectTrigger className="h-8 flex-1 bg-white/10 border-white/20 text-xs text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-neutral-900/80 border-white/20">
+                {replay.days.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={String(replay.speed)}
+              onValueChange={(value) => run(() => api.setReplaySpeed(Number(value)))}
+            >
+              <SelectTrigger className="h-8 w-24 bg-white/10 border-white/20 text-xs text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-neutral-900/80 border-white/20">
+                {SPEEDS.map((speed) => (
+                  <SelectItem key={speed} value={String(speed)}>
+                    {speed}x
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={togglePlayback}
+              size="sm"
+              className="h-8 px-3 text-xs bg-gradient-to-r from-cyan-600 to-blue-700 text-white"
+            >
+              {replay.active && replay.playing ? 'Pause' : 'Play'}
+            </Button>
+            {replay.active && (
+              <Button
+                onClick={() => run(api.stopReplay)}
+                variant="ghost"
+                size="sm"
+                className="glass h-8 px-3 text-xs text-neutral-300 hover:text-white"
+              >
+                Stop
+              </Button>
+            )}
+          </div>
+        )}
+
+        {replay.active && (
+          <ReplayTimeline
+            replay={replay}
+            onSeek={(position) => run(() => api.seekReplay(new Date(position).toISOString()))}
+          />
+        )}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
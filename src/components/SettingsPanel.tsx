@@ -1,23 +1,191 @@
 import type React from 'react';
-import type { UsageStats } from '../types/usage';
+import { useEffect, useState } from 'react';
+import type {
+  AppPreferences,
+  DemoModeInfo,
+  IntegrationStatus,
+  LocalServerStatus,
+  ProfileSettings,
+  SummarySchedule,
+  UsageStats,
+} from '../types/usage';
+import { AlertRulesEditor } from './AlertRulesEditor';
+import { DataSourcesEditor } from './DataSourcesEditor';
+import { DraftInput } from './DraftInput';
+import { NotificationChannelsEditor } from './NotificationChannelsEditor';
+import { ProfilesEditor, useProfileSettings } from './ProfilesEditor';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Slider } from './ui/slider';
 import { Switch } from './ui/switch';
 
+// Accepts whole numbers between min and max, so out-of-range drafts are discarded on commit
+const isIntegerInRange = (draft: string, min: number, max: number) => {
+  const parsed = Number.parseInt(draft, 10);
+  return !Number.isNaN(parsed) && parsed >= min && parsed <= max;
+};
+
+// Commits the parsed draft unless it only differs from the current value in formatting
+const commitInteger = (draft: string, value: number, onCommit: (parsed: number) => void) => {
+  const parsed = Number.parseInt(draft, 10);
+  if (parsed !== value) onCommit(parsed);
+};
+
+interface PortInputProps {
+  value: number;
+  onCommit: (port: number) => void;
+}
+
+// Port field that only commits valid ports, so typing doesn't restart servers on every keystroke
+const PortInput: React.FC<PortInputProps> = ({ value, onCommit }) => (
+  <DraftInput
+    type="number"
+    min={1024}
+    max={65535}
+    value={value.toString()}
+    isValid={(draft) => isIntegerInRange(draft, 1024, 65535)}
+    onCommit={(draft) => commitInteger(draft, value, onCommit)}
+    className="w-28"
+  />
+);
+
+interface ThresholdInputProps {
+  value: number;
+  min: number;
+  max: number;
+  onCommit: (percentage: number) => void;
+}
+
+// Percentage field that only commits values between min and max, keeping low below high
+const ThresholdInput: React.FC<ThresholdInputProps> = ({ value, min, max, onCommit }) => (
+  <DraftInput
+    type="number"
+    min={min}
+    max={max}
+    value={value.toString()}
+    isValid={(draft) => isIntegerInRange(draft, min, max)}
+    onCommit={(draft) => commitInteger(draft, value, onCommit)}
+    className="w-20"
+  />
+);
+
+const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface HourSelectProps {
+  value: number;
+  onChange: (hour: number) => void;
+}
+
+const HourSelect: React.FC<HourSelectProps> = ({ value, onChange }) => (
+  <Select value={value.toString()} onValueChange={(hour) => onChange(Number.parseInt(hour, 10))}>
+    <SelectTrigger className="w-24 bg-white/10 border-white/20 text-white">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent className="bg-neutral-900/80 border-white/20">
+      {Array.from({ length: 24 }, (_, i) => (
+        <SelectItem key={`summary-hour-${i.toString().padStart(2, '0')}`} value={i.toString()}>
+          {i.toString().padStart(2, '0')}:00
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+// Whether the local servers are actually running, which a taken port can prevent
+const useIntegrationStatus = () => {
+  const [status, setStatus] = useState<IntegrationStatus | null>(null);
+
+  useEffect(() => {
+    const loadStatus = () => {
+      window.electronAPI
+        ?.getIntegrationStatus()
+        .then(setStatus)
+        .catch((err) => console.error('Failed to load integration status:', err));
+    };
+
+    loadStatus();
+    window.electronAPI?.onIntegrationStatusUpdated(loadStatus);
+    return () => window.electronAPI?.removeIntegrationStatusUpdatedListener(loadStatus);
+  }, []);
+
+  return status;
+};
+
+const ServerError: React.FC<{ status?: LocalServerStatus }> = ({ status }) =>
+  status?.error ? <div className="text-xs text-red-400">Not running: {status.error}</div> : null;
+
+interface DemoModeSettingsProps {
+  preferences: AppPreferences;
+  onUpdatePreferences: (preferences: Partial<AppPreferences>) => void;
+}
+
+// Switching demo mode restarts the app, since it replaces the data behind every view
+const DemoModeSettings: React.FC<DemoModeSettingsProps> = ({
+  preferences,
+  onUpdatePreferences,
+}) => {
+  const [demoMode, setDemoMode] = useState<DemoModeInfo | null>(null);
+
+  useEffect(() => {
+    window.electronAPI
+      ?.getDemoMode()
+      .then(setDemoMode)
+      .catch((err) => console.error('Failed to load demo mode:', err));
+  }, []);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <span className="text-2xl">🧪</span>
+          <div>
+            <div className="text-white font-medium">Demo Mode</div>
+            <div className="text-white/60 text-sm">
+              Show synthetic Claude Code logs for screenshots and testing
+            </div>
+          </div>
+        </div>
+
+        <Switch
+          checked={preferences.demoMode}
+          onCheckedChange={(checked) => onUpdatePreferences({ demoMode: checked })}
+        />
+      </div>
+
+      <div className="ml-11 space-y-2">
+        {preferences.demoMode && (
+          <div>
+            <div className="text-white/70 text-sm mb-1">Fixture directory</div>
+            <DraftInput
+              value={preferences.demoDataDirectory}
+              onCommit={(directory) => onUpdatePreferences({ demoDataDirectory: directory.trim() })}
+              isValid={() => true}
+              placeholder="Bundled demo logs"
+              className="w-full"
+            />
+          </div>
+        )}
+        {demoMode?.fromCommandLine && (
+          <div className="text-xs text-yellow-300">
+            Demo mode was turned on with --demo for this run
+          </div>
+        )}
+        {demoMode?.error && (
+          <div className="text-xs text-red-400">Demo mode couldn't start: {demoMode.error}</div>
+        )}
+        <div className="text-xs text-white/50">
+          CCSeva restarts to switch. Demo history is kept apart from your real usage, and no
+          alerts or summaries are sent from demo data.
+        </div>
+      </div>
+    </div>
+  );
+};
+
 interface SettingsPanelProps {
-  preferences: {
-    autoRefresh: boolean;
-    refreshInterval: number;
-    theme: 'auto' | 'light' | 'dark';
-    notifications: boolean;
-    animationsEnabled: boolean;
-    timezone?: string;
-    resetHour?: number;
-    menuBarDisplay: 'off' | 'percentage' | 'value' | 'all';
-  };
-  onUpdatePreferences: (preferences: Partial<SettingsPanelProps['preferences']>) => void;
+  preferences: AppPreferences;
+  onUpdatePreferences: (preferences: Partial<AppPreferences>) => void;
   stats: UsageStats;
 }
 
@@ -26,10 +194,40 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   onUpdatePreferences,
   stats,
 }) => {
+  const { profileSettings, updateProfileSettings } = useProfileSettings(
+    preferences,
+    onUpdatePreferences
+  );
+  const integrationStatus = useIntegrationStatus();
+  const [customLimitDraft, setCustomLimitDraft] = useState(
+    profileSettings.customTokenLimit?.toString() ?? ''
+  );
+
+  useEffect(() => {
+    setCustomLimitDraft(profileSettings.customTokenLimit?.toString() ?? '');
+  }, [profileSettings.customTokenLimit]);
+
   const handlePreferenceChange = (key: string, value: boolean | number | string) => {
     onUpdatePreferences({ [key]: value });
   };
 
+  const commitCustomLimit = () => {
+    const parsed = Number.parseInt(customLimitDraft, 10);
+    if (Number.isNaN(parsed) || parsed <= 0) {
+      // Empty or invalid input clears the limit so Custom falls back to auto-detection
+      updateProfileSettings({ customTokenLimit: undefined });
+      setCustomLimitDraft('');
+      return;
+    }
+    if (parsed !== profileSettings.customTokenLimit) {
+      updateProfileSettings({ customTokenLimit: parsed });
+    }
+  };
+
+  const updateSummarySchedule = (changes: Partial<SummarySchedule>) => {
+    onUpdatePreferences({ summarySchedule: { ...preferences.summarySchedule, ...changes } });
+  };
+
   const refreshIntervalOptions = [
     { value: 15000, label: '15 seconds' },
     { value: 30000, label: '30 seconds' },
@@ -52,6 +250,23 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
       {/* General Settings */}
       <Card className="bg-neutral-900/80 backdrop-blur-sm border-neutral-800">
         <CardContent className="p-6 space-y-6">
+          {/* Profiles */}
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-2xl">👥</span>
+              <div>
+                <div className="text-white font-medium">Profiles</div>
+                <div className="text-white/60 text-sm">
+                  Track several Claude accounts, each with its own plan and limits
+                </div>
+              </div>
+            </div>
+
+            <div className="ml-11">
+              <ProfilesEditor preferences={preferences} onUpdatePreferences={onUpdatePreferences} />
+            </div>
+          </div>
+
           {/* Menu Bar Display */}
           <div className="space-y-3">
             <div className="flex items-center space-x-3">
@@ -89,6 +304,306 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
             </div>
           </div>
 
+          {/* Plan */}
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-2xl">💳</span>
+              <div>
+                <div className="text-white font-medium">Plan</div>
+                <div className="text-white/60 text-sm">
+                  Pin your Claude plan or let CCSeva detect it from your usage
+                </div>
+              </div>
+            </div>
+
+            <div className="ml-11 space-y-3">
+              <Select
+                value={profileSettings.plan}
+                onValueChange={(value) =>
+                  updateProfileSettings({ plan: value as ProfileSettings['plan'] })
+                }
+              >
+                <SelectTrigger className="w-full bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-neutral-900/80 border-white/20">
+                  <SelectItem value="auto">Auto-detect</SelectItem>
+                  <SelectItem value="Pro">Pro (7K tokens)</SelectItem>
+                  <SelectItem value="Max5">Max 5x (35K tokens)</SelectItem>
+                  <SelectItem value="Max20">Max 20x (140K tokens)</SelectItem>
+                  <SelectItem value="Custom">Custom limit</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {profileSettings.plan === 'Custom' && (
+                <div>
+                  <div className="text-white/70 text-sm mb-1">Token limit per session</div>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1000}
+                    value={customLimitDraft}
+                    placeholder="Highest previous session"
+                    onChange={(event) => setCustomLimitDraft(event.target.value)}
+                    onBlur={commitCustomLimit}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') commitCustomLimit();
+                    }}
+                    className="w-full bg-white/10 border border-white/20 rounded-md px-3 py-2 text-white text-sm placeholder:text-white/40 focus:outline-none focus:border-blue-400"
+                  />
+                </div>
+              )}
+
+              <div className="text-xs text-white/50">
+                {profileSettings.plan === 'auto'
+                  ? `Currently detected: ${stats.currentPlan}`
+                  : 'Pinned plans are never switched automatically'}
+              </div>
+            </div>
+          </div>
+
+          {/* Integrations */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <span className="text-2xl">🔌</span>
+                <div>
+                  <div className="text-white font-medium">Local Status Server</div>
+                  <div className="text-white/60 text-sm">
+                    Serve usage as JSON for status bars and editor plugins
+                  </div>
+                </div>
+              </div>
+
+              <Switch
+                checked={preferences.statusServerEnabled}
+                onCheckedChange={(checked) =>
+                  handlePreferenceChange('statusServerEnabled', checked)
+                }
+              />
+            </div>
+
+            {preferences.statusServerEnabled && (
+              <div className="ml-11 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="text-white/70 text-sm">Port</div>
+                  <PortInput
+                    value={preferences.statusServerPort}
+                    onCommit={(port) => handlePreferenceChange('statusServerPort', port)}
+                  />
+                </div>
+                <div className="text-xs text-white/50 font-mono">
+                  http://127.0.0.1:{preferences.statusServerPort}/stats
+                </div>
+                <ServerError status={integrationStatus?.statusServer} />
+              </div>
+            )}
+          </div>
+
+          {/* Prometheus Metrics */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <span className="text-2xl">📈</span>
+                <div>
+                  <div className="text-white font-medium">Prometheus Metrics</div>
+                  <div className="text-white/60 text-sm">
+                    Expose usage gauges for Prometheus and Grafana
+                  </div>
+                </div>
+              </div>
+
+              <Switch
+                checked={preferences.metricsEnabled}
+                onCheckedChange={(checked) => handlePreferenceChange('metricsEnabled', checked)}
+              />
+            </div>
+
+            {preferences.metricsEnabled && (
+              <div className="ml-11 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="text-white/70 text-sm">Bind address</div>
+                  <DraftInput
+                    value={preferences.metricsHost}
+                    onCommit={(host) => handlePreferenceChange('metricsHost', host.trim())}
+                    className="w-36"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="text-white/70 text-sm">Port</div>
+                  <PortInput
+                    value={preferences.metricsPort}
+                    onCommit={(port) => handlePreferenceChange('metricsPort', port)}
+                  />
+                </div>
+                <div className="text-xs text-white/50 font-mono">
+                  http://{preferences.metricsHost}:{preferences.metricsPort}/metrics
+                </div>
+                <div className="text-xs text-white/50">
+                  127.0.0.1 is reachable from this machine only. Use 0.0.0.0 to let a team
+                  Prometheus scrape it; anyone on your network can then read your usage.
+                </div>
+                <ServerError status={integrationStatus?.metrics} />
+              </div>
+            )}
+          </div>
+
+          {/* Warning Thresholds */}
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-2xl">🚦</span>
+              <div>
+                <div className="text-white font-medium">Warning Thresholds</div>
+                <div className="text-white/60 text-sm">
+                  Usage levels for warning and critical status, tray colour and alerts
+                </div>
+              </div>
+            </div>
+
+            <div className="ml-11 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-white/70 text-sm">🟡 Warning at (%)</div>
+                <ThresholdInput
+                  value={preferences.warningThresholds.low}
+                  min={1}
+                  max={preferences.warningThresholds.high - 1}
+                  onCommit={(low) =>
+                    onUpdatePreferences({
+                      warningThresholds: { ...preferences.warningThresholds, low },
+                    })
+                  }
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="text-white/70 text-sm">🔴 Critical at (%)</div>
+                <ThresholdInput
+                  value={preferences.warningThresholds.high}
+                  min={preferences.warningThresholds.low + 1}
+                  max={100}
+                  onCommit={(high) =>
+                    onUpdatePreferences({
+                      warningThresholds: { ...preferences.warningThresholds, high },
+                    })
+                  }
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Alert Rules */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <span className="text-2xl">🔔</span>
+                <div>
+                  <div className="text-white font-medium">Alert Rules</div>
+                  <div className="text-white/60 text-sm">
+                    When to alert; the switch controls desktop notifications
+                  </div>
+                </div>
+              </div>
+
+              <Switch
+                checked={preferences.notifications}
+                onCheckedChange={(checked) => handlePreferenceChange('notifications', checked)}
+              />
+            </div>
+
+            <div className="ml-11">
+              <AlertRulesEditor
+                rules={profileSettings.alertRules}
+                onChange={(alertRules) => updateProfileSettings({ alertRules })}
+              />
+            </div>
+          </div>
+
+          {/* Usage Summaries */}
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-2xl">🗓️</span>
+              <div>
+                <div className="text-white font-medium">Usage Summaries</div>
+                <div className="text-white/60 text-sm">
+                  Tokens, cost, top model and longest session vs the previous period
+                </div>
+              </div>
+            </div>
+
+            <div className="ml-11 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={preferences.summarySchedule.dailyEnabled}
+                    onCheckedChange={(dailyEnabled) => updateSummarySchedule({ dailyEnabled })}
+                  />
+                  <div className="text-white/70 text-sm">Daily at</div>
+                </div>
+                <HourSelect
+                  value={preferences.summarySchedule.dailyHour}
+                  onChange={(dailyHour) => updateSummarySchedule({ dailyHour })}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={preferences.summarySchedule.weeklyEnabled}
+                    onCheckedChange={(weeklyEnabled) => updateSummarySchedule({ weeklyEnabled })}
+                  />
+                  <div className="text-white/70 text-sm">Weekly on</div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={preferences.summarySchedule.weeklyDay.toString()}
+                    onValueChange={(day) =>
+                      updateSummarySchedule({ weeklyDay: Number.parseInt(day, 10) })
+                    }
+                  >
+                    <SelectTrigger className="w-32 bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-neutral-900/80 border-white/20">
+                      {weekdays.map((day, index) => (
+                        <SelectItem key={day} value={index.toString()}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <HourSelect
+                    value={preferences.summarySchedule.weeklyHour}
+                    onChange={(weeklyHour) => updateSummarySchedule({ weeklyHour })}
+                  />
+                </div>
+              </div>
+
+              <div className="text-xs text-white/50">
+                Times are in your configured timezone. A summary missed while the computer was
+                asleep is sent when it wakes.
+              </div>
+            </div>
+          </div>
+
+          {/* Notification Channels */}
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-2xl">📣</span>
+              <div>
+                <div className="text-white font-medium">Notification Channels</div>
+                <div className="text-white/60 text-sm">
+                  Forward alerts to Slack, Discord, a webhook or a shell command
+                </div>
+              </div>
+            </div>
+
+            <div className="ml-11">
+              <NotificationChannelsEditor
+                channels={preferences.notificationChannels}
+                onChange={(notificationChannels) => onUpdatePreferences({ notificationChannels })}
+              />
+            </div>
+          </div>
+
           {/* Auto Refresh */}
           {/* <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -116,8 +631,9 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   </div>
                 </div>
                 <Slider
-                  value={[preferences.refreshInterval]}
-                  onValueChange={(value) => handlePreferenceChange('refreshInterval', value[0])}
+                  key={preferences.refreshInterval}
+                  defaultValue={[preferences.refreshInterval]}
+                  onValueCommit={(value) => handlePreferenceChange('refreshInterval', value[0])}
                   min={15000}
                   max={300000}
                   step={15000}
@@ -235,29 +751,49 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
               <div className="grid grid-cols-2 gap-3">
                 <div>
-                  <div className="text-white/70 text-sm mb-1">Reset Hour</div>
+                  <div className="text-white/70 text-sm mb-1">Reset Mode</div>
                   <Select
-                    value={(preferences.resetHour || 0).toString()}
+                    value={profileSettings.resetMode}
                     onValueChange={(value) =>
-                      handlePreferenceChange('resetHour', Number.parseInt(value))
+                      updateProfileSettings({ resetMode: value as ProfileSettings['resetMode'] })
                     }
                   >
                     <SelectTrigger className="w-full bg-white/10 border-white/20 text-white">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent className="bg-neutral-900/80 border-white/20">
-                      {Array.from({ length: 24 }, (_, i) => (
-                        <SelectItem
-                          key={`reset-hour-${i.toString().padStart(2, '0')}`}
-                          value={i.toString()}
-                        >
-                          {i.toString().padStart(2, '0')}:00
-                        </SelectItem>
-                      ))}
+                      <SelectItem value="session">5-hour sessions</SelectItem>
+                      <SelectItem value="monthly">Monthly billing</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
+                {profileSettings.resetMode === 'monthly' && (
+                  <div>
+                    <div className="text-white/70 text-sm mb-1">Reset Hour</div>
+                    <Select
+                      value={(profileSettings.resetHour || 0).toString()}
+                      onValueChange={(value) =>
+                        updateProfileSettings({ resetHour: Number.parseInt(value) })
+                      }
+                    >
+                      <SelectTrigger className="w-full bg-white/10 border-white/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-neutral-900/80 border-white/20">
+                        {Array.from({ length: 24 }, (_, i) => (
+                          <SelectItem
+                            key={`reset-hour-${i.toString().padStart(2, '0')}`}
+                            value={i.toString()}
+                          >
+                            {i.toString().padStart(2, '0')}:00
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div>
                   <div className="text-white/70 text-sm mb-1">Current Time</div>
                   <div className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm">
@@ -287,6 +823,30 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               </div>
             </div>
           </div>
+
+          {/* Data Sources */}
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-2xl">🗂️</span>
+              <div>
+                <div className="text-white font-medium">Data Sources</div>
+                <div className="text-white/60 text-sm">
+                  Claude data directories to read usage from, e.g. one per account
+                </div>
+              </div>
+            </div>
+
+            <div className="ml-11">
+              <DataSourcesEditor
+                sources={profileSettings.dataSources}
+                stats={stats}
+                onChange={(dataSources) => updateProfileSettings({ dataSources })}
+              />
+            </div>
+          </div>
+
+          {/* Demo Mode */}
+          <DemoModeSettings preferences={preferences} onUpdatePreferences={onUpdatePreferences} />
         </CardContent>
       </Card>
     </div>
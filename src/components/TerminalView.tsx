@@ -22,14 +22,10 @@ export const TerminalView: React.FC<TerminalViewProps> = ({ stats, onRefresh, fo
     return () => clearTimeout(timer);
   }, [stats]);
 
-  const getTimeProgress = (): number => {
-    if (!stats.resetInfo?.timeUntilReset) return 0;
-    const totalCycleDuration = 24 * 60 * 60 * 1000;
-    const timeElapsed = totalCycleDuration - stats.resetInfo.timeUntilReset;
-    return Math.max(0, Math.min(100, (timeElapsed / totalCycleDuration) * 100));
-  };
+  const getTimeProgress = (): number => stats.resetInfo.percentUntilReset;
 
   const formatTimeUntilReset = (): string => {
+    if (stats.enhancedResetInfo) return stats.enhancedResetInfo.formattedTimeUntilReset;
     if (!stats.resetInfo?.timeUntilReset) return 'No reset info';
     const milliseconds = stats.resetInfo.timeUntilReset;
     const hours = Math.floor(milliseconds / (1000 * 60 * 60));
@@ -41,13 +37,21 @@ export const TerminalView: React.FC<TerminalViewProps> = ({ stats, onRefresh, fo
     return `${minutes}m`;
   };
 
+  const getResetLabel = () =>
+    stats.resetInfo.resetType === 'interval' ? 'SESSION PROGRESS:' : 'BILLING CYCLE:';
+
+  const getResetEmoji = () => (stats.enhancedResetInfo?.isInCriticalPeriod ? '⚠️' : '⏰');
+
   const getStatusEmoji = () => {
-    if (stats.percentageUsed >= 90) return '🔴';
-    if (stats.percentageUsed >= 70) return '🟡';
+    if (stats.status === 'critical') return '🔴';
+    if (stats.status === 'warning') return '🟡';
     return '🟢';
   };
 
+  const getHourlyBurnRate = () => stats.advancedBurnRate?.hourly ?? stats.burnRate;
+
   const getBurnRateEmoji = () => {
+    if (stats.advancedBurnRate) return stats.advancedBurnRate.velocity.emoji;
     if (stats.burnRate > 1000) return '🔥';
     if (stats.burnRate > 500) return '⚡';
     return '💤';
@@ -108,12 +112,12 @@ export const TerminalView: React.FC<TerminalViewProps> = ({ stats, onRefresh, fo
         </div>
       </div>
 
-      {/* TODO: Time Progress Section */}
-      {/* <div className="space-y-2">
+      {/* Time Progress Section */}
+      <div className="space-y-2">
         <div className="flex items-center gap-3">
-          <span className="text-blue-400">TIME PROGRESS:</span>
+          <span className="text-blue-400">{getResetLabel()}</span>
           <span className="text-white font-bold">{getTimeProgress().toFixed(1)}%</span>
-          <span className="text-2xl">⏰</span>
+          <span className="text-2xl">{getResetEmoji()}</span>
         </div>
 
         <div className="flex items-center gap-2">
@@ -124,14 +128,14 @@ export const TerminalView: React.FC<TerminalViewProps> = ({ stats, onRefresh, fo
           <span className="text-blue-500">]</span>
           <span className="text-gray-400 text-xs">{formatTimeUntilReset()} until reset</span>
         </div>
-      </div> */}
+      </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-2 gap-4 pt-2 border-t border-green-500/20">
         <div className="space-y-1">
           <div className="text-orange-400 text-xs">BURN RATE:</div>
           <div className="flex items-center gap-2">
-            <span className="text-white font-bold">{formatNumber(stats.burnRate)}</span>
+            <span className="text-white font-bold">{formatNumber(getHourlyBurnRate())}</span>
             <span className="text-gray-400 text-xs">tokens/hr</span>
             <span className="text-lg">{getBurnRateEmoji()}</span>
           </div>
@@ -141,7 +145,9 @@ export const TerminalView: React.FC<TerminalViewProps> = ({ stats, onRefresh, fo
           <div className="text-purple-400 text-xs">PLAN:</div>
           <div className="flex items-center gap-2">
             <span className="text-white font-bold">{stats.currentPlan}</span>
-            <span className="text-gray-400 text-xs">auto-detected</span>
+            <span className="text-gray-400 text-xs">
+              {stats.planManager?.autoSwitchEnabled === false ? 'pinned' : 'auto-detected'}
+            </span>
             <span className="text-lg">📊</span>
           </div>
         </div>
@@ -214,6 +220,20 @@ export const TerminalView: React.FC<TerminalViewProps> = ({ stats, onRefresh, fo
               </span>
             </div>
           </div>
+          {stats.advancedBurnRate && (
+            <div className="flex items-center gap-4 mt-1">
+              <div className="flex items-center gap-2">
+                <span className="text-gray-400 text-xs">Last hour:</span>
+                <span className="text-white">
+                  {stats.advancedBurnRate.velocity.classification.replace('_', ' ')}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-gray-400 text-xs">Confidence:</span>
+                <span className="text-white">{stats.advancedBurnRate.confidence}%</span>
+              </div>
+            </div>
+          )}
         </div>
       )}
       {/* Command Line Interface */}
@@ -241,9 +261,9 @@ export const TerminalView: React.FC<TerminalViewProps> = ({ stats, onRefresh, fo
         <div className="flex justify-between">
           <span>
             System:{' '}
-            {stats.percentageUsed >= 90
+            {stats.status === 'critical'
               ? 'CRITICAL'
-              : stats.percentageUsed >= 70
+              : stats.status === 'warning'
                 ? 'WARNING'
                 : 'NORMAL'}
           </span>
@@ -0,0 +1,30 @@
+/**
+ * Run load now and again whenever the main process reports refreshed usage, handing each
+ * result to onLoad until the returned cleanup runs. Only the latest load's result is kept.
+ */
+export function loadOnUsageUpdate<T>(
+  load: () => Promise<T>,
+  onLoad: (result: T) => void,
+  onError: (error: unknown) => void
+): () => void {
+  let latest = 0;
+  let active = true;
+
+  const run = () => {
+    const request = ++latest;
+    load()
+      .then((result) => {
+        if (active && request === latest) onLoad(result);
+      })
+      .catch((error) => {
+        if (active && request === latest) onError(error);
+      });
+  };
+
+  run();
+  window.electronAPI?.onUsageUpdated(run);
+  return () => {
+    active = false;
+    window.electronAPI?.removeUsageUpdatedListener(run);
+  };
+}
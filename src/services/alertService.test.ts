@@ -0,0 +1,90 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { AlertRule, UsageStats } from '../types/usage.js';
+import { AlertService } from './alertService.js';
+
+const MINUTE_MS = 60 * 1000;
+const start = Date.UTC(2026, 9, 18, 10);
+
+const rule = (changes: Partial<AlertRule>): AlertRule => ({
+  id: 'rule',
+  name: 'Usage high',
+  enabled: true,
+  metric: 'percentageUsed',
+  threshold: 80,
+  durationMinutes: 0,
+  cooldownMinutes: 0,
+  severity: 'warning',
+  message: '{percentageUsed}% used',
+  ...changes,
+});
+
+/**
+ * Usage stats with only the fields alert rules read filled in meaningfully
+ */
+const stats = (percentageUsed: number, burnRate = 0): UsageStats =>
+  ({
+    today: { date: '2026-10-18', totalTokens: 0, totalCost: 0, models: {} },
+    burnRate,
+    prediction: { depletionTime: null },
+    resetInfo: { nextResetTime: new Date(start + 5 * 60 * MINUTE_MS).toISOString() },
+    tokenLimit: 10000,
+    tokensUsed: percentageUsed * 100,
+    tokensRemaining: 10000 - percentageUsed * 100,
+    percentageUsed,
+  }) as UsageStats;
+
+const at = (minutes: number) => start + minutes * MINUTE_MS;
+
+describe('AlertService', () => {
+  test('fires once the condition has held for durationMinutes, then not again while it holds', () => {
+    const service = new AlertService();
+    service.setRules([rule({ durationMinutes: 10 })]);
+
+    assert.deepEqual(service.evaluate(stats(85), at(0)), []);
+    assert.deepEqual(service.evaluate(stats(85), at(9)), []);
+    const [alert] = service.evaluate(stats(85), at(10));
+    assert.equal(alert.ruleId, 'rule');
+    assert.equal(alert.message, '85% used');
+    assert.deepEqual(service.evaluate(stats(90), at(11)), []);
+
+    // Dropping below the threshold restarts the duration
+    assert.deepEqual(service.evaluate(stats(50), at(12)), []);
+    assert.deepEqual(service.evaluate(stats(85), at(13)), []);
+    assert.equal(service.evaluate(stats(85), at(23)).length, 1);
+  });
+
+  test('does not fire again within the cooldown after the condition clears', () => {
+    const service = new AlertService();
+    service.setRules([rule({ cooldownMinutes: 30 })]);
+
+    assert.equal(service.evaluate(stats(85), at(0)).length, 1);
+    assert.deepEqual(service.evaluate(stats(50), at(5)), []);
+    assert.deepEqual(service.evaluate(stats(85), at(10)), []);
+    assert.deepEqual(service.evaluate(stats(85), at(29)), []);
+    assert.equal(service.evaluate(stats(85), at(30)).length, 1);
+  });
+
+  test('returns only the most severe rule per metric when several fire together', () => {
+    const service = new AlertService();
+    service.setRules([
+      rule({ id: 'low', threshold: 70, severity: 'warning' }),
+      rule({ id: 'high', threshold: 90, severity: 'critical' }),
+      rule({ id: 'info', threshold: 50, severity: 'info' }),
+      rule({ id: 'burn', metric: 'burnRate', threshold: 1000, severity: 'info' }),
+    ]);
+
+    const alerts = service.evaluate(stats(95, 5000), at(0));
+    assert.deepEqual(alerts.map((alert) => alert.ruleId).sort(), ['burn', 'high']);
+    assert.equal(alerts.find((alert) => alert.ruleId === 'high')?.severity, 'critical');
+  });
+
+  test('rules with a thresholdLevel follow the warning thresholds', () => {
+    const service = new AlertService();
+    service.setRules([rule({ threshold: 0, thresholdLevel: 'high' })]);
+    service.setWarningThresholds({ low: 60, high: 75 });
+
+    assert.deepEqual(service.evaluate(stats(70), at(0)), []);
+    assert.equal(service.evaluate(stats(80), at(1)).length, 1);
+  });
+});
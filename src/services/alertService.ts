@@ -0,0 +1,271 @@
+import type {
+  AlertMetric,
+  AlertRule,
+  AlertSeverity,
+  TriggeredAlert,
+  UsageStats,
+  WarningThresholds,
+} from '../types/usage.js';
+
+const MINUTE_MS = 60 * 1000;
+const SESSION_DURATION_MS = 5 * 60 * 60 * 1000;
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  critical: '🚨',
+};
+
+export const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'usage-warning',
+    name: 'Usage Warning',
+    enabled: true,
+    metric: 'percentageUsed',
+    threshold: 70,
+    thresholdLevel: 'low',
+    durationMinutes: 0,
+    cooldownMinutes: 5,
+    severity: 'warning',
+    message: "You've used {percentageUsed}% of your tokens. Monitor your usage carefully.",
+  },
+  {
+    id: 'usage-critical',
+    name: 'Usage Critical',
+    enabled: true,
+    metric: 'percentageUsed',
+    threshold: 90,
+    thresholdLevel: 'high',
+    durationMinutes: 0,
+    cooldownMinutes: 5,
+    severity: 'critical',
+    message: "You've used {percentageUsed}% of your tokens. Consider upgrading your plan.",
+  },
+  {
+    id: 'high-burn-rate',
+    name: 'High Burn Rate',
+    enabled: false,
+    metric: 'burnRate',
+    threshold: 20000,
+    durationMinutes: 15,
+    cooldownMinutes: 60,
+    severity: 'warning',
+    message: 'Burning {burnRate} tokens/hour for over {durationMinutes} minutes.',
+  },
+  {
+    id: 'depletion-before-reset',
+    name: 'Depletion Before Reset',
+    enabled: false,
+    metric: 'depletionBeforeReset',
+    threshold: 0,
+    durationMinutes: 0,
+    cooldownMinutes: 60,
+    severity: 'warning',
+    message: 'At this pace tokens run out at {depletionTime}, before the reset at {resetTime}.',
+  },
+  {
+    id: 'daily-cost',
+    name: 'Daily Cost',
+    enabled: false,
+    metric: 'dailyCost',
+    threshold: 10,
+    durationMinutes: 0,
+    cooldownMinutes: 720,
+    severity: 'info',
+    message: "Today's usage has reached ${dailyCost}.",
+  },
+  {
+    id: 'session-ending',
+    name: 'Session Ending',
+    enabled: false,
+    metric: 'sessionEndsIn',
+    threshold: 15,
+    durationMinutes: 0,
+    cooldownMinutes: 60,
+    severity: 'info',
+    message: 'Your 5-hour session ends in {minutesUntilSessionEnd} minutes.',
+  },
+];
+
+interface RuleState {
+  conditionSince: number | null; // when the condition started holding
+  fired: boolean; // already fired while the condition has held
+  lastFiredAt: number | null;
+}
+
+/**
+ * Evaluates user-defined alert rules against each usage refresh.
+ * A rule fires once when its condition starts holding (after durationMinutes),
+ * re-arms when the condition clears, and never fires twice within its cooldown.
+ */
+export class AlertService {
+  private static instance: AlertService;
+  private rules: AlertRule[] = DEFAULT_ALERT_RULES;
+  private states = new Map<string, RuleState>();
+  private warningThresholds: WarningThresholds = { low: 70, high: 90 };
+
+  static getInstance(): AlertService {
+    if (!AlertService.instance) {
+      AlertService.instance = new AlertService();
+    }
+    return AlertService.instance;
+  }
+
+  /**
+   * Replace the rule set, forgetting the state of rules that were removed or edited
+   */
+  setRules(rules: AlertRule[]): void {
+    const previous = new Map(this.rules.map((rule) => [rule.id, JSON.stringify(rule)]));
+    for (const id of [...this.states.keys()]) {
+      const rule = rules.find((r) => r.id === id);
+      if (!rule || previous.get(id) !== JSON.stringify(rule)) {
+        this.states.delete(id);
+      }
+    }
+    this.rules = rules;
+  }
+
+  /**
+   * Thresholds used by rules with a thresholdLevel instead of their own threshold
+   */
+  setWarningThresholds(thresholds: WarningThresholds): void {
+    this.warningThresholds = thresholds;
+  }
+
+  /**
+   * Forget which rules have fired, e.g. when the timeline jumps during a replay
+   */
+  reset(): void {
+    this.states.clear();
+  }
+
+  /**
+   * Alerts that fire for this snapshot. When several rules on the same metric fire
+   * together (e.g. usage jumps past both 70% and 90%), only the most severe is returned.
+   */
+  evaluate(stats: UsageStats, now = Date.now()): TriggeredAlert[] {
+    const fired: AlertRule[] = [];
+
+    for (const rule of this.rules) {
+      if (rule.enabled && this.shouldFire(rule, stats, now)) {
+        fired.push(rule);
+      }
+    }
+
+    const mostSevere = new Map<AlertMetric, AlertRule>();
+    for (const rule of fired) {
+      const current = mostSevere.get(rule.metric);
+      if (!current || SEVERITY_RANK[rule.severity] > SEVERITY_RANK[current.severity]) {
+        mostSevere.set(rule.metric, rule);
+      }
+    }
+
+    return [...mostSevere.values()].map((rule) => ({
+      ruleId: rule.id,
+      title: `${SEVERITY_ICONS[rule.severity]} CCSeva: ${rule.name}`,
+      message: this.renderMessage(rule, stats, now),
+      severity: rule.severity,
+      timestamp: new Date(now).toISOString(),
+    }));
+  }
+
+  /**
+   * Advance a rule's state for this snapshot, returning true when it fires
+   */
+  private shouldFire(rule: AlertRule, stats: UsageStats, now: number): boolean {
+    const state = this.states.get(rule.id) ?? {
+      conditionSince: null,
+      fired: false,
+      lastFiredAt: null,
+    };
+    this.states.set(rule.id, state);
+
+    if (!this.isConditionMet(rule, stats, now)) {
+      state.conditionSince = null;
+      state.fired = false;
+      return false;
+    }
+
+    state.conditionSince ??= now;
+    if (state.fired) return false;
+    if (now - state.conditionSince < rule.durationMinutes * MINUTE_MS) return false;
+    if (state.lastFiredAt !== null && now - state.lastFiredAt < rule.cooldownMinutes * MINUTE_MS) {
+      return false;
+    }
+
+    state.fired = true;
+    state.lastFiredAt = now;
+    return true;
+  }
+
+  private isConditionMet(rule: AlertRule, stats: UsageStats, now: number): boolean {
+    switch (rule.metric) {
+      case 'percentageUsed':
+        return stats.percentageUsed >= this.getThreshold(rule);
+      case 'burnRate':
+        return stats.burnRate >= rule.threshold;
+      case 'dailyCost':
+        return stats.today.totalCost >= rule.threshold;
+      case 'depletionBeforeReset': {
+        const depletion = stats.prediction.depletionTime;
+        return (
+          depletion !== null &&
+          new Date(depletion).getTime() < new Date(stats.resetInfo.nextResetTime).getTime()
+        );
+      }
+      case 'sessionEndsIn': {
+        const sessionEnd = this.getSessionEnd(stats);
+        if (sessionEnd === null) return false;
+        const remaining = sessionEnd - now;
+        return remaining > 0 && remaining <= rule.threshold * MINUTE_MS;
+      }
+    }
+  }
+
+  private getThreshold(rule: AlertRule): number {
+    return rule.thresholdLevel ? this.warningThresholds[rule.thresholdLevel] : rule.threshold;
+  }
+
+  private getSessionEnd(stats: UsageStats): number | null {
+    const session = stats.sessionTracking?.currentSession;
+    if (!session?.isActive) return null;
+    return new Date(session.startTime).getTime() + SESSION_DURATION_MS;
+  }
+
+  /**
+   * Fill {placeholders} in the rule's message; unknown placeholders are left as written
+   */
+  private renderMessage(rule: AlertRule, stats: UsageStats, now: number): string {
+    const sessionEnd = this.getSessionEnd(stats);
+    const formatTime = (time: string | null) =>
+      time ? new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'n/a';
+
+    const values: Record<string, string> = {
+      percentageUsed: Math.round(stats.percentageUsed).toString(),
+      tokensUsed: stats.tokensUsed.toLocaleString(),
+      tokenLimit: stats.tokenLimit.toLocaleString(),
+      tokensRemaining: stats.tokensRemaining.toLocaleString(),
+      burnRate: Math.round(stats.burnRate).toLocaleString(),
+      dailyCost: stats.today.totalCost.toFixed(2),
+      depletionTime: formatTime(stats.prediction.depletionTime),
+      resetTime: formatTime(stats.resetInfo.nextResetTime),
+      minutesUntilSessionEnd:
+        sessionEnd !== null
+          ? Math.max(0, Math.round((sessionEnd - now) / MINUTE_MS)).toString()
+          : 'n/a',
+      threshold: this.getThreshold(rule).toString(),
+      durationMinutes: rule.durationMinutes.toString(),
+    };
+
+    return rule.message.replace(
+      /\{(\w+)\}/g,
+      (placeholder, key: string) => values[key] ?? placeholder
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import type { AdvancedBurnRate, BurnRateClassification } from '../types/usage.js';
+import type { LoadedUsageEntry, SessionBlock } from './logIngester.js';
+
+const MINUTE_MS = 60 * 1000;
+const CURRENT_WINDOW_MINUTES = 15;
+const HOURLY_WINDOW_MINUTES = 60;
+const TREND_WINDOW_MINUTES = 30;
+const STABLE_TREND_PERCENT = 15; // same band VelocityInfo uses for its trend
+const SESSION_HOURS = 5;
+const FULL_CONFIDENCE_ENTRIES = 20; // entries in the last hour for a fully sampled rate
+
+// Upper bound of each class, as the share of the token limit the hourly rate would use in a session
+const CLASSIFICATIONS: Array<{
+  classification: BurnRateClassification;
+  emoji: string;
+  maxShare: number;
+}> = [
+  { classification: 'slow', emoji: '🐌', maxShare: 0.5 },
+  { classification: 'normal', emoji: '➡️', maxShare: 1 },
+  { classification: 'fast', emoji: '🚀', maxShare: 2 },
+  { classification: 'very_fast', emoji: '⚡', maxShare: Number.POSITIVE_INFINITY },
+];
+
+function getEntryTokens(entry: LoadedUsageEntry): number {
+  return (
+    entry.usage.inputTokens +
+    entry.usage.outputTokens +
+    entry.usage.cacheCreationInputTokens +
+    entry.usage.cacheReadInputTokens
+  );
+}
+
+/**
+ * Burn rate analysis from per-entry timestamps rather than whole-block averages
+ */
+export class BurnRateAnalyzer {
+  private static instance: BurnRateAnalyzer;
+
+  static getInstance(): BurnRateAnalyzer {
+    if (!BurnRateAnalyzer.instance) {
+      BurnRateAnalyzer.instance = new BurnRateAnalyzer();
+    }
+    return BurnRateAnalyzer.instance;
+  }
+
+  /**
+   * Rates, trend and velocity class from the entries of the last hour.
+   * The class compares what the hourly rate would use over a full 5-hour session to the limit.
+   */
+  analyze(blocks: SessionBlock[], tokenLimit: number, now = new Date()): AdvancedBurnRate {
+    const hourStart = now.getTime() - HOURLY_WINDOW_MINUTES * MINUTE_MS;
+    const entries = blocks
+      .filter((block) => !block.isGap)
+      .flatMap((block) => block.entries)
+      .filter((entry) => {
+        const time = entry.timestamp.getTime();
+        return time >= hourStart && time <= now.getTime();
+      });
+
+    const hourly = this.sumTokensSince(entries, now, HOURLY_WINDOW_MINUTES);
+    const current =
+      this.sumTokensSince(entries, now, CURRENT_WINDOW_MINUTES) / CURRENT_WINDOW_MINUTES;
+
+    const sessionShare = tokenLimit > 0 ? (hourly * SESSION_HOURS) / tokenLimit : 0;
+    const { classification, emoji } =
+      CLASSIFICATIONS.find((option) => sessionShare < option.maxShare) ??
+      CLASSIFICATIONS[CLASSIFICATIONS.length - 1];
+
+    return {
+      current: Math.round(current),
+      hourly: Math.round(hourly),
+      trend: this.calculateTrend(entries, now),
+      velocity: { classification, emoji },
+      confidence: this.calculateConfidence(entries, now),
+    };
+  }
+
+  private sumTokensSince(entries: LoadedUsageEntry[], now: Date, minutes: number): number {
+    const since = now.getTime() - minutes * MINUTE_MS;
+    return entries
+      .filter((entry) => entry.timestamp.getTime() >= since)
+      .reduce((sum, entry) => sum + getEntryTokens(entry), 0);
+  }
+
+  /**
+   * Compare the last 30 minutes with the 30 minutes before them
+   */
+  private calculateTrend(entries: LoadedUsageEntry[], now: Date): AdvancedBurnRate['trend'] {
+    const recent = this.sumTokensSince(entries, now, TREND_WINDOW_MINUTES);
+    const previous = this.sumTokensSince(entries, now, TREND_WINDOW_MINUTES * 2) - recent;
+
+    if (previous === 0) {
+      return recent > 0
+        ? { direction: 'increasing', percentage: 100 }
+        : { direction: 'stable', percentage: 0 };
+    }
+
+    const percentage = Math.round(((recent - previous) / previous) * 1000) / 10;
+    if (Math.abs(percentage) <= STABLE_TREND_PERCENT) {
+      return { direction: 'stable', percentage };
+    }
+    return { direction: percentage > 0 ? 'increasing' : 'decreasing', percentage };
+  }
+
+  /**
+   * More entries, spread over more of the hour, give a more trustworthy rate
+   */
+  private calculateConfidence(entries: LoadedUsageEntry[], now: Date): number {
+    if (entries.length === 0) return 0;
+
+    const earliest = entries.reduce(
+      (min, entry) => Math.min(min, entry.timestamp.getTime()),
+      now.getTime()
+    );
+    const coverage = Math.min(1, (now.getTime() - earliest) / (HOURLY_WINDOW_MINUTES * MINUTE_MS));
+    const sampling = Math.min(1, entries.length / FULL_CONFIDENCE_ENTRIES);
+
+    return Math.round((sampling * 0.6 + coverage * 0.4) * 100);
+  }
+}
@@ -1,35 +1,43 @@
-import { loadDailyUsageData, loadSessionBlockData } from 'ccusage/data-loader';
+import { formatDate } from 'ccusage/data-loader';
+import { toZonedTime } from 'date-fns-tz';
 import type {
+  CCUsageBlock,
+  ConversationUsage,
   DailyUsage,
+  DataSourceConfig,
+  DataSourceDiagnostics,
+  DataSourceStatus,
+  DepletionForecast,
+  HeatmapCell,
   MenuBarData,
+  PeriodUsage,
   PredictionInfo,
+  ProjectUsage,
   ResetTimeInfo,
+  SourceUsage,
+  UsageHeatmap,
   UsageStats,
+  UsageStatus,
   UserConfiguration,
   VelocityInfo,
 } from '../types/usage.js';
+import { type Clock, systemClock } from '../utils/clock.js';
+import { BurnRateAnalyzer } from './burnRateAnalyzer.js';
+import { ForecastService } from './forecastService.js';
+import { HistoryStore } from './historyStore.js';
+import {
+  type DailyDataEntry,
+  type LoadedUsageEntry,
+  LogIngester,
+  type ModelBreakdown,
+  type ProjectDataEntry,
+  type SessionBlock,
+  type SourceDataEntry,
+} from './logIngester.js';
+import { type PlanDetectionResult, PlanDetectionService } from './planDetectionService.js';
 import { ResetTimeService } from './resetTimeService.js';
 import { SessionTracker } from './sessionTracker.js';
 
-interface ModelBreakdown {
-  modelName: string;
-  inputTokens: number;
-  outputTokens: number;
-  cacheCreationTokens: number;
-  cacheReadTokens: number;
-  cost: number;
-}
-
-interface DailyDataEntry {
-  date: string;
-  inputTokens: number;
-  outputTokens: number;
-  cacheCreationTokens: number;
-  cacheReadTokens: number;
-  totalCost: number;
-  modelBreakdowns: ModelBreakdown[];
-}
-
 interface UsageDataItem {
   date: string;
   inputTokens?: number;
@@ -40,54 +48,62 @@ interface UsageDataItem {
   modelBreakdowns?: ModelBreakdown[];
 }
 
-// Define SessionBlock interface matching ccusage package structure
-interface LoadedUsageEntry {
-  timestamp: Date;
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
-    cacheCreationInputTokens: number;
-    cacheReadInputTokens: number;
-  };
-  costUSD: number | null;
-  model: string;
-  version?: string;
-}
+// Stats as computed, before the data source status is attached
+type LoadedStats = Omit<UsageStats, 'dataSource'>;
 
-interface TokenCounts {
-  inputTokens: number;
-  outputTokens: number;
-  cacheCreationInputTokens: number;
-  cacheReadInputTokens: number;
+// Project and source of replayed entries rebuilt from stored blocks
+const STORED_HISTORY_LABEL = 'Stored history';
+
+export interface ReplaySource {
+  ingester: LogIngester; // holds the entries replayed up to the virtual time
+  clock: Clock; // the replay's virtual time
+  describe: () => string; // shown as the data source reason
 }
 
-interface SessionBlock {
-  id: string;
-  startTime: Date;
-  endTime: Date;
-  actualEndTime?: Date;
-  isActive: boolean;
-  isGap?: boolean;
-  entries: LoadedUsageEntry[];
-  tokenCounts: TokenCounts;
-  costUSD: number;
-  models: string[];
+/**
+ * The services holding one Claude account's state. The default profile uses the singletons,
+ * every other profile its own set.
+ */
+export interface AccountServices {
+  resetTimeService: ResetTimeService;
+  sessionTracker: SessionTracker;
+  planDetectionService: PlanDetectionService;
+  historyStore: HistoryStore;
+  logIngester: LogIngester;
 }
 
 export class CCUsageService {
   private static instance: CCUsageService;
-  private cachedStats: UsageStats | null = null;
-  private lastUpdate = 0;
-  private readonly CACHE_DURATION = 3000; // 3 seconds like Python script
   private resetTimeService: ResetTimeService;
   private sessionTracker: SessionTracker;
+  private planDetectionService: PlanDetectionService;
+  private historyStore: HistoryStore;
+  private logIngester: LogIngester;
+  private burnRateAnalyzer: BurnRateAnalyzer;
+  private forecastService: ForecastService;
   private historicalBlocks: SessionBlock[] = []; // Store session blocks for analysis
   private currentPlan: 'Pro' | 'Max5' | 'Max20' | 'Custom' = 'Pro';
+  private planSetting: UserConfiguration['plan'] = 'auto';
+  private customTokenLimit: number | undefined;
   private detectedTokenLimit = 7000;
-
-  constructor() {
-    this.resetTimeService = ResetTimeService.getInstance();
-    this.sessionTracker = SessionTracker.getInstance();
+  private lastLiveStats: UsageStats | null = null; // served as stale when a later load fails
+  private dataSourceStatus: DataSourceStatus = { state: 'error', lastSuccessfulLoad: null };
+  private demoSource: string | null = null; // fixture directory when running in demo mode
+  private replay: ReplaySource | null = null; // set on services built to play past entries
+  private clock: Clock;
+
+  constructor(services?: AccountServices, clock = systemClock) {
+    this.clock = clock;
+    this.resetTimeService = services?.resetTimeService ?? ResetTimeService.getInstance();
+    this.sessionTracker = services?.sessionTracker ?? SessionTracker.getInstance();
+    this.planDetectionService =
+      services?.planDetectionService ?? PlanDetectionService.getInstance();
+    this.historyStore = services?.historyStore ?? HistoryStore.getInstance();
+    this.logIngester = services?.logIngester ?? LogIngester.getInstance();
+    this.burnRateAnalyzer = BurnRateAnalyzer.getInstance();
+    this.forecastService = services
+      ? new ForecastService(this.historyStore, this.resetTimeService)
+      : ForecastService.getInstance();
   }
 
   static getInstance(): CCUsageService {
@@ -97,80 +113,273 @@ export class CCUsageService {
     return CCUsageService.instance;
   }
 
+  /**
+   * A service with its own logs, plan, resets, sessions and history, for a profile
+   * other than the default one
+   */
+  static createIsolated(): CCUsageService {
+    return new CCUsageService({
+      resetTimeService: new ResetTimeService(),
+      sessionTracker: new SessionTracker(),
+      planDetectionService: new PlanDetectionService(),
+      historyStore: new HistoryStore(),
+      logIngester: new LogIngester(),
+    });
+  }
+
+  /**
+   * A service that plays past entries through this one's pipeline on the replay's clock.
+   * It has its own sessions and reset timing and reads this one's plan and stored history
+   * without writing to either, so live stats and exports never see replayed windows.
+   */
+  createReplay(replay: ReplaySource): CCUsageService {
+    const service = new CCUsageService(
+      {
+        resetTimeService: new ResetTimeService(
+          this.resetTimeService.getConfiguration(),
+          replay.clock
+        ),
+        sessionTracker: new SessionTracker(replay.clock),
+        planDetectionService: this.planDetectionService,
+        historyStore: this.historyStore,
+        logIngester: replay.ingester,
+      },
+      replay.clock
+    );
+    service.replay = replay;
+    service.currentPlan = this.currentPlan;
+    service.planSetting = this.planSetting;
+    service.customTokenLimit = this.customTokenLimit;
+    service.detectedTokenLimit = this.detectedTokenLimit;
+    return service;
+  }
+
+  /**
+   * Past usage for a replay, oldest first: every entry still in the logs, plus one entry for
+   * each stored block whose logs were pruned. History only keeps a block's totals, so such a
+   * block replays all at once at its start, under its first model.
+   */
+  getReplayTimeline(): LoadedUsageEntry[] {
+    const restored = this.getPrunedBlocks().map(
+      (block): LoadedUsageEntry => ({
+        timestamp: new Date(block.startTime),
+        usage: {
+          inputTokens: block.tokenCounts?.inputTokens ?? 0,
+          outputTokens: block.tokenCounts?.outputTokens ?? 0,
+          cacheCreationInputTokens: block.tokenCounts?.cacheCreationInputTokens ?? 0,
+          cacheReadInputTokens: block.tokenCounts?.cacheReadInputTokens ?? 0,
+        },
+        costUSD: block.costUSD ?? null,
+        model: block.models?.[0] ?? 'unknown',
+        projectPath: STORED_HISTORY_LABEL,
+        sessionId: this.historyStore.getBlockKey(block),
+        source: STORED_HISTORY_LABEL,
+      })
+    );
+    return [...restored, ...this.logIngester.getEntries()].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+  }
+
+  /**
+   * Local dates (YYYY-MM-DD) with usage to replay, newest first
+   */
+  getReplayDays(): string[] {
+    const days = new Set(this.logIngester.getDailyData().map((daily) => daily.date));
+    for (const block of this.getPrunedBlocks()) {
+      days.add(formatDate(block.startTime));
+    }
+    return [...days].sort((a, b) => b.localeCompare(a));
+  }
+
+  /**
+   * Stored blocks whose source logs have since been pruned, oldest first
+   */
+  private getPrunedBlocks(): CCUsageBlock[] {
+    const loggedKeys = new Set(this.logIngester.getSessionBlocks().map((block) => block.id));
+    return this.historyStore
+      .getCompletedBlocks()
+      .filter((block) => !loggedKeys.has(this.historyStore.getBlockKey(block)));
+  }
+
+  getLogIngester(): LogIngester {
+    return this.logIngester;
+  }
+
+  getSessionTracker(): SessionTracker {
+    return this.sessionTracker;
+  }
+
+  private now(): Date {
+    return new Date(this.clock());
+  }
+
+  /**
+   * Set where persistent data (plan history, usage history) is stored, and whether to write it
+   */
+  setStorageDirectory(directory: string, readOnly = false): void {
+    this.planDetectionService.setStorageDirectory(directory, readOnly);
+    this.historyStore.setStorageDirectory(directory, readOnly);
+  }
+
   updateConfiguration(config: Partial<UserConfiguration>): void {
     this.resetTimeService.updateConfiguration(config);
-    if (config.plan) {
-      this.currentPlan = config.plan === 'auto' ? 'Custom' : config.plan;
+    if ('customTokenLimit' in config) {
+      this.customTokenLimit = config.customTokenLimit;
+    }
+    if (config.plan && config.plan !== this.planSetting) {
+      const lastRecordedPlan = this.planDetectionService.getLastSwitch('manual')?.toPlan;
+      if (lastRecordedPlan !== config.plan) {
+        this.planDetectionService.recordSwitch(
+          lastRecordedPlan ?? this.planSetting,
+          config.plan,
+          'manual'
+        );
+      }
+      this.planSetting = config.plan;
+      // Returning to auto restarts detection from the smallest plan
+      this.currentPlan = config.plan === 'auto' ? 'Pro' : config.plan;
     }
-    // Clear cache to force recalculation with new config
-    this.cachedStats = null;
   }
 
-  async getUsageStats(): Promise<UsageStats> {
-    const now = Date.now();
+  /**
+   * Demo mode: read prepared fixture logs instead of the user's Claude directories.
+   * The stats are labelled as mock data so they are never mistaken for real usage.
+   */
+  useDemoData(claudeDirectory: string, source: string): void {
+    this.logIngester.setDataDirectories([claudeDirectory]);
+    this.demoSource = source;
+    this.lastLiveStats = null;
+  }
 
-    // Return cached data if it's still fresh
-    if (this.cachedStats && now - this.lastUpdate < this.CACHE_DURATION) {
-      return this.cachedStats;
-    }
+  /**
+   * Claude data directories from Settings, read alongside the ones ccusage finds
+   * unless discover is false
+   */
+  setDataSources(sources: DataSourceConfig[], discover = true): void {
+    this.logIngester.setDataSources(sources, discover);
+  }
 
+  async getUsageStats(): Promise<UsageStats> {
     try {
-      // Get both session blocks and daily data for complete information
-      const [blocks, dailyData] = await Promise.all([
-        loadSessionBlockData({
-          sessionDurationHours: 5, // Claude uses 5-hour sessions
-          mode: 'calculate', // Calculate costs from tokens for accuracy
-        }),
-        loadDailyUsageData({
-          mode: 'calculate', // Calculate costs from tokens
-        }),
-      ]);
-
-      if (!blocks || blocks.length === 0) {
-        console.error('No blocks data received');
-        return this.getMockStats();
+      const ingester = await this.getActiveIngester();
+      const blocks = ingester.getSessionBlocks();
+      const dailyData = ingester.getDailyData();
+      const projectData = ingester.getProjectData();
+      const sourceData = ingester.getSourceData();
+
+      // Before its first entry a replay has nothing to show, which isn't a failure
+      if (blocks.length === 0 && !this.replay) {
+        return this.getUnavailableStats(
+          'No Claude Code usage found in the scanned data directories'
+        );
       }
 
-      const stats = this.parseBlocksData(blocks, dailyData);
-
-      this.cachedStats = stats;
-      this.lastUpdate = now;
+      const loaded = this.parseBlocksData(blocks, dailyData, projectData, sourceData);
       this.historicalBlocks = blocks;
+      const lastSuccessfulLoad = new Date().toISOString();
+      if (this.replay) {
+        // Replayed stats never become the fallback for a failed live load
+        this.dataSourceStatus = {
+          state: 'replay',
+          reason: this.replay.describe(),
+          lastSuccessfulLoad,
+        };
+        return { ...loaded, dataSource: this.dataSourceStatus };
+      }
+      this.dataSourceStatus = this.demoSource
+        ? {
+            state: 'mock',
+            reason: `Demo mode, using logs from ${this.demoSource}`,
+            lastSuccessfulLoad,
+          }
+        : { state: 'live', lastSuccessfulLoad };
+      this.lastLiveStats = { ...loaded, dataSource: this.dataSourceStatus };
 
-      return stats;
+      return this.lastLiveStats;
     } catch (error) {
       console.error('Error fetching usage stats:', error);
-      console.log('Falling back to mock data for development/testing');
+      return this.getUnavailableStats(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * The ingester with current entries. A replay's is fed by the replay; for the real logs only
+   * lines appended since the last call are parsed, and blocks and daily totals update in place.
+   */
+  private async getActiveIngester(): Promise<LogIngester> {
+    if (this.replay) return this.logIngester;
+    await this.logIngester.ingest();
+    return this.logIngester;
+  }
+
+  /**
+   * Stats to show when the logs couldn't be loaded: the last good stats marked stale,
+   * or zeros marked as an error. Never presented as live.
+   */
+  private getUnavailableStats(reason: string): UsageStats {
+    const { lastSuccessfulLoad } = this.dataSourceStatus;
 
-      // Return mock data for development/testing
-      return this.getMockStats();
+    if (this.lastLiveStats) {
+      this.dataSourceStatus = { state: 'stale', reason, lastSuccessfulLoad };
+      return { ...this.lastLiveStats, dataSource: this.dataSourceStatus };
     }
+    this.dataSourceStatus = { state: 'error', reason, lastSuccessfulLoad };
+    return { ...this.getDefaultStats(), dataSource: this.dataSourceStatus };
+  }
+
+  /**
+   * Where the data comes from: the current status and what the last log scan found
+   */
+  getDataSourceDiagnostics(): DataSourceDiagnostics {
+    return { status: this.dataSourceStatus, ...this.logIngester.getDiagnostics() };
   }
 
   /**
    * Parse blocks data similar to Python implementation
    */
-  private parseBlocksData(blocks: SessionBlock[], dailyData?: DailyDataEntry[]): UsageStats {
+  private parseBlocksData(
+    blocks: SessionBlock[],
+    dailyData?: DailyDataEntry[],
+    projectData: ProjectDataEntry[] = [],
+    sourceData: SourceDataEntry[] = []
+  ): LoadedStats {
     // Find active block
     const activeBlock = blocks.find((block) => block.isActive && !block.isGap);
+    const tokensUsed = activeBlock ? this.getTotalTokensFromBlock(activeBlock) : 0;
 
-    if (!activeBlock) {
-      console.log('No active session found');
-      return this.getDefaultStats();
+    // Detect the plan from the full history of completed blocks
+    const detection = this.planDetectionService.detect(
+      this.getCompletedBlockTotals(blocks),
+      tokensUsed
+    );
+
+    if (this.planSetting !== 'auto') {
+      // A manually pinned plan is never auto-switched
+      this.detectedTokenLimit = this.getPinnedTokenLimit(blocks);
+    } else if (!this.replay) {
+      // A replay keeps the plan in effect when it started
+      this.applyDetectedPlan(detection, tokensUsed);
     }
 
-    // Get tokens from active session
-    const tokensUsed = this.getTotalTokensFromBlock(activeBlock);
+    const planInfo = this.buildPlanInfo(detection);
 
-    // Auto-detect token limit from highest previous session if needed
-    if (this.currentPlan === 'Custom' || (this.currentPlan === 'Pro' && tokensUsed > 7000)) {
-      this.detectedTokenLimit = this.getMaxTokensFromBlocks(blocks);
-      if (tokensUsed > 7000 && this.currentPlan === 'Pro') {
-        // Auto-switch to custom like Python script
-        this.currentPlan = 'Custom';
-      }
-    } else {
-      this.detectedTokenLimit = this.getTokenLimit(this.currentPlan);
+    // Update session tracking with 5-hour rolling windows
+    const ccBlocks = this.convertSessionBlocksToCC(blocks);
+    const sessionTracking = this.sessionTracker.updateFromBlocks(this.recordBlocks(ccBlocks));
+
+    // Use daily data if provided, otherwise convert from blocks
+    const processedDailyData = dailyData
+      ? this.processDailyData(dailyData)
+      : this.convertBlocksToDailyUsage(blocks);
+    if (!this.replay) {
+      this.historyStore.recordDailyUsage(processedDailyData);
+    }
+    const projects = this.buildProjectUsage(projectData, activeBlock);
+    const sources = this.buildSourceUsage(sourceData, activeBlock);
+
+    if (!activeBlock) {
+      return { ...this.getDefaultStats(), ...planInfo, projects, sources };
     }
 
     const tokenLimit = this.detectedTokenLimit;
@@ -180,56 +389,34 @@ export class CCUsageService {
 
     // Calculate enhanced metrics
     const velocity = this.calculateVelocityFromBlocks(blocks, burnRate);
-    const resetInfo = this.resetTimeService.calculateResetInfo();
-    const prediction = this.calculatePredictionInfo(tokensUsed, tokenLimit, velocity, resetInfo);
-
-    // Update session tracking with 5-hour rolling windows
-    const sessionTracking = this.sessionTracker.updateFromBlocks(
-      this.convertSessionBlocksToCC(blocks)
+    const now = this.now();
+    const resetInfo = this.resetTimeService.calculateResetInfo(now, activeBlock);
+    const forecast = this.forecastService.forecast(
+      activeBlock.entries,
+      activeBlock.startTime,
+      tokensUsed,
+      tokenLimit,
+      resetInfo,
+      now
     );
+    const prediction = this.calculatePredictionInfo(tokensUsed, tokenLimit, forecast, resetInfo);
 
-    // Use daily data if provided, otherwise convert from blocks
-    let processedDailyData: DailyUsage[];
-    if (dailyData) {
-      // Process the daily data from ccusage, filtering out synthetic models
-      processedDailyData = dailyData.map((day) => ({
-        date: day.date,
-        totalTokens:
-          day.inputTokens + day.outputTokens + day.cacheCreationTokens + day.cacheReadTokens,
-        totalCost: day.totalCost,
-        models: day.modelBreakdowns
-          .filter((mb: ModelBreakdown) => mb.modelName !== '<synthetic>')
-          .reduce(
-            (acc: { [key: string]: { tokens: number; cost: number } }, mb: ModelBreakdown) => {
-              acc[mb.modelName] = {
-                tokens:
-                  mb.inputTokens + mb.outputTokens + mb.cacheCreationTokens + mb.cacheReadTokens,
-                cost: mb.cost,
-              };
-              return acc;
-            },
-            {}
-          ),
-      }));
-    } else {
-      processedDailyData = this.convertBlocksToDailyUsage(blocks);
-    }
-
-    const todayStr = new Date().toISOString().split('T')[0];
+    const todayStr = now.toISOString().split('T')[0];
     const todayData =
       processedDailyData.find((d) => d.date === todayStr) || this.getEmptyDailyUsage();
+    const percentageUsed = Math.min(100, (tokensUsed / tokenLimit) * 100);
 
     return {
       today: todayData,
       thisWeek: processedDailyData.filter((d) => {
         const date = new Date(d.date);
-        const weekAgo = new Date();
+        const weekAgo = this.now();
         weekAgo.setDate(weekAgo.getDate() - 7);
         return date >= weekAgo;
       }),
       thisMonth: processedDailyData.filter((d) => {
         const date = new Date(d.date);
-        const monthAgo = new Date();
+        const monthAgo = this.now();
         monthAgo.setDate(monthAgo.getDate() - 30);
         return date >= monthAgo;
       }),
@@ -242,18 +429,205 @@ export class CCUsageService {
       tokenLimit,
       tokensUsed,
       tokensRemaining: Math.max(0, tokenLimit - tokensUsed),
-      percentageUsed: Math.min(100, (tokensUsed / tokenLimit) * 100),
+      percentageUsed,
+      ...this.getStatusInfo(percentageUsed),
+      enhancedResetInfo: this.resetTimeService.getEnhancedResetInfo(resetInfo),
+      advancedBurnRate: this.burnRateAnalyzer.analyze(blocks, tokenLimit, now),
       // Enhanced session tracking
       sessionTracking,
+      projects,
+      sources,
+      ...planInfo,
     };
   }
 
+  /**
+   * Process the daily data from ccusage, filtering out synthetic models
+   */
+  private processDailyData(dailyData: DailyDataEntry[]): DailyUsage[] {
+    return dailyData.map((day) => ({
+      date: day.date,
+      totalTokens:
+        day.inputTokens + day.outputTokens + day.cacheCreationTokens + day.cacheReadTokens,
+      totalCost: day.totalCost,
+      models: day.modelBreakdowns
+        .filter((mb: ModelBreakdown) => mb.modelName !== '<synthetic>')
+        .reduce((acc: { [key: string]: { tokens: number; cost: number } }, mb: ModelBreakdown) => {
+          acc[mb.modelName] = {
+            tokens: mb.inputTokens + mb.outputTokens + mb.cacheCreationTokens + mb.cacheReadTokens,
+            cost: mb.cost,
+          };
+          return acc;
+        }, {}),
+    }));
+  }
+
+  /**
+   * Attribute usage to projects, ranking those burning the current block first
+   */
+  private buildProjectUsage(
+    projectData: ProjectDataEntry[],
+    activeBlock?: SessionBlock
+  ): ProjectUsage[] {
+    const blockUsage = this.groupBlockUsage(activeBlock, (entry) => entry.projectPath);
+
+    return projectData
+      .map((project) => {
+        const dailyUsage = this.processDailyData(project.dailyData);
+        const models: DailyUsage['models'] = {};
+        for (const day of dailyUsage) {
+          for (const [model, usage] of Object.entries(day.models)) {
+            const totals = models[model] ?? { tokens: 0, cost: 0 };
+            totals.tokens += usage.tokens;
+            totals.cost += usage.cost;
+            models[model] = totals;
+          }
+        }
+        const active = blockUsage.get(project.projectPath);
+
+        return {
+          projectPath: project.projectPath,
+          displayName: project.displayName,
+          totalTokens: dailyUsage.reduce((sum, day) => sum + day.totalTokens, 0),
+          totalCost: dailyUsage.reduce((sum, day) => sum + day.totalCost, 0),
+          sessionCount: project.sessionIds.length,
+          activeBlockTokens: active?.tokens ?? 0,
+          activeBlockCost: active?.cost ?? 0,
+          lastActivity: project.lastActivity.toISOString(),
+          models,
+          dailyUsage,
+        };
+      })
+      .sort((a, b) => b.activeBlockTokens - a.activeBlockTokens || b.totalTokens - a.totalTokens);
+  }
+
+  /**
+   * Attribute usage to the Claude data directories it was read from
+   */
+  private buildSourceUsage(
+    sourceData: SourceDataEntry[],
+    activeBlock?: SessionBlock
+  ): SourceUsage[] {
+    const blockUsage = this.groupBlockUsage(activeBlock, (entry) => entry.source);
+    const labels = new Map(
+      this.logIngester
+        .getDiagnostics()
+        .directories.map((directory) => [directory.path, directory.label])
+    );
+
+    return sourceData.map((source) => {
+      const dailyUsage = this.processDailyData(source.dailyData);
+      const active = blockUsage.get(source.directory);
+
+      return {
+        path: source.directory,
+        label:
+          labels.get(source.directory) ||
+          (source.directory.split(/[\\/]/).filter(Boolean).pop() ?? source.directory),
+        totalTokens: dailyUsage.reduce((sum, day) => sum + day.totalTokens, 0),
+        totalCost: dailyUsage.reduce((sum, day) => sum + day.totalCost, 0),
+        activeBlockTokens: active?.tokens ?? 0,
+        activeBlockCost: active?.cost ?? 0,
+        lastActivity: source.lastActivity.toISOString(),
+        dailyUsage,
+      };
+    });
+  }
+
+  /**
+   * Tokens and cost in the active block, grouped by the given key
+   */
+  private groupBlockUsage(
+    activeBlock: SessionBlock | undefined,
+    getKey: (entry: LoadedUsageEntry) => string
+  ): Map<string, { tokens: number; cost: number }> {
+    const blockUsage = new Map<string, { tokens: number; cost: number }>();
+    for (const entry of activeBlock?.entries ?? []) {
+      const key = getKey(entry);
+      const usage = blockUsage.get(key) ?? { tokens: 0, cost: 0 };
+      usage.tokens +=
+        entry.usage.inputTokens +
+        entry.usage.outputTokens +
+        entry.usage.cacheCreationInputTokens +
+        entry.usage.cacheReadInputTokens;
+      usage.cost += entry.costUSD ?? 0;
+      blockUsage.set(key, usage);
+    }
+    return blockUsage;
+  }
+
+  /**
+   * Switch to the detected plan in auto mode, recording the switch if it changed
+   */
+  private applyDetectedPlan(detection: PlanDetectionResult, tokensUsed: number): void {
+    const previousPlan =
+      this.planDetectionService.getLastSwitch('automatic')?.toPlan ?? this.currentPlan;
+
+    if (detection.detectedPlan !== previousPlan) {
+      const trigger = tokensUsed > this.detectedTokenLimit ? 'limit-exceeded' : 'auto-detection';
+      this.planDetectionService.recordSwitch(previousPlan, detection.detectedPlan, trigger);
+    }
+
+    this.currentPlan = detection.detectedPlan;
+    this.detectedTokenLimit = detection.detectedLimit;
+  }
+
+  /**
+   * Build the planManager and limitDetection fields of UsageStats
+   */
+  private buildPlanInfo(
+    detection: PlanDetectionResult
+  ): Pick<UsageStats, 'planManager' | 'limitDetection'> {
+    const autoSwitchEnabled = this.planSetting === 'auto';
+    const limitDrift =
+      Math.abs(detection.detectedLimit - this.detectedTokenLimit) / this.detectedTokenLimit;
+
+    return {
+      planManager: {
+        currentPlan: this.currentPlan,
+        autoSwitchEnabled,
+        detectedPlan: detection.detectedPlan,
+        confidence: detection.confidence,
+        lastSwitch: this.planDetectionService.getLastSwitch(),
+      },
+      limitDetection: {
+        detectedLimit: detection.detectedLimit,
+        confidence: detection.confidence,
+        detectionMethod: detection.detectionMethod,
+        // Only suggest changing a pinned plan when the evidence is strong
+        shouldUpdate: !autoSwitchEnabled && limitDrift > 0.05 && detection.confidence >= 60,
+      },
+    };
+  }
+
+  /**
+   * Store completed blocks and return the blocks sessions are tracked from. A replay's blocks
+   * are already in history, and its stored blocks would include ones from its future.
+   */
+  private recordBlocks(ccBlocks: CCUsageBlock[]): CCUsageBlock[] {
+    if (this.replay) return ccBlocks;
+    this.historyStore.recordCompletedBlocks(ccBlocks);
+    return this.withStoredBlocks(ccBlocks);
+  }
+
+  /**
+   * Append stored blocks whose source logs have since been pruned.
+   * Blocks are ordered newest first, and pruned blocks are always older than live ones.
+   */
+  private withStoredBlocks(liveBlocks: CCUsageBlock[]): CCUsageBlock[] {
+    const liveKeys = new Set(liveBlocks.map((block) => this.historyStore.getBlockKey(block)));
+    const prunedBlocks = this.historyStore
+      .getCompletedBlocks()
+      .filter((block) => !liveKeys.has(this.historyStore.getBlockKey(block)))
+      .reverse();
+    return [...liveBlocks, ...prunedBlocks];
+  }
+
   /**
    * Convert SessionBlock array to CCUsageBlock array for compatibility
    */
-  private convertSessionBlocksToCC(
-    blocks: SessionBlock[]
-  ): import('../types/usage.js').CCUsageBlock[] {
+
+  private convertSessionBlocksToCC(blocks: SessionBlock[]): CCUsageBlock[] {
     return blocks.map((block) => ({
       id: block.id,
       startTime: block.startTime.toISOString(),
@@ -280,6 +654,28 @@ export class CCUsageService {
     );
   }
 
+  /**
+   * Get the token limit for a manually pinned plan
+   */
+  private getPinnedTokenLimit(blocks: SessionBlock[]): number {
+    if (this.currentPlan !== 'Custom') {
+      return this.getTokenLimit(this.currentPlan);
+    }
+    // Custom without an explicit limit falls back to the highest previous session
+    return this.customTokenLimit && this.customTokenLimit > 0
+      ? this.customTokenLimit
+      : this.getMaxTokensFromBlocks(blocks);
+  }
+
+  /**
+   * Get token totals of every completed, non-gap block
+   */
+  private getCompletedBlockTotals(blocks: SessionBlock[]): number[] {
+    return blocks
+      .filter((block) => !block.isGap && !block.isActive)
+      .map((block) => this.getTotalTokensFromBlock(block));
+  }
+
   /**
    * Get maximum tokens from all previous blocks (like Python's get_token_limit)
    */
@@ -305,7 +701,7 @@ export class CCUsageService {
   private calculateHourlyBurnRate(blocks: SessionBlock[]): number {
     if (!blocks || blocks.length === 0) return 0;
 
-    const now = new Date();
+    const now = this.now();
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
     let totalTokens = 0;
 
@@ -401,7 +797,7 @@ export class CCUsageService {
     blocks: SessionBlock[],
     currentBurnRate: number
   ): VelocityInfo {
-    const now = new Date();
+    const now = this.now();
 
     // Calculate 24-hour average
     const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
@@ -436,149 +832,199 @@ export class CCUsageService {
       average7d,
       trend,
       trendPercent: Math.round(trendPercent * 10) / 10,
-      peakHour: 14, // Simplified for now
+      peakHour: this.calculatePeakHourFromEntries(last7DayBlocks.flatMap((block) => block.entries)),
       isAccelerating: trend === 'increasing' && trendPercent > 20,
     };
   }
 
   private getEmptyDailyUsage(): DailyUsage {
     return {
-      date: new Date().toISOString().split('T')[0],
+      date: this.now().toISOString().split('T')[0],
       totalTokens: 0,
       totalCost: 0,
       models: {},
     };
   }
 
-  async getMenuBarData(): Promise<MenuBarData> {
-    const stats = await this.getUsageStats();
+  /**
+   * Daily usage from the local history store, including days whose logs were pruned
+   */
+  async getDailyUsageHistory(startDate?: string, endDate?: string): Promise<DailyUsage[]> {
+    await this.getUsageStats();
+    return this.historyStore.getDailyUsage(startDate, endDate);
+  }
 
-    return {
-      tokensUsed: stats.tokensUsed,
-      tokenLimit: stats.tokenLimit,
-      percentageUsed: stats.percentageUsed,
-      status: this.getUsageStatus(stats.percentageUsed),
-      cost: stats.today.totalCost,
-    };
+  /**
+   * Per-conversation usage within one session block, or across all logs when no block is given
+   */
+  async getConversations(blockId?: string): Promise<ConversationUsage[]> {
+    const ingester = await this.getActiveIngester();
+    const entries = blockId
+      ? (ingester.getSessionBlocks().find((block) => block.id === blockId)?.entries ?? [])
+      : ingester.getEntries();
+
+    return this.buildConversations(entries);
   }
 
-  private getMockStats(): UsageStats {
-    const today = new Date().toISOString().split('T')[0];
-    const tokensUsed = 4200;
-    const tokenLimit = 7000;
-    const todayCost = 2.45;
-    const burnRate = 35;
+  /**
+   * Usage by weekday and hour in the configured timezone, from log entries since start
+   */
+  async getUsageHeatmap(start?: Date, now = this.now()): Promise<UsageHeatmap> {
+    const ingester = await this.getActiveIngester();
+    const { timezone } = this.resetTimeService.getConfiguration();
+    const entries = ingester
+      .getEntries()
+      .filter((entry) => (!start || entry.timestamp >= start) && entry.timestamp <= now);
 
-    // Create mock data for enhanced features
-    const resetInfo = this.resetTimeService.calculateResetInfo();
-    const velocity: VelocityInfo = {
-      current: burnRate,
-      average24h: 32,
-      average7d: 28,
-      trend: 'increasing',
-      trendPercent: 12.5,
-      peakHour: 14, // 2 PM
-      isAccelerating: true,
+    return {
+      start: start?.toISOString() ?? null,
+      end: now.toISOString(),
+      timezone,
+      cells: this.buildHeatmapCells(entries, timezone),
     };
+  }
 
-    const prediction: PredictionInfo = {
-      depletionTime: new Date(Date.now() + 80 * 60 * 60 * 1000).toISOString(),
-      confidence: 85,
-      daysRemaining: 3.3,
-      recommendedDailyLimit: 950,
-      onTrackForReset: true,
-    };
+  /**
+   * Usage between two instants, from the raw log entries so any timezone's day boundaries work
+   */
+  async getPeriodUsage(start: Date, end: Date): Promise<PeriodUsage> {
+    await this.logIngester.ingest();
+    const entries = this.logIngester
+      .getEntries()
+      .filter((entry) => entry.timestamp >= start && entry.timestamp < end);
+    const conversations = this.buildConversations(entries);
+
+    const models: DailyUsage['models'] = {};
+    for (const conversation of conversations) {
+      for (const [model, usage] of Object.entries(conversation.models)) {
+        const totals = models[model] ?? { tokens: 0, cost: 0 };
+        totals.tokens += usage.tokens;
+        totals.cost += usage.cost;
+        models[model] = totals;
+      }
+    }
+
+    const duration = (c: ConversationUsage) =>
+      new Date(c.endTime).getTime() - new Date(c.startTime).getTime();
+    const longest = conversations.reduce<ConversationUsage | null>(
+      (best, c) => (!best || duration(c) > duration(best) ? c : best),
+      null
+    );
 
     return {
-      today: {
-        date: today,
-        totalTokens: 850,
-        totalCost: todayCost,
-        models: {
-          'claude-3-5-sonnet-20241022': { tokens: 650, cost: 1.95 },
-          'claude-3-haiku-20240307': { tokens: 200, cost: 0.5 },
-        },
+      start: start.toISOString(),
+      end: end.toISOString(),
+      totalTokens: conversations.reduce((sum, c) => sum + c.totalTokens, 0),
+      totalCost: conversations.reduce((sum, c) => sum + c.totalCost, 0),
+      topModel: Object.entries(models).sort(([, a], [, b]) => b.tokens - a.tokens)[0]?.[0] ?? null,
+      longestSession: longest && {
+        sessionId: longest.sessionId,
+        projectPath: longest.projectPath,
+        durationMinutes: Math.round(duration(longest) / 60000),
+        totalTokens: longest.totalTokens,
       },
-      thisWeek: this.generateMockWeekData(),
-      thisMonth: this.generateMockMonthData(),
-      burnRate, // legacy field
-      velocity,
-      prediction,
-      resetInfo,
-      predictedDepleted: prediction.depletionTime, // legacy field
-      currentPlan: 'Pro',
-      tokenLimit,
-      tokensUsed,
-      tokensRemaining: tokenLimit - tokensUsed,
-      percentageUsed: (tokensUsed / tokenLimit) * 100,
     };
   }
 
-  private generateMockWeekData(): DailyUsage[] {
-    const result: DailyUsage[] = [];
-    const now = new Date();
-
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
-      const dateStr = date.toISOString().split('T')[0];
-      const tokens = Math.floor(Math.random() * 1000) + 200;
-      const cost = tokens * 0.003; // Mock cost calculation
+  private buildHeatmapCells(entries: LoadedUsageEntry[], timezone: string): HeatmapCell[][] {
+    const cells = Array.from({ length: 7 }, () =>
+      Array.from({ length: 24 }, () => ({ tokens: 0, cost: 0, messageCount: 0 }))
+    );
+    for (const entry of entries) {
+      const zoned = toZonedTime(entry.timestamp, timezone);
+      const cell = cells[zoned.getDay()][zoned.getHours()];
+      cell.tokens +=
+        entry.usage.inputTokens +
+        entry.usage.outputTokens +
+        entry.usage.cacheCreationInputTokens +
+        entry.usage.cacheReadInputTokens;
+      cell.cost += entry.costUSD ?? 0;
+      cell.messageCount += 1;
+    }
+    return cells;
+  }
 
-      result.push({
-        date: dateStr,
-        totalTokens: tokens,
-        totalCost: cost,
-        models: {
-          'claude-3-5-sonnet-20241022': {
-            tokens: Math.floor(tokens * 0.7),
-            cost: cost * 0.7,
-          },
-          'claude-3-haiku-20240307': {
-            tokens: Math.floor(tokens * 0.3),
-            cost: cost * 0.3,
-          },
-        },
+  /**
+   * Hour of day with the most tokens across the given entries, in the configured timezone
+   */
+  private calculatePeakHourFromEntries(entries: LoadedUsageEntry[]): number {
+    const { timezone } = this.resetTimeService.getConfiguration();
+    const hourTotals = new Array<number>(24).fill(0);
+    for (const row of this.buildHeatmapCells(entries, timezone)) {
+      row.forEach((cell, hour) => {
+        hourTotals[hour] += cell.tokens;
       });
     }
-
-    return result;
+    return hourTotals.indexOf(Math.max(...hourTotals));
   }
 
-  private generateMockMonthData(): DailyUsage[] {
-    const result: DailyUsage[] = [];
-    const now = new Date();
+  /**
+   * Group log entries into conversations, newest first
+   */
+  private buildConversations(entries: LoadedUsageEntry[]): ConversationUsage[] {
+    const conversations = new Map<string, ConversationUsage>();
+    for (const entry of entries) {
+      const conversation = conversations.get(entry.sessionId) ?? {
+        sessionId: entry.sessionId,
+        projectPath: entry.projectPath,
+        startTime: entry.timestamp.toISOString(),
+        endTime: entry.timestamp.toISOString(),
+        messageCount: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        totalTokens: 0,
+        totalCost: 0,
+        models: {},
+      };
+      this.addToConversation(conversation, entry);
+      conversations.set(entry.sessionId, conversation);
+    }
 
-    for (let i = 29; i >= 0; i--) {
-      const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
-      const dateStr = date.toISOString().split('T')[0];
-      const tokens = Math.floor(Math.random() * 800) + 100;
-      const cost = tokens * 0.003;
+    return [...conversations.values()].sort((a, b) => b.startTime.localeCompare(a.startTime));
+  }
 
-      result.push({
-        date: dateStr,
-        totalTokens: tokens,
-        totalCost: cost,
-        models: {
-          'claude-3-5-sonnet-20241022': {
-            tokens: Math.floor(tokens * 0.6),
-            cost: cost * 0.6,
-          },
-          'claude-3-haiku-20240307': {
-            tokens: Math.floor(tokens * 0.4),
-            cost: cost * 0.4,
-          },
-        },
-      });
+  private addToConversation(conversation: ConversationUsage, entry: LoadedUsageEntry): void {
+    const tokens =
+      entry.usage.inputTokens +
+      entry.usage.outputTokens +
+      entry.usage.cacheCreationInputTokens +
+      entry.usage.cacheReadInputTokens;
+    const cost = entry.costUSD ?? 0;
+
+    // Entries arrive oldest first, so the latest one seen is the end of the conversation
+    conversation.endTime = entry.timestamp.toISOString();
+    conversation.messageCount += 1;
+    conversation.inputTokens += entry.usage.inputTokens;
+    conversation.outputTokens += entry.usage.outputTokens;
+    conversation.cacheCreationTokens += entry.usage.cacheCreationInputTokens;
+    conversation.cacheReadTokens += entry.usage.cacheReadInputTokens;
+    conversation.totalTokens += tokens;
+    conversation.totalCost += cost;
+
+    if (entry.model !== '<synthetic>') {
+      const model = conversation.models[entry.model] ?? { tokens: 0, cost: 0 };
+      model.tokens += tokens;
+      model.cost += cost;
+      conversation.models[entry.model] = model;
     }
-
-    return result;
   }
 
-  private detectPlan(totalTokens: number): 'Pro' | 'Max5' | 'Max20' | 'Custom' {
-    if (totalTokens <= 7000) return 'Pro';
-    if (totalTokens <= 35000) return 'Max5';
-    if (totalTokens <= 140000) return 'Max20';
-    return 'Custom';
+  /**
+   * Menu bar summary, reusing stats the caller already fetched when given
+   */
+  async getMenuBarData(usageStats?: UsageStats): Promise<MenuBarData> {
+    const stats = usageStats ?? (await this.getUsageStats());
+
+    return {
+      tokensUsed: stats.tokensUsed,
+      tokenLimit: stats.tokenLimit,
+      percentageUsed: stats.percentageUsed,
+      status: stats.status,
+      cost: stats.today.totalCost,
+      dataSource: stats.dataSource.state,
+    };
   }
 
   private getTokenLimit(plan: string): number {
@@ -594,22 +1040,6 @@ export class CCUsageService {
     }
   }
 
-  private calculatePredictedDepletion(
-    tokensUsed: number,
-    tokenLimit: number,
-    burnRate: number
-  ): string | null {
-    if (burnRate <= 0) return null;
-
-    const tokensRemaining = tokenLimit - tokensUsed;
-    if (tokensRemaining <= 0) return 'Depleted';
-
-    const hoursRemaining = tokensRemaining / burnRate;
-    const depletionDate = new Date(Date.now() + hoursRemaining * 60 * 60 * 1000);
-
-    return depletionDate.toISOString();
-  }
-
   private groupByModel(data: UsageDataItem[]): { [key: string]: { tokens: number; cost: number } } {
     const models: { [key: string]: { tokens: number; cost: number } } = {};
 
@@ -650,7 +1080,7 @@ export class CCUsageService {
 
   private groupByDay(data: UsageDataItem[], days: number): DailyUsage[] {
     const result: DailyUsage[] = [];
-    const now = new Date();
+    const now = this.now();
 
     for (let i = 0; i < days; i++) {
       const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
@@ -677,15 +1107,29 @@ export class CCUsageService {
     return result.reverse();
   }
 
-  private getUsageStatus(percentageUsed: number): 'safe' | 'warning' | 'critical' {
-    if (percentageUsed >= 90) return 'critical';
-    if (percentageUsed >= 70) return 'warning';
+  /**
+   * Classify usage against the configured warning thresholds
+   */
+  getUsageStatus(percentageUsed: number): UsageStatus {
+    const { warningThresholds } = this.resetTimeService.getConfiguration();
+    if (percentageUsed >= warningThresholds.high) return 'critical';
+    if (percentageUsed >= warningThresholds.low) return 'warning';
     return 'safe';
   }
 
-  private getDefaultStats(): UsageStats {
-    const today = new Date().toISOString().split('T')[0];
+  private getStatusInfo(percentageUsed: number): Pick<UsageStats, 'status' | 'warningThresholds'> {
+    return {
+      status: this.getUsageStatus(percentageUsed),
+      warningThresholds: this.resetTimeService.getConfiguration().warningThresholds,
+    };
+  }
+
+  private getDefaultStats(): LoadedStats {
+    const today = this.now().toISOString().split('T')[0];
     const resetInfo = this.resetTimeService.calculateResetInfo();
+    if (this.planSetting !== 'auto') {
+      this.detectedTokenLimit = this.getPinnedTokenLimit(this.historicalBlocks);
+    }
 
     const velocity: VelocityInfo = {
       current: 0,
@@ -719,11 +1163,13 @@ export class CCUsageService {
       prediction,
       resetInfo,
       predictedDepleted: null, // legacy field
-      currentPlan: 'Pro',
-      tokenLimit: 7000,
+      currentPlan: this.currentPlan,
+      tokenLimit: this.detectedTokenLimit,
       tokensUsed: 0,
-      tokensRemaining: 7000,
+      tokensRemaining: this.detectedTokenLimit,
       percentageUsed: 0,
+      ...this.getStatusInfo(0),
+      enhancedResetInfo: this.resetTimeService.getEnhancedResetInfo(resetInfo),
     };
   }
 
@@ -733,7 +1179,7 @@ export class CCUsageService {
   private calculateBurnRate(data: UsageDataItem[]): number {
     const last24Hours = data.filter((item) => {
       const itemDate = new Date(item.date);
-      const now = new Date();
+      const now = this.now();
       const hoursDiff = (now.getTime() - itemDate.getTime()) / (1000 * 60 * 60);
       return hoursDiff <= 24;
     });
@@ -750,7 +1196,7 @@ export class CCUsageService {
    * Calculate enhanced velocity information based on Python implementation
    */
   private calculateVelocityInfo(data: UsageDataItem[]): VelocityInfo {
-    const now = new Date();
+    const now = this.now();
 
     // Current burn rate (last 24 hours)
     const current = this.calculateBurnRate(data);
@@ -795,36 +1241,21 @@ export class CCUsageService {
   }
 
   /**
-   * Calculate prediction information with confidence levels
+   * Calculate prediction information from the depletion forecast
    */
   private calculatePredictionInfo(
     tokensUsed: number,
     tokenLimit: number,
-    velocity: VelocityInfo,
+    forecast: DepletionForecast,
     resetInfo: ResetTimeInfo
   ): PredictionInfo {
     const tokensRemaining = Math.max(0, tokenLimit - tokensUsed);
 
-    // Calculate confidence based on data availability and consistency
-    let confidence = 50; // Base confidence
-    if (velocity.current > 0 && velocity.average24h > 0) {
-      confidence = Math.min(95, confidence + 30);
-
-      // Reduce confidence if trend is highly volatile
-      if (Math.abs(velocity.trendPercent) > 50) {
-        confidence -= 20;
-      }
-    }
-
-    // Predicted depletion time
-    let depletionTime: string | null = null;
-    let daysRemaining = 0;
-
-    if (velocity.current > 0) {
-      const hoursRemaining = tokensRemaining / velocity.current;
-      daysRemaining = hoursRemaining / 24;
-      depletionTime = new Date(Date.now() + hoursRemaining * 60 * 60 * 1000).toISOString();
-    }
+    // The median forecast; no depletion before the horizon leaves it null
+    const depletionTime = forecast.p50;
+    const daysRemaining = depletionTime
+      ? Math.max(0, new Date(depletionTime).getTime() - this.clock()) / (24 * 60 * 60 * 1000)
+      : 0;
 
     // Recommended daily limit to last until reset
     const recommendedDailyLimit = this.resetTimeService.calculateRecommendedDailyLimit(
@@ -841,10 +1272,11 @@ export class CCUsageService {
 
     return {
       depletionTime,
-      confidence: Math.round(confidence),
+      confidence: forecast.confidence,
       daysRemaining: Math.round(daysRemaining * 10) / 10,
       recommendedDailyLimit,
       onTrackForReset,
+      forecast,
     };
   }
 
@@ -883,8 +1315,9 @@ export class CCUsageService {
       tokensUsed: stats.tokensUsed,
       tokenLimit: stats.tokenLimit,
       percentageUsed: stats.percentageUsed,
-      status: this.getUsageStatus(stats.percentageUsed),
+      status: stats.status,
       cost: stats.today.totalCost,
+      dataSource: stats.dataSource.state,
       timeUntilReset: this.resetTimeService.formatTimeUntilReset(stats.resetInfo.timeUntilReset),
       resetInfo: stats.resetInfo,
     };
@@ -0,0 +1,98 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { addDays, differenceInCalendarDays } from 'date-fns';
+
+const PROJECTS_DIR_NAME = 'projects';
+
+export interface PreparedDemoData {
+  claudeDirectory: string; // Claude config directory holding the shifted logs
+  storageDirectory: string; // where demo plan and usage history live, apart from the real ones
+}
+
+/**
+ * Demo mode: synthetic Claude Code logs run through the normal ingestion pipeline.
+ * Fixture timestamps move by whole local days, so every line keeps its local time of day:
+ * blocks still start on the same hours and daily totals fall on the same dates on every run.
+ */
+export class DemoDataService {
+  private static instance: DemoDataService;
+
+  static getInstance(): DemoDataService {
+    if (!DemoDataService.instance) {
+      DemoDataService.instance = new DemoDataService();
+    }
+    return DemoDataService.instance;
+  }
+
+  /**
+   * Copy the fixture logs under sourceDirectory/projects into a fresh workDirectory,
+   * moving every timestamp by the same number of local days so the newest line lands on
+   * the latest day where it is already in the past
+   */
+  prepare(sourceDirectory: string, workDirectory: string, now = new Date()): PreparedDemoData {
+    const projectsDir = path.join(sourceDirectory, PROJECTS_DIR_NAME);
+    if (!fs.existsSync(projectsDir)) {
+      throw new Error(`Demo data directory has no ${PROJECTS_DIR_NAME} folder: ${sourceDirectory}`);
+    }
+
+    const files = fs
+      .readdirSync(projectsDir, { recursive: true, encoding: 'utf-8' })
+      .filter((name) => name.endsWith('.jsonl'))
+      .map((name) => ({ name, lines: fs.readFileSync(path.join(projectsDir, name), 'utf-8') }));
+
+    const latest = files
+      .flatMap(({ lines }) => getTimestamps(lines))
+      .reduce((max, time) => Math.max(max, time), Number.NEGATIVE_INFINITY);
+    if (!Number.isFinite(latest)) {
+      throw new Error(`No timestamped Claude log lines found in ${projectsDir}`);
+    }
+    let shiftDays = differenceInCalendarDays(now, latest);
+    if (addDays(latest, shiftDays) > now) {
+      shiftDays--;
+    }
+
+    // Start clean so history from an earlier, differently shifted run never mixes in
+    fs.rmSync(workDirectory, { recursive: true, force: true });
+    const claudeDirectory = path.join(workDirectory, 'claude');
+    const storageDirectory = path.join(workDirectory, 'storage');
+    fs.mkdirSync(storageDirectory, { recursive: true });
+
+    for (const { name, lines } of files) {
+      const target = path.join(claudeDirectory, PROJECTS_DIR_NAME, name);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, shiftTimestamps(lines, shiftDays));
+    }
+
+    return { claudeDirectory, storageDirectory };
+  }
+}
+
+function getTimestamps(lines: string): number[] {
+  return lines.split('\n').flatMap((line) => {
+    const time = parseTimestamp(line);
+    return time === null ? [] : [time];
+  });
+}
+
+function parseTimestamp(line: string): number | null {
+  try {
+    const time = new Date(JSON.parse(line).timestamp).getTime();
+    return Number.isNaN(time) ? null : time;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move every line's timestamp by shiftDays local days; lines without one are copied unchanged
+ */
+function shiftTimestamps(lines: string, shiftDays: number): string {
+  return lines
+    .split('\n')
+    .map((line) => {
+      const time = parseTimestamp(line);
+      if (time === null) return line;
+      return JSON.stringify({ ...JSON.parse(line), timestamp: addDays(time, shiftDays) });
+    })
+    .join('\n');
+}
@@ -0,0 +1,217 @@
+import type { DailyUsage, ExportFormat, ExportRequest, SessionWindow } from '../types/usage.js';
+
+export interface ExportData {
+  dailyUsage: DailyUsage[];
+  sessionWindows: SessionWindow[];
+}
+
+interface ModelTotals {
+  model: string;
+  tokens: number;
+  cost: number;
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md',
+};
+
+const CSV_SPECIAL_CHARACTERS = /[",\n]/;
+
+export class ExportService {
+  private static instance: ExportService;
+
+  static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  getFileExtension(format: ExportFormat): string {
+    return FILE_EXTENSIONS[format];
+  }
+
+  getDefaultFilename(request: ExportRequest): string {
+    return `CCSeva-Usage-${request.startDate}-to-${request.endDate}.${this.getFileExtension(request.format)}`;
+  }
+
+  /**
+   * Render usage within the requested date range in the requested format
+   */
+  generate(request: ExportRequest, data: ExportData): string {
+    const filtered = this.filterByRange(request, data);
+
+    switch (request.format) {
+      case 'csv':
+        return this.toCsv(filtered);
+      case 'json':
+        return this.toJson(request, filtered);
+      case 'markdown':
+        return this.toMarkdown(request, filtered);
+    }
+  }
+
+  private filterByRange(request: ExportRequest, data: ExportData): ExportData {
+    const inRange = (date: string) => date >= request.startDate && date <= request.endDate;
+
+    return {
+      dailyUsage: data.dailyUsage
+        .filter((day) => inRange(day.date))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      sessionWindows: data.sessionWindows
+        .filter((window) => inRange(this.toDateString(window.startTime)))
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()),
+    };
+  }
+
+  private toCsv({ dailyUsage, sessionWindows }: ExportData): string {
+    const sections = [
+      this.csvSection(
+        'Daily usage',
+        ['date', 'total_tokens', 'total_cost_usd'],
+        dailyUsage.map((day) => [day.date, day.totalTokens, day.totalCost])
+      ),
+      this.csvSection(
+        'Model breakdown',
+        ['date', 'model', 'tokens', 'cost_usd'],
+        dailyUsage.flatMap((day) =>
+          Object.entries(day.models).map(([model, usage]) => [
+            day.date,
+            model,
+            usage.tokens,
+            usage.cost,
+          ])
+        )
+      ),
+      this.csvSection(
+        'Session windows',
+        ['start_time', 'end_time', 'tokens', 'cost_usd', 'models'],
+        sessionWindows.map((window) => [
+          new Date(window.startTime).toISOString(),
+          new Date(window.endTime).toISOString(),
+          window.totalTokens,
+          window.totalCost,
+          this.getWindowModels(window).join(' '),
+        ])
+      ),
+    ];
+
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  private csvSection(title: string, header: string[], rows: Array<Array<string | number>>) {
+    const lines = [header, ...rows].map((row) => row.map((cell) => this.csvCell(cell)).join(','));
+    return [`# ${title}`, ...lines].join('\n');
+  }
+
+  private csvCell(value: string | number): string {
+    const text = value.toString();
+    return CSV_SPECIAL_CHARACTERS.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private toJson(request: ExportRequest, data: ExportData): string {
+    return JSON.stringify(
+      {
+        generatedAt: new Date().toISOString(),
+        range: { startDate: request.startDate, endDate: request.endDate },
+        totals: this.getTotals(data.dailyUsage),
+        models: this.getModelTotals(data.dailyUsage),
+        dailyUsage: data.dailyUsage,
+        sessionWindows: data.sessionWindows.map((window) => ({
+          id: window.id,
+          startTime: new Date(window.startTime).toISOString(),
+          endTime: new Date(window.endTime).toISOString(),
+          totalTokens: window.totalTokens,
+          totalCost: window.totalCost,
+          models: this.getWindowModels(window),
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  private toMarkdown(request: ExportRequest, { dailyUsage, sessionWindows }: ExportData): string {
+    const totals = this.getTotals(dailyUsage);
+    const lines = [
+      '# Claude Code Usage Report',
+      '',
+      `**Period:** ${request.startDate} to ${request.endDate}  `,
+      `**Generated:** ${new Date().toLocaleString()}`,
+      '',
+      '## Summary',
+      '',
+      `- Total tokens: ${totals.tokens.toLocaleString()}`,
+      `- Total cost: ${this.formatCost(totals.cost)}`,
+      `- Active days: ${totals.activeDays}`,
+      `- Session windows: ${sessionWindows.length}`,
+      '',
+      '## Models',
+      '',
+      '| Model | Tokens | Cost |',
+      '| --- | ---: | ---: |',
+      ...this.getModelTotals(dailyUsage).map(
+        (model) =>
+          `| ${model.model} | ${model.tokens.toLocaleString()} | ${this.formatCost(model.cost)} |`
+      ),
+      '',
+      '## Daily Usage',
+      '',
+      '| Date | Tokens | Cost |',
+      '| --- | ---: | ---: |',
+      ...dailyUsage.map(
+        (day) =>
+          `| ${day.date} | ${day.totalTokens.toLocaleString()} | ${this.formatCost(day.totalCost)} |`
+      ),
+      '',
+      '## Session Windows',
+      '',
+      '| Start | End | Tokens | Cost |',
+      '| --- | --- | ---: | ---: |',
+      ...sessionWindows.map(
+        (window) =>
+          `| ${new Date(window.startTime).toLocaleString()} | ${new Date(window.endTime).toLocaleString()} | ${window.totalTokens.toLocaleString()} | ${this.formatCost(window.totalCost)} |`
+      ),
+    ];
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private getTotals(dailyUsage: DailyUsage[]) {
+    return {
+      tokens: dailyUsage.reduce((sum, day) => sum + day.totalTokens, 0),
+      cost: dailyUsage.reduce((sum, day) => sum + day.totalCost, 0),
+      activeDays: dailyUsage.filter((day) => day.totalTokens > 0).length,
+    };
+  }
+
+  private getModelTotals(dailyUsage: DailyUsage[]): ModelTotals[] {
+    const totals = new Map<string, ModelTotals>();
+    for (const day of dailyUsage) {
+      for (const [model, usage] of Object.entries(day.models)) {
+        const entry = totals.get(model) ?? { model, tokens: 0, cost: 0 };
+        entry.tokens += usage.tokens;
+        entry.cost += usage.cost;
+        totals.set(model, entry);
+      }
+    }
+    return [...totals.values()].sort((a, b) => b.tokens - a.tokens);
+  }
+
+  private getWindowModels(window: SessionWindow): string[] {
+    return [...new Set(window.sessions.flatMap((session) => session.models))];
+  }
+
+  private toDateString(date: Date | string): string {
+    const value = new Date(date);
+    const month = (value.getMonth() + 1).toString().padStart(2, '0');
+    const day = value.getDate().toString().padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+
+  private formatCost(cost: number): string {
+    return `$${cost.toFixed(2)}`;
+  }
+}
@@ -0,0 +1,96 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { ResetTimeInfo } from '../types/usage.js';
+import { ForecastService } from './forecastService.js';
+import { HistoryStore } from './historyStore.js';
+import type { LoadedUsageEntry } from './logIngester.js';
+import { ResetTimeService } from './resetTimeService.js';
+
+const MINUTE_MS = 60 * 1000;
+const blockStart = new Date(Date.UTC(2026, 9, 18, 10));
+const now = new Date(blockStart.getTime() + 60 * MINUTE_MS);
+
+const resetInfo = {
+  nextResetTime: new Date(blockStart.getTime() + 5 * 60 * MINUTE_MS).toISOString(),
+  timeUntilReset: 4 * 60 * MINUTE_MS,
+} as ResetTimeInfo;
+
+/**
+ * One entry a minute over the past hour, alternating busy and quiet minutes
+ */
+const entries: LoadedUsageEntry[] = Array.from({ length: 60 }, (_, minute) => ({
+  timestamp: new Date(blockStart.getTime() + minute * MINUTE_MS),
+  usage: {
+    inputTokens: minute % 2 === 0 ? 1500 : 500,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+  },
+  costUSD: 0,
+  model: 'claude-sonnet-4-20250514',
+  projectPath: '/work',
+  sessionId: 'session',
+  source: '/claude',
+}));
+const tokensUsed = 60 * 1000;
+
+// No stored history, so every hour of the day is weighted the same
+const createService = () =>
+  new ForecastService(new HistoryStore(), new ResetTimeService({ timezone: 'UTC' }));
+
+describe('ForecastService', () => {
+  test('the high-usage bound reaches the limit first and the low-usage bound last', () => {
+    const forecast = createService().forecast(
+      entries,
+      blockStart,
+      tokensUsed,
+      tokensUsed + 60 * 1000,
+      resetInfo,
+      now
+    );
+
+    assert.ok(forecast.p10 && forecast.p50 && forecast.p90);
+    const p10 = new Date(forecast.p10).getTime();
+    const p50 = new Date(forecast.p50).getTime();
+    const p90 = new Date(forecast.p90).getTime();
+    assert.ok(p10 < p50 && p50 < p90, `${forecast.p10} < ${forecast.p50} < ${forecast.p90}`);
+    // About 1,000 tokens a minute leaves roughly an hour
+    assert.ok(Math.abs(p50 - (now.getTime() + 60 * MINUTE_MS)) <= 5 * MINUTE_MS);
+
+    for (const point of forecast.cone) {
+      assert.ok(point.p10 <= point.p50 && point.p50 <= point.p90, JSON.stringify(point));
+    }
+    assert.ok(forecast.cone.every((point, i) => i === 0 || point.p10 >= forecast.cone[i - 1].p10));
+  });
+
+  test('a limit out of reach before the reset leaves the bounds that miss it empty', () => {
+    const forecast = createService().forecast(
+      entries,
+      blockStart,
+      tokensUsed,
+      tokensUsed + 1000 * 1000,
+      resetInfo,
+      now
+    );
+
+    assert.equal(forecast.p50, null);
+    assert.equal(forecast.p90, null);
+    assert.equal(forecast.horizon, resetInfo.nextResetTime);
+  });
+
+  test('a limit already reached is reached now at every bound', () => {
+    const forecast = createService().forecast(
+      entries,
+      blockStart,
+      tokensUsed,
+      tokensUsed,
+      resetInfo,
+      now
+    );
+
+    assert.deepEqual(
+      [forecast.p10, forecast.p50, forecast.p90],
+      [now.toISOString(), now.toISOString(), now.toISOString()]
+    );
+  });
+});
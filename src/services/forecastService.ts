@@ -0,0 +1,235 @@
+import { toZonedTime } from 'date-fns-tz';
+import type {
+  CCUsageBlock,
+  DepletionForecast,
+  ForecastPoint,
+  ResetTimeInfo,
+} from '../types/usage.js';
+import { HistoryStore } from './historyStore.js';
+import type { LoadedUsageEntry } from './logIngester.js';
+import { ResetTimeService } from './resetTimeService.js';
+
+const MINUTE_MS = 60 * 1000;
+const HALF_LIFE_MINUTES = 15;
+const ALPHA = 1 - 2 ** (-1 / HALF_LIFE_MINUTES); // per-minute EWMA weight
+const MAX_HORIZON_MINUTES = 24 * 60;
+const CONE_STEP_MINUTES = 10;
+const Z_90 = 1.2816; // standard normal 90th percentile
+const MIN_SEASONALITY_BLOCKS = 10;
+const MIN_FACTOR = 0.5;
+const MAX_FACTOR = 2;
+const SEASONALITY_SLICE_MS = 15 * MINUTE_MS;
+const FULL_CONFIDENCE_MINUTES = 60; // timeline length at which data sufficiency stops limiting confidence
+
+interface ProjectionStep {
+  time: number; // epoch ms
+  rate: number; // tokens per minute at the current hour's activity level
+  mean: number; // projected tokens from now, median
+  low: number; // 10th percentile
+  high: number; // 90th percentile
+}
+
+function getEntryTokens(entry: LoadedUsageEntry): number {
+  return (
+    entry.usage.inputTokens +
+    entry.usage.outputTokens +
+    entry.usage.cacheCreationInputTokens +
+    entry.usage.cacheReadInputTokens
+  );
+}
+
+function getBlockTokens(block: CCUsageBlock): number {
+  const counts = block.tokenCounts ?? {};
+  return (
+    (counts.inputTokens ?? 0) +
+    (counts.outputTokens ?? 0) +
+    (counts.cacheCreationInputTokens ?? 0) +
+    (counts.cacheReadInputTokens ?? 0)
+  );
+}
+
+/**
+ * Tokens used in each minute from start up to now
+ */
+export function buildMinuteTimeline(entries: LoadedUsageEntry[], start: Date, now: Date): number[] {
+  const minutes = Math.max(1, Math.ceil((now.getTime() - start.getTime()) / MINUTE_MS));
+  const timeline = new Array<number>(minutes).fill(0);
+
+  for (const entry of entries) {
+    const index = Math.floor((entry.timestamp.getTime() - start.getTime()) / MINUTE_MS);
+    if (index >= 0 && index < minutes) {
+      timeline[index] += getEntryTokens(entry);
+    }
+  }
+  return timeline;
+}
+
+/**
+ * How busy each hour of the day is relative to the average hour, from completed blocks.
+ * Each block's tokens are spread evenly over its active span. All 1 without enough history.
+ */
+export function calculateHourlyFactors(blocks: CCUsageBlock[], timezone: string): number[] {
+  const totals = new Array<number>(24).fill(0);
+  const usable = blocks.filter((block) => !block.isGap && getBlockTokens(block) > 0);
+  if (usable.length < MIN_SEASONALITY_BLOCKS) return totals.fill(1);
+
+  for (const block of usable) {
+    const start = new Date(block.startTime).getTime();
+    const end = new Date(block.actualEndTime ?? block.endTime ?? block.startTime).getTime();
+    const slices = Math.max(1, Math.ceil((end - start) / SEASONALITY_SLICE_MS));
+    const tokensPerSlice = getBlockTokens(block) / slices;
+
+    for (let i = 0; i < slices; i++) {
+      const midpoint = new Date(start + ((i + 0.5) * (end - start)) / slices);
+      totals[toZonedTime(midpoint, timezone).getHours()] += tokensPerSlice;
+    }
+  }
+
+  const average = totals.reduce((sum, total) => sum + total, 0) / 24;
+  return totals.map((total) => Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, total / average)));
+}
+
+/**
+ * Forecasts when the session limit will be reached, with percentile bounds.
+ * The per-minute timeline of the active block gives an exponentially weighted rate and
+ * variance; stored history scales that rate by hour of day. Cumulative usage is treated
+ * as normal, widened by the uncertainty of the rate estimate itself.
+ */
+export class ForecastService {
+  private static instance: ForecastService;
+  private historyStore: HistoryStore;
+  private resetTimeService: ResetTimeService;
+  private factorCache: { key: string; factors: number[] } | null = null;
+
+  constructor(
+    historyStore = HistoryStore.getInstance(),
+    resetTimeService = ResetTimeService.getInstance()
+  ) {
+    this.historyStore = historyStore;
+    this.resetTimeService = resetTimeService;
+  }
+
+  static getInstance(): ForecastService {
+    if (!ForecastService.instance) {
+      ForecastService.instance = new ForecastService();
+    }
+    return ForecastService.instance;
+  }
+
+  forecast(
+    entries: LoadedUsageEntry[],
+    blockStart: Date,
+    tokensUsed: number,
+    tokenLimit: number,
+    resetInfo: ResetTimeInfo,
+    now = new Date()
+  ): DepletionForecast {
+    const timeline = buildMinuteTimeline(entries, blockStart, now);
+    const horizonMinutes = Math.max(
+      1,
+      Math.min(MAX_HORIZON_MINUTES, Math.ceil(resetInfo.timeUntilReset / MINUTE_MS))
+    );
+    const steps = this.project(timeline, horizonMinutes, now);
+    const remaining = tokenLimit - tokensUsed;
+
+    // Earliest step at which a band reaches the remaining tokens
+    const reachedAt = (band: (step: ProjectionStep) => number): ProjectionStep | undefined =>
+      remaining <= 0 ? undefined : steps.find((step) => band(step) >= remaining);
+    const toTime = (step: ProjectionStep | undefined) =>
+      remaining <= 0 ? now.toISOString() : step ? new Date(step.time).toISOString() : null;
+
+    const median = reachedAt((step) => step.mean);
+    const confidenceStep = median ?? steps[steps.length - 1];
+
+    return {
+      p10: toTime(reachedAt((step) => step.high)),
+      p50: toTime(median),
+      p90: toTime(reachedAt((step) => step.low)),
+      ratePerMinute: Math.round((steps[0]?.rate ?? 0) * 10) / 10,
+      confidence: this.calculateConfidence(timeline.length, confidenceStep),
+      horizon: new Date(now.getTime() + horizonMinutes * MINUTE_MS).toISOString(),
+      cone: [
+        { time: now.toISOString(), p10: tokensUsed, p50: tokensUsed, p90: tokensUsed },
+        ...steps
+          .filter((_, i) => (i + 1) % CONE_STEP_MINUTES === 0 || i === steps.length - 1)
+          .map((step) => ({
+            time: new Date(step.time).toISOString(),
+            p10: Math.round(tokensUsed + step.low),
+            p50: Math.round(tokensUsed + step.mean),
+            p90: Math.round(tokensUsed + step.high),
+          })),
+      ],
+    };
+  }
+
+  /**
+   * Projected cumulative tokens for each minute up to the horizon
+   */
+  private project(timeline: number[], horizonMinutes: number, now: Date): ProjectionStep[] {
+    const { timezone } = this.resetTimeService.getConfiguration();
+    const factors = this.getHourlyFactors(timezone);
+    const hourFactor = (time: number) => factors[toZonedTime(new Date(time), timezone).getHours()];
+
+    const { rate, variance } = this.estimateRate(timeline);
+    // The rate was observed at the current hour's level of activity
+    const currentFactor = hourFactor(now.getTime());
+    // Fewer minutes observed means a less certain rate
+    const rateVariance = variance / Math.min(timeline.length, (2 - ALPHA) / ALPHA);
+
+    const steps: ProjectionStep[] = [];
+    let scale = 0; // sum of seasonal factors relative to now
+    let scaleSquares = 0;
+    let low = 0;
+
+    for (let minute = 1; minute <= horizonMinutes; minute++) {
+      const time = now.getTime() + minute * MINUTE_MS;
+      const relative = hourFactor(time) / currentFactor;
+      scale += relative;
+      scaleSquares += relative ** 2;
+
+      const mean = rate * scale;
+      const spread = Z_90 * Math.sqrt(variance * scaleSquares + rateVariance * scale ** 2);
+      low = Math.max(low, mean - spread); // cumulative usage never goes down
+      steps.push({ time, rate, mean, low, high: mean + spread });
+    }
+    return steps;
+  }
+
+  /**
+   * Exponentially weighted mean and variance of tokens per minute, seeded with the
+   * plain mean and variance so a young block doesn't start from zero
+   */
+  private estimateRate(timeline: number[]): { rate: number; variance: number } {
+    let rate = timeline.reduce((sum, tokens) => sum + tokens, 0) / timeline.length;
+    let variance =
+      timeline.reduce((sum, tokens) => sum + (tokens - rate) ** 2, 0) / timeline.length;
+
+    for (const tokens of timeline) {
+      const deviation = tokens - rate;
+      rate += ALPHA * deviation;
+      variance = (1 - ALPHA) * (variance + ALPHA * deviation ** 2);
+    }
+    return { rate, variance };
+  }
+
+  /**
+   * Narrower forecasts backed by a longer timeline are more trustworthy. The spread is
+   * taken where the median forecast reaches the limit, or at the horizon.
+   */
+  private calculateConfidence(timelineMinutes: number, step: ProjectionStep | undefined): number {
+    const sufficiency = Math.min(1, timelineMinutes / FULL_CONFIDENCE_MINUTES);
+    // With no usage at all there is nothing to be precise about
+    const precision =
+      step && step.mean > 0 ? 1 / (1 + (step.high - step.mean) / Z_90 / step.mean) : 0.5;
+    return Math.round(sufficiency * precision * 100);
+  }
+
+  private getHourlyFactors(timezone: string): number[] {
+    const blocks = this.historyStore.getCompletedBlocks();
+    const key = `${timezone}:${blocks.length}`;
+    if (this.factorCache?.key !== key) {
+      this.factorCache = { key, factors: calculateHourlyFactors(blocks, timezone) };
+    }
+    return this.factorCache.factors;
+  }
+}
@@ -0,0 +1,104 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, describe, test } from 'node:test';
+import type { CCUsageBlock, DailyUsage } from '../types/usage.js';
+import { HistoryStore } from './historyStore.js';
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccseva-history-test-'));
+
+const day = (date: string, totalTokens: number): DailyUsage => ({
+  date,
+  totalTokens,
+  totalCost: totalTokens / 1000,
+  models: {},
+});
+
+const countLines = (directory: string, filename: string) =>
+  fs
+    .readFileSync(path.join(directory, 'history', filename), 'utf-8')
+    .trim()
+    .split('\n').length;
+
+after(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe('HistoryStore', () => {
+  test('compacts superseded daily snapshots once they make up most of the file', () => {
+    const directory = fs.mkdtempSync(path.join(rootDir, 'polls-'));
+    const store = new HistoryStore();
+    store.setStorageDirectory(directory);
+
+    store.recordDailyUsage([day('2026-10-17', 5000)]);
+    // Every poll appends today's growing total
+    for (let poll = 1; poll <= 150; poll++) {
+      store.recordDailyUsage([day('2026-10-17', 5000), day('2026-10-18', poll * 100)]);
+    }
+
+    assert.ok(countLines(directory, 'daily.jsonl') < 100);
+    const reloaded = new HistoryStore();
+    reloaded.setStorageDirectory(directory);
+    assert.deepEqual(reloaded.getDailyUsage(), [day('2026-10-17', 5000), day('2026-10-18', 15000)]);
+  });
+
+  test('keeps the largest total seen for a day whose logs were pruned', () => {
+    const directory = fs.mkdtempSync(path.join(rootDir, 'pruned-'));
+    const store = new HistoryStore();
+    store.setStorageDirectory(directory);
+
+    store.recordDailyUsage([day('2026-10-17', 5000)]);
+    store.recordDailyUsage([day('2026-10-17', 2000)]);
+
+    assert.equal(countLines(directory, 'daily.jsonl'), 1);
+    assert.deepEqual(store.getDailyUsage(), [day('2026-10-17', 5000)]);
+  });
+
+  test('compacts on load, keeping the last line for each key and skipping a torn one', () => {
+    const directory = fs.mkdtempSync(path.join(rootDir, 'load-'));
+    const historyDir = path.join(directory, 'history');
+    fs.mkdirSync(historyDir);
+    const lines = Array.from(
+      { length: 120 },
+      (_, i) => `${JSON.stringify(day(`2026-10-${i % 2 === 0 ? '17' : '18'}`, i))}\n`
+    );
+    fs.writeFileSync(path.join(historyDir, 'daily.jsonl'), `${lines.join('')}{"date":`);
+
+    const store = new HistoryStore();
+    store.setStorageDirectory(directory);
+
+    const expected = [day('2026-10-17', 118), day('2026-10-18', 119)];
+    assert.deepEqual(store.getDailyUsage(), expected);
+    assert.equal(countLines(directory, 'daily.jsonl'), 2);
+    assert.equal(fs.existsSync(path.join(historyDir, 'daily.jsonl.tmp')), false);
+  });
+
+  test('a read-only store keeps new snapshots in memory and leaves the files alone', () => {
+    const directory = fs.mkdtempSync(path.join(rootDir, 'read-only-'));
+    const historyDir = path.join(directory, 'history');
+    fs.mkdirSync(historyDir);
+    const lines = Array.from(
+      { length: 120 },
+      (_, i) => `${JSON.stringify(day('2026-10-17', i))}\n`
+    );
+    fs.writeFileSync(path.join(historyDir, 'daily.jsonl'), lines.join(''));
+
+    const store = new HistoryStore();
+    store.setStorageDirectory(directory, true);
+    store.recordDailyUsage([day('2026-10-18', 500)]);
+    store.recordCompletedBlocks([
+      {
+        id: 'block',
+        startTime: '2026-10-18T10:00:00.000Z',
+        isActive: false,
+        isGap: false,
+      } as CCUsageBlock,
+    ]);
+
+    assert.deepEqual(store.getDailyUsage(), [day('2026-10-17', 119), day('2026-10-18', 500)]);
+    assert.equal(store.getCompletedBlocks().length, 1);
+    assert.equal(countLines(directory, 'daily.jsonl'), 120);
+    assert.deepEqual(fs.readdirSync(historyDir), ['daily.jsonl']);
+  });
+});
@@ -0,0 +1,169 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { CCUsageBlock, DailyUsage } from '../types/usage.js';
+
+const HISTORY_DIRNAME = 'history';
+const DAILY_FILENAME = 'daily.jsonl';
+const BLOCKS_FILENAME = 'blocks.jsonl';
+const MIN_LINES_BEFORE_COMPACTION = 100;
+
+/**
+ * Append-only JSONL store that keeps daily usage and completed session blocks
+ * after Claude Code prunes its own logs.
+ */
+export class HistoryStore {
+  private static instance: HistoryStore;
+  private historyDir: string | null = null;
+  private dailyUsage = new Map<string, DailyUsage>();
+  private blocks = new Map<string, CCUsageBlock>();
+  private lineCounts = new Map<string, number>(); // lines in each file, superseded ones included
+  private readOnly = false; // keeps new snapshots in memory only, e.g. next to a running app
+
+  static getInstance(): HistoryStore {
+    if (!HistoryStore.instance) {
+      HistoryStore.instance = new HistoryStore();
+    }
+    return HistoryStore.instance;
+  }
+
+  /**
+   * Load stored history from the given directory. A read-only store never appends to or
+   * compacts the files, leaving them to the process that owns them.
+   */
+  setStorageDirectory(directory: string, readOnly = false): void {
+    this.historyDir = path.join(directory, HISTORY_DIRNAME);
+    this.readOnly = readOnly;
+    this.dailyUsage = new Map();
+    this.blocks = new Map();
+
+    // Later lines supersede earlier ones for the same key
+    const dailyLines = this.readLines(DAILY_FILENAME);
+    for (const day of dailyLines as DailyUsage[]) {
+      this.dailyUsage.set(day.date, day);
+    }
+
+    const blockLines = this.readLines(BLOCKS_FILENAME);
+    for (const block of blockLines as CCUsageBlock[]) {
+      this.blocks.set(this.getBlockKey(block), block);
+    }
+
+    this.lineCounts = new Map([
+      [DAILY_FILENAME, dailyLines.length],
+      [BLOCKS_FILENAME, blockLines.length],
+    ]);
+    this.compactIfNeeded(DAILY_FILENAME, [...this.dailyUsage.values()]);
+    this.compactIfNeeded(BLOCKS_FILENAME, [...this.blocks.values()]);
+  }
+
+  /**
+   * Snapshot daily usage, keeping the largest totals seen for each day.
+   * A past day's usage only grows, so a smaller total means its logs were partly pruned.
+   */
+  recordDailyUsage(days: DailyUsage[]): void {
+    const changed = days.filter((day) => {
+      const stored = this.dailyUsage.get(day.date);
+      return (
+        !stored ||
+        day.totalTokens > stored.totalTokens ||
+        (day.totalTokens === stored.totalTokens && day.totalCost !== stored.totalCost)
+      );
+    });
+
+    for (const day of changed) {
+      this.dailyUsage.set(day.date, day);
+    }
+    // Today's total grows with every poll, so its superseded lines are compacted away as they pile up
+    this.append(DAILY_FILENAME, changed);
+    this.compactIfNeeded(DAILY_FILENAME, [...this.dailyUsage.values()]);
+  }
+
+  /**
+   * Store completed session blocks that haven't been recorded yet
+   */
+  recordCompletedBlocks(blocks: CCUsageBlock[]): void {
+    const added = blocks.filter(
+      (block) => !block.isActive && !block.isGap && !this.blocks.has(this.getBlockKey(block))
+    );
+
+    for (const block of added) {
+      this.blocks.set(this.getBlockKey(block), block);
+    }
+    this.append(BLOCKS_FILENAME, added);
+  }
+
+  /**
+   * Daily usage between two YYYY-MM-DD dates (inclusive), oldest first
+   */
+  getDailyUsage(startDate?: string, endDate?: string): DailyUsage[] {
+    return [...this.dailyUsage.values()]
+      .filter((day) => (!startDate || day.date >= startDate) && (!endDate || day.date <= endDate))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Completed session blocks, oldest first
+   */
+  getCompletedBlocks(): CCUsageBlock[] {
+    return [...this.blocks.values()].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  getBlockKey(block: CCUsageBlock): string {
+    return block.id ?? block.startTime;
+  }
+
+  private readLines(filename: string): unknown[] {
+    if (!this.historyDir) return [];
+    const filePath = path.join(this.historyDir, filename);
+
+    try {
+      if (!fs.existsSync(filePath)) return [];
+
+      const records: unknown[] = [];
+      for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          // A crash mid-append can leave a truncated last line; skip it
+        }
+      }
+      return records;
+    } catch (error) {
+      console.error(`Error loading usage history from ${filename}:`, error);
+      return [];
+    }
+  }
+
+  private append(filename: string, records: unknown[]): void {
+    if (!this.historyDir || this.readOnly || records.length === 0) return;
+
+    try {
+      fs.mkdirSync(this.historyDir, { recursive: true });
+      const lines = records.map((record) => `${JSON.stringify(record)}\n`).join('');
+      fs.appendFileSync(path.join(this.historyDir, filename), lines);
+      this.lineCounts.set(filename, (this.lineCounts.get(filename) ?? 0) + records.length);
+    } catch (error) {
+      console.error(`Error saving usage history to ${filename}:`, error);
+    }
+  }
+
+  /**
+   * Rewrite a file without superseded lines once they make up most of it
+   */
+  private compactIfNeeded(filename: string, records: unknown[]): void {
+    const lineCount = this.lineCounts.get(filename) ?? 0;
+    if (!this.historyDir || this.readOnly) return;
+    if (lineCount < MIN_LINES_BEFORE_COMPACTION || lineCount < records.length * 2) return;
+
+    const filePath = path.join(this.historyDir, filename);
+    const tempPath = `${filePath}.tmp`;
+
+    try {
+      fs.writeFileSync(tempPath, records.map((record) => `${JSON.stringify(record)}\n`).join(''));
+      fs.renameSync(tempPath, filePath);
+      this.lineCounts.set(filename, records.length);
+    } catch (error) {
+      console.error(`Error compacting usage history ${filename}:`, error);
+    }
+  }
+}
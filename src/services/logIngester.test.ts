@@ -0,0 +1,111 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, test } from 'node:test';
+import { PricingFetcher } from 'ccusage/pricing-fetcher';
+import { systemClock } from '../utils/clock.js';
+import { LogIngester } from './logIngester.js';
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccseva-ingester-test-'));
+
+/**
+ * An ingester that prices entries from ccusage's bundled pricing instead of fetching it
+ */
+function createIngester(): LogIngester {
+  return new LogIngester(systemClock, new PricingFetcher(true));
+}
+
+function usageLine(name: string, index: number): string {
+  return JSON.stringify({
+    timestamp: new Date(Date.UTC(2026, 9, 18, 10, index)).toISOString(),
+    sessionId: 'session',
+    cwd: `/work/${name}`,
+    requestId: `${name}-request-${index}`,
+    message: {
+      id: `${name}-message-${index}`,
+      model: 'claude-sonnet-4-20250514',
+      usage: { input_tokens: 100, output_tokens: 10 },
+    },
+  });
+}
+
+/**
+ * A Claude config directory with one session log of count usage lines
+ */
+function createClaudeDirectory(name: string, count: number): string {
+  const claudeDir = path.join(rootDir, name);
+  const projectDir = path.join(claudeDir, 'projects', `-work-${name}`);
+  fs.mkdirSync(projectDir, { recursive: true });
+
+  const lines = Array.from({ length: count }, (_, index) => usageLine(name, index));
+  fs.writeFileSync(path.join(projectDir, 'session.jsonl'), `${lines.join('\n')}\n`);
+  return claudeDir;
+}
+
+after(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+test('switching directories mid-scan drops what the scan read from the old ones', async () => {
+  const oldDir = createClaudeDirectory('old', 50);
+  const newDir = createClaudeDirectory('new', 20);
+  const ingester = createIngester();
+  ingester.setDataSources([{ id: 'old', label: '', path: oldDir, enabled: true }], false);
+
+  const scanning = ingester.ingest();
+  // Wait until the scan has listed the old directory's logs
+  while (ingester.getDiagnostics().directories.length === 0) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  ingester.setDataSources([{ id: 'new', label: '', path: newDir, enabled: true }], false);
+  await scanning;
+
+  const sources = () => new Set(ingester.getEntries().map((entry) => entry.source));
+  assert.deepEqual(sources(), new Set([newDir]));
+  assert.equal(ingester.getEntries().length, 20);
+
+  // Nothing is read twice on the next pass
+  await ingester.ingest();
+  assert.equal(ingester.getEntries().length, 20);
+});
+
+test('each pass reads only the complete lines appended since the last one', async () => {
+  const claudeDir = createClaudeDirectory('append', 3);
+  const logFile = path.join(claudeDir, 'projects', '-work-append', 'session.jsonl');
+  const ingester = createIngester();
+  ingester.setDataSources([{ id: 'append', label: '', path: claudeDir, enabled: true }], false);
+
+  assert.equal(await ingester.ingest(), true);
+  assert.equal(ingester.getEntries().length, 3);
+  assert.ok(ingester.getEntries().every((entry) => (entry.costUSD ?? 0) > 0));
+  assert.equal(await ingester.ingest(), false);
+
+  // A line still being written is left for the next pass
+  const partial = usageLine('append', 4);
+  fs.appendFileSync(logFile, `${usageLine('append', 3)}\n${partial.slice(0, 40)}`);
+  assert.equal(await ingester.ingest(), true);
+  assert.equal(ingester.getEntries().length, 4);
+
+  fs.appendFileSync(logFile, `${partial.slice(40)}\n`);
+  assert.equal(await ingester.ingest(), true);
+  assert.equal(ingester.getEntries().length, 5);
+  assert.equal(ingester.getDailyData()[0].inputTokens, 5 * 100);
+});
+
+test('a log that shrinks is read again from the start', async () => {
+  const claudeDir = createClaudeDirectory('truncate', 5);
+  const logFile = path.join(claudeDir, 'projects', '-work-truncate', 'session.jsonl');
+  const ingester = createIngester();
+  ingester.setDataSources([{ id: 'truncate', label: '', path: claudeDir, enabled: true }], false);
+  await ingester.ingest();
+  assert.equal(ingester.getEntries().length, 5);
+
+  fs.writeFileSync(logFile, `${usageLine('truncate', 10)}\n`);
+  assert.equal(await ingester.ingest(), true);
+  assert.deepEqual(
+    ingester.getEntries().map((entry) => entry.timestamp.toISOString()),
+    [new Date(Date.UTC(2026, 9, 18, 10, 10)).toISOString()]
+  );
+  assert.equal(ingester.getDailyData()[0].inputTokens, 100);
+});
@@ -0,0 +1,756 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  type UsageData,
+  calculateCostForEntry,
+  createUniqueHash,
+  formatDate,
+  getClaudePaths,
+  usageDataSchema,
+} from 'ccusage/data-loader';
+import { PricingFetcher } from 'ccusage/pricing-fetcher';
+import type {
+  DataDirectoryDiagnostics,
+  DataSourceConfig,
+  DataSourceDiagnostics,
+} from '../types/usage.js';
+import { type Clock, systemClock } from '../utils/clock.js';
+
+export interface ModelBreakdown {
+  modelName: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost: number;
+}
+
+export interface DailyDataEntry {
+  date: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalCost: number;
+  modelBreakdowns: ModelBreakdown[];
+}
+
+// Define SessionBlock interface matching ccusage package structure
+export interface LoadedUsageEntry {
+  timestamp: Date;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationInputTokens: number;
+    cacheReadInputTokens: number;
+  };
+  costUSD: number | null;
+  model: string;
+  version?: string;
+  projectPath: string;
+  sessionId: string;
+  source: string; // Claude config directory the entry was read from
+}
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export interface SessionBlock {
+  id: string;
+  startTime: Date;
+  endTime: Date;
+  actualEndTime?: Date;
+  isActive: boolean;
+  isGap?: boolean;
+  entries: LoadedUsageEntry[];
+  tokenCounts: TokenCounts;
+  costUSD: number;
+  models: string[];
+}
+
+export interface ProjectDataEntry {
+  projectPath: string;
+  displayName: string;
+  sessionIds: string[];
+  lastActivity: Date;
+  dailyData: DailyDataEntry[];
+}
+
+export interface SourceDataEntry {
+  directory: string;
+  lastActivity: Date;
+  dailyData: DailyDataEntry[];
+}
+
+interface FileState {
+  offset: number; // bytes consumed up to the last complete line
+  size: number;
+  mtimeMs: number;
+}
+
+interface DailyAggregate {
+  date: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalCost: number;
+  models: Map<string, ModelBreakdown>;
+}
+
+interface ProjectAggregate {
+  projectPath: string; // cwd reported by the logs, or the log directory name
+  sessionIds: Set<string>;
+  lastActivity: Date;
+  daily: Map<string, DailyAggregate>;
+}
+
+interface SourceAggregate {
+  lastActivity: Date;
+  daily: Map<string, DailyAggregate>;
+}
+
+// Where a log line came from: the Claude directory, the project directory under its projects/,
+// and the session file
+interface LogSource {
+  claudeDirectory: string;
+  projectDir: string;
+  sessionId: string;
+}
+
+const PROJECTS_DIR_NAME = 'projects';
+const CLAUDE_CONFIG_DIR_ENV = 'CLAUDE_CONFIG_DIR';
+const SESSION_DURATION_MS = 5 * 60 * 60 * 1000; // Claude uses 5-hour sessions
+const NEWLINE = 0x0a;
+
+async function isDirectory(directory: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(directory)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Incrementally ingests Claude Code JSONL logs. Each file is read from the offset
+ * reached last time, so a poll only parses lines appended since the previous one.
+ * Mirrors the block and daily aggregation in ccusage's data loader.
+ */
+export class LogIngester {
+  private static instance: LogIngester;
+  private files = new Map<string, FileState>();
+  private processedHashes = new Set<string>();
+  private entries: LoadedUsageEntry[] = []; // sorted by timestamp
+  private blocks: SessionBlock[] = []; // oldest first, including gap blocks
+  private dailyAggregates = new Map<string, DailyAggregate>();
+  private projectAggregates = new Map<string, ProjectAggregate>(); // keyed by project directory
+  private sourceAggregates = new Map<string, SourceAggregate>(); // keyed by Claude directory
+  private pricingFetcher: PricingFetcher;
+  private pendingIngest: Promise<boolean> | null = null;
+  private resetRequested = false; // a reset arrived while a scan was reading the old directories
+  private directories: DataDirectoryDiagnostics[] = []; // as found by the last scan
+  private dataDirectoryOverride: string[] | null = null; // replaces ccusage's discovery, e.g. in demo mode
+  private dataSources: DataSourceConfig[] = []; // from Settings, with resolved paths
+  private discoverDirectories = true; // false reads only the configured directories, e.g. for a profile
+  private lastScan: Date | null = null;
+  private clock: Clock;
+
+  constructor(clock = systemClock, pricingFetcher = new PricingFetcher()) {
+    this.clock = clock;
+    this.pricingFetcher = pricingFetcher;
+  }
+
+  static getInstance(): LogIngester {
+    if (!LogIngester.instance) {
+      LogIngester.instance = new LogIngester();
+    }
+    return LogIngester.instance;
+  }
+
+  /**
+   * Pick up new log lines. Concurrent callers share one pass so lines are never counted twice.
+   * Resolves to true when anything changed.
+   */
+  ingest(): Promise<boolean> {
+    if (!this.pendingIngest) {
+      this.pendingIngest = this.scanUntilCurrent().finally(() => {
+        this.pendingIngest = null;
+        // A scan that failed leaves a reset asked for during it undone
+        if (this.resetRequested) {
+          this.resetRequested = false;
+          this.clear();
+        }
+      });
+    }
+    return this.pendingIngest;
+  }
+
+  /**
+   * Session blocks, newest first, with active flags evaluated against the current time
+   */
+  getSessionBlocks(): SessionBlock[] {
+    const now = this.clock();
+    for (const block of this.blocks) {
+      if (block.isGap) continue;
+      const lastActivity = (block.actualEndTime ?? block.startTime).getTime();
+      block.isActive = now - lastActivity < SESSION_DURATION_MS && now < block.endTime.getTime();
+    }
+    return [...this.blocks].reverse();
+  }
+
+  /**
+   * Every ingested entry, oldest first
+   */
+  getEntries(): LoadedUsageEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Daily aggregates in the shape of ccusage's loadDailyUsageData, newest first
+   */
+  getDailyData(): DailyDataEntry[] {
+    return [...this.dailyAggregates.values()]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .map((daily) => this.toDailyDataEntry(daily));
+  }
+
+  /**
+   * Usage grouped by the project directory Claude Code logged it under, with daily data newest first
+   */
+  getProjectData(): ProjectDataEntry[] {
+    const projects = [...this.projectAggregates.values()].filter(
+      (project) => project.sessionIds.size > 0
+    );
+    return projects.map((project) => ({
+      projectPath: project.projectPath,
+      displayName: project.projectPath.split(/[\\/]/).filter(Boolean).pop() ?? project.projectPath,
+      sessionIds: [...project.sessionIds],
+      lastActivity: project.lastActivity,
+      dailyData: [...project.daily.values()]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .map((daily) => this.toDailyDataEntry(daily)),
+    }));
+  }
+
+  /**
+   * Usage grouped by the Claude data directory it was read from, in scan order
+   */
+  getSourceData(): SourceDataEntry[] {
+    return [...this.sourceAggregates].map(([directory, source]) => ({
+      directory,
+      lastActivity: source.lastActivity,
+      dailyData: [...source.daily.values()]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .map((daily) => this.toDailyDataEntry(daily)),
+    }));
+  }
+
+  /**
+   * Data directories configured in Settings. Enabled ones are read alongside the directories
+   * ccusage finds, and disabled ones are skipped even when ccusage finds them. Without
+   * discovery only the enabled ones are read, so a profile sees just its own account.
+   * Everything is re-read on the next ingest when the set of directories changes.
+   */
+  setDataSources(sources: DataSourceConfig[], discover = true): void {
+    // A blank path would resolve to the working directory
+    const resolved = sources
+      .filter((source) => source.path.trim())
+      .map((source) => ({ ...source, path: path.resolve(source.path) }));
+    const key = (list: DataSourceConfig[]) =>
+      JSON.stringify(list.map((source) => [source.path, source.enabled]));
+    const changed =
+      key(resolved) !== key(this.dataSources) || discover !== this.discoverDirectories;
+
+    this.dataSources = resolved;
+    this.discoverDirectories = discover;
+    if (changed) {
+      this.reset();
+    }
+  }
+
+  /**
+   * The Claude config directories logs are read from
+   */
+  getClaudeDirectories(): string[] {
+    if (this.dataDirectoryOverride) return [...this.dataDirectoryOverride];
+
+    const configured = this.dataSources
+      .filter((source) => source.enabled)
+      .map((source) => source.path);
+    const disabled = new Set(
+      this.dataSources.filter((source) => !source.enabled).map((source) => source.path)
+    );
+
+    if (!this.discoverDirectories) {
+      if (configured.length === 0) {
+        throw new Error('This profile has no enabled Claude data directory');
+      }
+      return configured;
+    }
+
+    let discovered: string[] = [];
+    try {
+      discovered = getClaudePaths().map((directory) => path.resolve(directory));
+    } catch (error) {
+      // ccusage throws when none of its candidates has a projects directory
+      if (configured.length === 0) throw error;
+    }
+
+    const directories = [...new Set([...discovered, ...configured])].filter(
+      (directory) => !disabled.has(directory)
+    );
+    if (directories.length === 0) {
+      throw new Error('Every Claude data directory is turned off in Settings → Data Sources');
+    }
+    return directories;
+  }
+
+  /**
+   * Read logs from these Claude config directories instead of the ones ccusage finds,
+   * or go back to ccusage's discovery with null. Everything is re-read on the next ingest.
+   */
+  setDataDirectories(directories: string[] | null): void {
+    this.dataDirectoryOverride = directories?.map((directory) => path.resolve(directory)) ?? null;
+    this.reset();
+  }
+
+  /**
+   * Add entries another ingester already loaded, e.g. past usage fed in by a replay.
+   * Projects are keyed by the path the entries report rather than their log directory.
+   */
+  addLoadedEntries(entries: LoadedUsageEntry[]): void {
+    for (const entry of entries) {
+      this.addToAggregates(entry, this.getProject(entry.projectPath, entry.projectPath));
+    }
+    this.addEntries([...entries]);
+  }
+
+  /**
+   * What the last scan found in each candidate Claude data directory
+   */
+  getDiagnostics(): Omit<DataSourceDiagnostics, 'status'> {
+    return {
+      configDirEnv: process.env[CLAUDE_CONFIG_DIR_ENV] ?? null,
+      directories: this.directories.map((directory) => ({ ...directory })),
+      lastScan: this.lastScan?.toISOString() ?? null,
+      logFileCount: this.files.size,
+      entryCount: this.entries.length,
+      blockCount: this.blocks.filter((block) => !block.isGap).length,
+    };
+  }
+
+  /**
+   * Forget everything so the next ingest re-reads all logs from the start. A scan in progress
+   * still holds results from before the reset, so it is thrown away and run again once it ends.
+   */
+  reset(): void {
+    if (this.pendingIngest) {
+      this.resetRequested = true;
+      return;
+    }
+    this.clear();
+  }
+
+  private clear(): void {
+    this.files.clear();
+    this.processedHashes.clear();
+    this.entries = [];
+    this.blocks = [];
+    this.dailyAggregates.clear();
+    this.projectAggregates.clear();
+    this.sourceAggregates.clear();
+  }
+
+  /**
+   * Scan, starting over for as long as resets arrive mid-scan
+   */
+  private async scanUntilCurrent(): Promise<boolean> {
+    let changed = await this.scan();
+    while (this.resetRequested) {
+      this.resetRequested = false;
+      this.clear();
+      await this.scan();
+      changed = true;
+    }
+    return changed;
+  }
+
+  private async scan(): Promise<boolean> {
+    const logFiles = await this.listLogFiles();
+    const stats = new Map<string, { stat: fs.Stats; source: LogSource }>();
+    for (const [file, source] of logFiles) {
+      try {
+        stats.set(file, { stat: await fs.promises.stat(file), source });
+      } catch {
+        // File removed between listing and stat
+      }
+    }
+
+    // Entries can't be subtracted, so a pruned or rewritten log means starting over
+    const needsRebuild = [...this.files].some(([file, state]) => {
+      const stat = stats.get(file)?.stat;
+      return !stat || stat.size < state.offset;
+    });
+    if (needsRebuild) {
+      this.clear();
+    }
+
+    const newEntries: LoadedUsageEntry[] = [];
+    for (const [file, { stat, source }] of stats) {
+      const state = this.files.get(file);
+      if (state && state.size === stat.size && state.mtimeMs === stat.mtimeMs) continue;
+
+      const offset = state?.offset ?? 0;
+      const consumed = await this.readAppendedLines(file, source, offset, stat.size, newEntries);
+      this.files.set(file, { offset: offset + consumed, size: stat.size, mtimeMs: stat.mtimeMs });
+    }
+
+    this.addEntries(newEntries);
+    return needsRebuild || newEntries.length > 0;
+  }
+
+  private async listLogFiles(): Promise<Map<string, LogSource>> {
+    const files = new Map<string, LogSource>();
+    this.lastScan = new Date();
+    this.directories = await this.describeDataDirectories();
+
+    for (const claudePath of this.getClaudeDirectories()) {
+      const directory = this.directories.find((candidate) => candidate.path === claudePath);
+      if (directory) directory.inUse = true;
+      await this.listProjectLogs(claudePath, files, directory);
+    }
+
+    return files;
+  }
+
+  private async listProjectLogs(
+    claudePath: string,
+    files: Map<string, LogSource>,
+    directory?: DataDirectoryDiagnostics
+  ): Promise<void> {
+    const projectsDir = path.join(claudePath, PROJECTS_DIR_NAME);
+    try {
+      const names = await fs.promises.readdir(projectsDir, { recursive: true });
+      for (const name of names) {
+        if (!name.endsWith('.jsonl')) continue;
+        files.set(path.join(projectsDir, name), {
+          claudeDirectory: claudePath,
+          projectDir: name.split(path.sep)[0],
+          sessionId: path.basename(name, '.jsonl'),
+        });
+        if (directory) directory.logFileCount++;
+      }
+    } catch (error) {
+      console.error(`Error listing Claude logs in ${projectsDir}:`, error);
+      if (directory) directory.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * The overridden directories, or those added in Settings, after every directory ccusage
+   * looks in when discovery is on
+   */
+  private async describeDataDirectories(): Promise<DataDirectoryDiagnostics[]> {
+    const candidates = this.dataDirectoryOverride?.map((directory) => ({
+      path: directory,
+      origin: 'override' as const,
+    })) ?? [
+      ...(this.discoverDirectories ? this.getDiscoveryCandidates() : []),
+      ...this.dataSources.map((source) => ({ path: source.path, origin: 'settings' as const })),
+    ];
+
+    const directories: DataDirectoryDiagnostics[] = [];
+    for (const candidate of candidates) {
+      if (directories.some((directory) => directory.path === candidate.path)) continue;
+      const source = this.dataSources.find((configured) => configured.path === candidate.path);
+      directories.push({
+        ...candidate,
+        label: source?.label,
+        enabled: source?.enabled ?? true,
+        inUse: false,
+        exists: await isDirectory(candidate.path),
+        hasProjects: await isDirectory(path.join(candidate.path, PROJECTS_DIR_NAME)),
+        logFileCount: 0,
+      });
+    }
+    return directories;
+  }
+
+  /**
+   * Where ccusage looks, in its order: CLAUDE_CONFIG_DIR entries, ~/.config/claude, ~/.claude
+   */
+  private getDiscoveryCandidates() {
+    const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return [
+      ...(process.env[CLAUDE_CONFIG_DIR_ENV] ?? '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => ({ path: path.resolve(entry), origin: 'env' as const })),
+      { path: path.resolve(configHome, 'claude'), origin: 'default' as const },
+      { path: path.resolve(os.homedir(), '.claude'), origin: 'default' as const },
+    ];
+  }
+
+  /**
+   * Parse complete lines between offset and size, returning how many bytes were consumed.
+   * A trailing line without a newline is still being written and is left for the next pass.
+   */
+  private async readAppendedLines(
+    file: string,
+    source: LogSource,
+    offset: number,
+    size: number,
+    into: LoadedUsageEntry[]
+  ): Promise<number> {
+    if (size <= offset) return 0;
+
+    const buffer = Buffer.alloc(size - offset);
+    const handle = await fs.promises.open(file, 'r');
+    try {
+      await handle.read(buffer, 0, buffer.length, offset);
+    } finally {
+      await handle.close();
+    }
+
+    const lastNewline = buffer.lastIndexOf(NEWLINE);
+    if (lastNewline === -1) return 0;
+
+    const lines = buffer.toString('utf-8', 0, lastNewline).split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const raw = JSON.parse(line);
+        const result = usageDataSchema.safeParse(raw);
+        if (!result.success) continue;
+
+        // Usage lines carry the working directory and session ID that the schema strips
+        const project = this.getProject(source.projectDir, raw.cwd);
+        const sessionId = typeof raw.sessionId === 'string' ? raw.sessionId : source.sessionId;
+        const entry = await this.toEntry(result.data, project, sessionId, source.claudeDirectory);
+        if (entry) into.push(entry);
+      } catch {
+        // Skip malformed lines, as ccusage does
+      }
+    }
+
+    return lastNewline + 1;
+  }
+
+  /**
+   * Project for a log directory, named after the first working directory its logs report
+   */
+  private getProject(projectDir: string, cwd: unknown): ProjectAggregate {
+    let project = this.projectAggregates.get(projectDir);
+    if (!project) {
+      project = {
+        projectPath: typeof cwd === 'string' && cwd ? cwd : projectDir,
+        sessionIds: new Set(),
+        lastActivity: new Date(0),
+        daily: new Map(),
+      };
+      this.projectAggregates.set(projectDir, project);
+    }
+    return project;
+  }
+
+  private async toEntry(
+    data: UsageData,
+    project: ProjectAggregate,
+    sessionId: string,
+    claudeDirectory: string
+  ): Promise<LoadedUsageEntry | null> {
+    const uniqueHash = createUniqueHash(data);
+    if (uniqueHash !== null) {
+      if (this.processedHashes.has(uniqueHash)) return null;
+      this.processedHashes.add(uniqueHash);
+    }
+
+    // Calculate costs from tokens for accuracy
+    const costUSD = await calculateCostForEntry(data, 'calculate', this.pricingFetcher);
+    const entry: LoadedUsageEntry = {
+      timestamp: new Date(data.timestamp),
+      usage: {
+        inputTokens: data.message.usage.input_tokens,
+        outputTokens: data.message.usage.output_tokens,
+        cacheCreationInputTokens: data.message.usage.cache_creation_input_tokens ?? 0,
+        cacheReadInputTokens: data.message.usage.cache_read_input_tokens ?? 0,
+      },
+      costUSD,
+      model: data.message.model ?? 'unknown',
+      version: data.version,
+      projectPath: project.projectPath,
+      sessionId,
+      source: claudeDirectory,
+    };
+
+    this.addToAggregates(entry, project);
+    return entry;
+  }
+
+  private addToAggregates(entry: LoadedUsageEntry, project: ProjectAggregate): void {
+    const date = formatDate(entry.timestamp.toISOString());
+    this.addToDaily(this.dailyAggregates, date, entry);
+    this.addToDaily(project.daily, date, entry);
+    project.sessionIds.add(entry.sessionId);
+    if (entry.timestamp > project.lastActivity) {
+      project.lastActivity = entry.timestamp;
+    }
+
+    const source = this.sourceAggregates.get(entry.source) ?? {
+      lastActivity: new Date(0),
+      daily: new Map<string, DailyAggregate>(),
+    };
+    this.addToDaily(source.daily, date, entry);
+    if (entry.timestamp > source.lastActivity) {
+      source.lastActivity = entry.timestamp;
+    }
+    this.sourceAggregates.set(entry.source, source);
+  }
+
+  private addEntries(newEntries: LoadedUsageEntry[]): void {
+    if (newEntries.length === 0) return;
+
+    newEntries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const lastTimestamp = this.entries[this.entries.length - 1]?.timestamp.getTime() ?? 0;
+
+    if (newEntries[0].timestamp.getTime() >= lastTimestamp) {
+      // The usual case: new lines are newer than everything seen so far
+      for (const entry of newEntries) {
+        this.entries.push(entry);
+        this.appendToBlocks(entry);
+      }
+      return;
+    }
+
+    // Out-of-order lines (e.g. the first load, or an older session file) need a full regroup
+    this.entries = [...this.entries, ...newEntries].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+    this.blocks = [];
+    for (const entry of this.entries) {
+      this.appendToBlocks(entry);
+    }
+  }
+
+  /**
+   * Add an entry to the newest block, or start a new block (and gap) when it falls outside it
+   */
+  private appendToBlocks(entry: LoadedUsageEntry): void {
+    const entryTime = entry.timestamp.getTime();
+    const current = this.blocks[this.blocks.length - 1];
+
+    if (current && !current.isGap) {
+      const lastActivity = (current.actualEndTime ?? current.startTime).getTime();
+      const timeSinceBlockStart = entryTime - current.startTime.getTime();
+      const timeSinceLastEntry = entryTime - lastActivity;
+
+      if (timeSinceBlockStart <= SESSION_DURATION_MS && timeSinceLastEntry <= SESSION_DURATION_MS) {
+        this.addToBlock(current, entry);
+        return;
+      }
+
+      if (timeSinceLastEntry > SESSION_DURATION_MS) {
+        const gapStart = new Date(lastActivity + SESSION_DURATION_MS);
+        this.blocks.push({
+          id: `gap-${gapStart.toISOString()}`,
+          startTime: gapStart,
+          endTime: entry.timestamp,
+          isActive: false,
+          isGap: true,
+          entries: [],
+          tokenCounts: this.emptyTokenCounts(),
+          costUSD: 0,
+          models: [],
+        });
+      }
+    }
+
+    // Blocks start at the top of the hour (UTC) of their first entry
+    const startTime = new Date(entry.timestamp);
+    startTime.setUTCMinutes(0, 0, 0);
+    const block: SessionBlock = {
+      id: startTime.toISOString(),
+      startTime,
+      endTime: new Date(startTime.getTime() + SESSION_DURATION_MS),
+      isActive: false,
+      entries: [],
+      tokenCounts: this.emptyTokenCounts(),
+      costUSD: 0,
+      models: [],
+    };
+    this.addToBlock(block, entry);
+    this.blocks.push(block);
+  }
+
+  private addToBlock(block: SessionBlock, entry: LoadedUsageEntry): void {
+    block.entries.push(entry);
+    block.actualEndTime = entry.timestamp;
+    block.tokenCounts.inputTokens += entry.usage.inputTokens;
+    block.tokenCounts.outputTokens += entry.usage.outputTokens;
+    block.tokenCounts.cacheCreationInputTokens += entry.usage.cacheCreationInputTokens;
+    block.tokenCounts.cacheReadInputTokens += entry.usage.cacheReadInputTokens;
+    block.costUSD += entry.costUSD ?? 0;
+    if (!block.models.includes(entry.model)) {
+      block.models.push(entry.model);
+    }
+  }
+
+  private addToDaily(
+    aggregates: Map<string, DailyAggregate>,
+    date: string,
+    entry: LoadedUsageEntry
+  ): void {
+    const daily = aggregates.get(date) ?? {
+      date,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      totalCost: 0,
+      models: new Map<string, ModelBreakdown>(),
+    };
+    const cost = entry.costUSD ?? 0;
+
+    daily.inputTokens += entry.usage.inputTokens;
+    daily.outputTokens += entry.usage.outputTokens;
+    daily.cacheCreationTokens += entry.usage.cacheCreationInputTokens;
+    daily.cacheReadTokens += entry.usage.cacheReadInputTokens;
+    daily.totalCost += cost;
+
+    const model = daily.models.get(entry.model) ?? {
+      modelName: entry.model,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      cost: 0,
+    };
+    model.inputTokens += entry.usage.inputTokens;
+    model.outputTokens += entry.usage.outputTokens;
+    model.cacheCreationTokens += entry.usage.cacheCreationInputTokens;
+    model.cacheReadTokens += entry.usage.cacheReadInputTokens;
+    model.cost += cost;
+    daily.models.set(entry.model, model);
+
+    aggregates.set(date, daily);
+  }
+
+  private toDailyDataEntry({ models, ...totals }: DailyAggregate): DailyDataEntry {
+    return { ...totals, modelBreakdowns: [...models.values()] };
+  }
+
+  private emptyTokenCounts(): TokenCounts {
+    return {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    };
+  }
+}
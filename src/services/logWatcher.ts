@@ -0,0 +1,95 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ProfileService } from './profileService.js';
+
+const PROJECTS_DIR_NAME = 'projects';
+// Claude Code writes several lines per message; coalesce them into one refresh
+const COALESCE_DELAY = 250;
+
+export class LogWatcher {
+  private static instance: LogWatcher;
+  private watchers = new Map<string, fs.FSWatcher>(); // keyed by projects directory
+  private onChange: (() => void) | null = null;
+  private pendingChange: NodeJS.Timeout | null = null;
+
+  static getInstance(): LogWatcher {
+    if (!LogWatcher.instance) {
+      LogWatcher.instance = new LogWatcher();
+    }
+    return LogWatcher.instance;
+  }
+
+  isWatching(): boolean {
+    return this.watchers.size > 0;
+  }
+
+  /**
+   * Watch the project log directories of every Claude directory a profile reads.
+   * Returns false when none can be watched yet; the caller's polling covers that.
+   */
+  start(onChange: () => void): boolean {
+    this.stop();
+    this.onChange = onChange;
+    return this.watchMissing();
+  }
+
+  /**
+   * Watch project directories that couldn't be watched before, e.g. a projects/ that
+   * Claude Code created after launch or a watcher that failed. Meant to run on every poll.
+   */
+  watchMissing(): boolean {
+    const onChange = this.onChange;
+    if (!onChange) return false;
+
+    try {
+      for (const claudePath of ProfileService.getInstance().getClaudeDirectories()) {
+        const projectsDir = path.join(claudePath, PROJECTS_DIR_NAME);
+        // A directory added in Settings may not have logs yet; the scan reports it
+        if (this.watchers.has(projectsDir) || !fs.existsSync(projectsDir)) continue;
+        const watcher = fs.watch(projectsDir, { recursive: true }, (event, filename) => {
+          if (!filename || filename.endsWith('.jsonl')) {
+            this.scheduleChange(onChange);
+          }
+        });
+
+        watcher.on('error', (error) => {
+          console.error('Log watcher failed, polling until it can be watched again:', error);
+          watcher.close();
+          this.watchers.delete(projectsDir);
+        });
+
+        this.watchers.set(projectsDir, watcher);
+      }
+    } catch (error) {
+      console.error('File watching unavailable, falling back to polling:', error);
+    }
+
+    return this.isWatching();
+  }
+
+  stop(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.onChange = null;
+
+    if (this.pendingChange) {
+      clearTimeout(this.pendingChange);
+      this.pendingChange = null;
+    }
+  }
+
+  /**
+   * Fire once shortly after the first change, so a burst of writes still
+   * refreshes within a second instead of waiting for the burst to end
+   */
+  private scheduleChange(onChange: () => void): void {
+    if (this.pendingChange) return;
+
+    this.pendingChange = setTimeout(() => {
+      this.pendingChange = null;
+      onChange();
+    }, COALESCE_DELAY);
+  }
+}
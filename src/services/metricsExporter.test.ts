@@ -0,0 +1,91 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { DataSourceState, UsageStats } from '../types/usage.js';
+import { buildMetrics, formatMetrics } from './metricsExporter.js';
+
+/**
+ * Usage stats with only the fields the exporter reads
+ */
+const stats = (state: DataSourceState): UsageStats => {
+  const partial: Partial<UsageStats> = {
+    today: {
+      date: '2026-10-18',
+      totalTokens: 1500,
+      totalCost: 0.75,
+      models: { 'claude-sonnet-4': { tokens: 1500, cost: 0.75 } },
+    },
+    thisMonth: [
+      {
+        date: '2026-10-17',
+        totalTokens: 500,
+        totalCost: 0.25,
+        models: { 'claude-sonnet-4': { tokens: 500, cost: 0.25 } },
+      },
+      {
+        date: '2026-10-18',
+        totalTokens: 1500,
+        totalCost: 0.75,
+        models: { 'claude-sonnet-4': { tokens: 1500, cost: 0.75 } },
+      },
+    ],
+    velocity: {
+      current: 1200,
+      average24h: 800,
+      average7d: 600,
+      trend: 'increasing',
+      trendPercent: 50,
+      peakHour: 10,
+      isAccelerating: true,
+    },
+    prediction: {
+      depletionTime: null,
+      confidence: 0,
+      daysRemaining: Number.POSITIVE_INFINITY,
+      recommendedDailyLimit: 0,
+      onTrackForReset: true,
+    },
+    currentPlan: 'Max5',
+    tokenLimit: 88000,
+    tokensUsed: 1500,
+    percentageUsed: 1.7,
+    dataSource: { state, lastSuccessfulLoad: null },
+  };
+  return partial as UsageStats;
+};
+
+describe('Prometheus metrics', () => {
+  test('renders live usage as gauges in the text exposition format', () => {
+    const text = formatMetrics(buildMetrics(stats('live')));
+    const lines = text.split('\n');
+
+    assert.ok(text.endsWith('\n'));
+    assert.deepEqual(lines.slice(0, 3), [
+      '# HELP ccseva_data_source_state Where the exported stats come from, 1 for the current state',
+      '# TYPE ccseva_data_source_state gauge',
+      'ccseva_data_source_state{state="live"} 1',
+    ]);
+    assert.ok(lines.includes('ccseva_data_source_state{state="mock"} 0'));
+    assert.ok(lines.includes('ccseva_plan_info{plan="Max5"} 1'));
+    assert.ok(lines.includes('ccseva_tokens_used 1500'));
+    assert.ok(lines.includes('ccseva_percentage_used 1.7'));
+    assert.ok(lines.includes('ccseva_prediction_days_remaining +Inf'));
+    assert.ok(lines.includes('ccseva_model_tokens{model="claude-sonnet-4",period="today"} 1500'));
+    assert.ok(lines.includes('ccseva_model_tokens{model="claude-sonnet-4",period="month"} 2000'));
+    assert.ok(lines.includes('ccseva_model_cost_usd{model="claude-sonnet-4",period="month"} 1'));
+  });
+
+  test('escapes label values', () => {
+    const escaped = { ...stats('live'), currentPlan: 'a"b\\c\nd' } as unknown as UsageStats;
+    const lines = formatMetrics(buildMetrics(escaped)).split('\n');
+    assert.ok(lines.includes('ccseva_plan_info{plan="a\\"b\\\\c\\nd"} 1'));
+  });
+
+  test('leaves usage gauges out unless the stats come from real logs', () => {
+    for (const state of ['mock', 'replay', 'error'] as const) {
+      const names = buildMetrics(stats(state)).map((metric) => metric.name);
+      assert.deepEqual(names, ['data_source_state', 'plan_info'], state);
+    }
+    const stale = buildMetrics(stats('stale')).map((metric) => metric.name);
+    assert.ok(stale.includes('tokens_used'));
+  });
+});
@@ -0,0 +1,260 @@
+import * as http from 'node:http';
+import type { DailyUsage, DataSourceState, LocalServerStatus, UsageStats } from '../types/usage.js';
+import { ProfileService } from './profileService.js';
+
+const DEFAULT_HOST = '127.0.0.1';
+const METRIC_PREFIX = 'ccseva';
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const DATA_SOURCE_STATES: DataSourceState[] = ['live', 'stale', 'mock', 'replay', 'error'];
+// Stale stats are the last real usage that loaded; demo, replay and error stats are not usage at all
+const USAGE_STATES: DataSourceState[] = ['live', 'stale'];
+
+interface Sample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  samples: Sample[];
+}
+
+/**
+ * Format a number the way the Prometheus text format expects
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Number.POSITIVE_INFINITY) return '+Inf';
+  if (value === Number.NEGATIVE_INFINITY) return '-Inf';
+  return value.toString();
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels?: Record<string, string>): string {
+  if (!labels) return '';
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Sum per-model tokens and cost across a range of days
+ */
+function aggregateModels(days: DailyUsage[]): DailyUsage['models'] {
+  const models: DailyUsage['models'] = {};
+  for (const day of days) {
+    for (const [model, usage] of Object.entries(day.models)) {
+      const totals = models[model] ?? { tokens: 0, cost: 0 };
+      totals.tokens += usage.tokens;
+      totals.cost += usage.cost;
+      models[model] = totals;
+    }
+  }
+  return models;
+}
+
+/**
+ * Build the gauge set exported for a usage snapshot. Usage gauges are left out unless the
+ * stats come from real logs, so demo, replay and error data never show up as real usage.
+ */
+export function buildMetrics(stats: UsageStats): Metric[] {
+  const stateMetrics: Metric[] = [
+    {
+      name: 'data_source_state',
+      help: 'Where the exported stats come from, 1 for the current state',
+      samples: DATA_SOURCE_STATES.map((state) => ({
+        labels: { state },
+        value: state === stats.dataSource.state ? 1 : 0,
+      })),
+    },
+    {
+      name: 'plan_info',
+      help: 'Plan the token limit belongs to',
+      samples: [{ labels: { plan: stats.currentPlan }, value: 1 }],
+    },
+  ];
+  if (!USAGE_STATES.includes(stats.dataSource.state)) {
+    return stateMetrics;
+  }
+
+  const periods: Array<{ period: string; models: DailyUsage['models'] }> = [
+    { period: 'today', models: stats.today.models },
+    { period: 'month', models: aggregateModels(stats.thisMonth) },
+  ];
+  const modelSamples = (field: 'tokens' | 'cost') =>
+    periods.flatMap(({ period, models }) =>
+      Object.entries(models).map(([model, usage]) => ({
+        labels: { model, period },
+        value: usage[field],
+      }))
+    );
+
+  return [
+    ...stateMetrics,
+    {
+      name: 'tokens_used',
+      help: 'Tokens used in the current session block',
+      samples: [{ value: stats.tokensUsed }],
+    },
+    {
+      name: 'token_limit',
+      help: 'Token limit of the current session block',
+      samples: [{ value: stats.tokenLimit }],
+    },
+    {
+      name: 'percentage_used',
+      help: 'Percentage of the token limit used in the current session block',
+      samples: [{ value: stats.percentageUsed }],
+    },
+    {
+      name: 'velocity_tokens_per_hour',
+      help: 'Current token burn rate in tokens per hour',
+      samples: [{ value: stats.velocity.current }],
+    },
+    {
+      name: 'velocity_average_24h_tokens_per_hour',
+      help: 'Rolling 24-hour average burn rate in tokens per hour',
+      samples: [{ value: stats.velocity.average24h }],
+    },
+    {
+      name: 'prediction_days_remaining',
+      help: 'Estimated days until tokens are depleted',
+      samples: [{ value: stats.prediction.daysRemaining }],
+    },
+    {
+      name: 'model_tokens',
+      help: 'Tokens used per model',
+      samples: modelSamples('tokens'),
+    },
+    {
+      name: 'model_cost_usd',
+      help: 'Estimated cost per model in USD',
+      samples: modelSamples('cost'),
+    },
+  ];
+}
+
+/**
+ * Render metrics in the Prometheus text exposition format
+ */
+export function formatMetrics(metrics: Metric[]): string {
+  const lines: string[] = [];
+
+  for (const metric of metrics) {
+    const name = `${METRIC_PREFIX}_${metric.name}`;
+    lines.push(`# HELP ${name} ${metric.help}`);
+    lines.push(`# TYPE ${name} gauge`);
+    for (const sample of metric.samples) {
+      lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+export class MetricsExporter {
+  private static instance: MetricsExporter;
+  private server: http.Server | null = null;
+  private host: string | null = null;
+  private port: number | null = null;
+  private lastError: string | null = null;
+  private pending: Promise<void> = Promise.resolve(); // start and stop run one at a time
+  private profileService: ProfileService;
+
+  constructor() {
+    this.profileService = ProfileService.getInstance();
+  }
+
+  static getInstance(): MetricsExporter {
+    if (!MetricsExporter.instance) {
+      MetricsExporter.instance = new MetricsExporter();
+    }
+    return MetricsExporter.instance;
+  }
+
+  getStatus(): LocalServerStatus {
+    return { running: this.server !== null, port: this.port, error: this.lastError };
+  }
+
+  /**
+   * Start serving /metrics, restarting if already running on another address
+   */
+  start(port: number, host = DEFAULT_HOST): Promise<void> {
+    return this.serialize(async () => {
+      try {
+        await this.listen(port, host);
+        this.lastError = null;
+      } catch (error) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        throw error;
+      }
+    });
+  }
+
+  stop(): Promise<void> {
+    return this.serialize(async () => {
+      this.lastError = null;
+      await this.close();
+    });
+  }
+
+  private serialize(task: () => Promise<void>): Promise<void> {
+    const run = this.pending.then(task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private async listen(port: number, host: string): Promise<void> {
+    if (this.server && this.port === port && this.host === host) return;
+    await this.close();
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('Metrics request failed:', error);
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end('Internal server error\n');
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.host = host;
+    this.port = port;
+  }
+
+  private async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.host = null;
+    this.port = null;
+
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method !== 'GET' || pathname !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+      return;
+    }
+
+    // Metrics describe the profile that is active in the app
+    const stats = await this.profileService.getUsageService().getUsageStats();
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPE });
+    res.end(formatMetrics(buildMetrics(stats)));
+  }
+}
@@ -0,0 +1,204 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, describe, test } from 'node:test';
+import type { MenuBarData, NotificationChannel, TriggeredAlert } from '../types/usage.js';
+import { NotificationChannelService } from './notificationChannelService.js';
+
+interface ReceivedRequest {
+  method?: string;
+  contentType?: string;
+  body: Record<string, unknown>;
+}
+
+const usage: MenuBarData = {
+  tokensUsed: 6300,
+  tokenLimit: 7000,
+  percentageUsed: 90,
+  status: 'critical',
+  cost: 1.5,
+  dataSource: 'live',
+};
+
+const channel = (changes: Partial<NotificationChannel>): NotificationChannel => ({
+  id: 'channel',
+  name: 'Test channel',
+  enabled: true,
+  type: 'webhook',
+  target: '',
+  template: '{title}: {percentageUsed}%',
+  minSeverity: 'info',
+  ...changes,
+});
+
+const servers: http.Server[] = [];
+
+/**
+ * Local HTTP stand-in for a webhook endpoint, answering every request with respond
+ */
+async function startStandIn(respond: (res: http.ServerResponse) => void = (res) => res.end('ok')) {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      requests.push({
+        method: req.method,
+        contentType: req.headers['content-type'],
+        body: JSON.parse(raw),
+      });
+      respond(res);
+    });
+  });
+  servers.push(server);
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/hook`, requests };
+}
+
+after(() => {
+  for (const server of servers) {
+    server.closeAllConnections();
+    server.close();
+  }
+});
+
+describe('webhook channels', () => {
+  const service = new NotificationChannelService();
+
+  test('generic webhooks get the text, alert and usage', async () => {
+    const { url, requests } = await startStandIn();
+    const result = await service.sendTest(channel({ type: 'webhook', target: url }), usage);
+
+    assert.deepEqual(result, { success: true });
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].method, 'POST');
+    assert.equal(requests[0].contentType, 'application/json');
+    assert.equal(requests[0].body.text, '🧪 CCSeva: Test Notification: 90%');
+    assert.equal((requests[0].body.alert as TriggeredAlert).ruleId, 'test');
+    assert.deepEqual(requests[0].body.usage, usage);
+  });
+
+  test('Slack webhooks get only the text', async () => {
+    const { url, requests } = await startStandIn();
+    const result = await service.sendTest(channel({ type: 'slack', target: url }), usage);
+
+    assert.deepEqual(result, { success: true });
+    assert.deepEqual(requests[0].body, { text: '🧪 CCSeva: Test Notification: 90%' });
+  });
+
+  test('Discord webhooks get the text as content, cut to 2000 characters', async () => {
+    const { url, requests } = await startStandIn();
+    const template = 'x'.repeat(2500);
+    const result = await service.sendTest(
+      channel({ type: 'discord', target: url, template }),
+      usage
+    );
+
+    assert.deepEqual(result, { success: true });
+    assert.deepEqual(Object.keys(requests[0].body), ['content']);
+    assert.equal(requests[0].body.content, 'x'.repeat(2000));
+  });
+
+  test('non-2xx responses are reported as failures', async () => {
+    const { url } = await startStandIn((res) => {
+      res.writeHead(500, 'Internal Server Error');
+      res.end();
+    });
+    const result = await service.sendTest(channel({ target: url }), usage);
+
+    assert.deepEqual(result, { success: false, error: 'HTTP 500 Internal Server Error' });
+  });
+
+  test('endpoints that never answer time out', async () => {
+    const { url } = await startStandIn(() => {
+      // Hold the request open past the timeout
+    });
+    const result = await new NotificationChannelService(200).sendTest(
+      channel({ target: url }),
+      usage
+    );
+
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /timeout/i);
+  });
+
+  test('dispatch skips disabled channels and alerts below their severity', async () => {
+    const { url, requests } = await startStandIn();
+    const alert: TriggeredAlert = {
+      ruleId: 'usage-high',
+      title: 'High usage',
+      message: '90% used',
+      severity: 'warning',
+      timestamp: new Date().toISOString(),
+    };
+    const dispatcher = new NotificationChannelService();
+    dispatcher.setChannels([
+      channel({ id: 'sent', target: url, template: 'sent' }),
+      channel({ id: 'disabled', target: url, template: 'disabled', enabled: false }),
+      channel({ id: 'critical', target: url, template: 'critical', minSeverity: 'critical' }),
+    ]);
+
+    await dispatcher.dispatch(alert, usage);
+
+    assert.deepEqual(
+      requests.map((request) => request.body.text),
+      ['sent']
+    );
+  });
+});
+
+describe('shell command channels', () => {
+  const service = new NotificationChannelService();
+  const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccseva-channel-test-'));
+
+  after(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  test('commands get the alert in their environment and the full payload on stdin', async () => {
+    const stdinPath = path.join(outputDir, 'stdin.json');
+    const envPath = path.join(outputDir, 'env.txt');
+    const target = `cat > "${stdinPath}"; env | grep '^CCSEVA_' | sort > "${envPath}"`;
+    const result = await service.sendTest(channel({ type: 'command', target }), usage);
+
+    assert.deepEqual(result, { success: true });
+
+    const payload = JSON.parse(fs.readFileSync(stdinPath, 'utf-8'));
+    assert.equal(payload.text, '🧪 CCSeva: Test Notification: 90%');
+    assert.equal(payload.alert.severity, 'info');
+    assert.deepEqual(payload.usage, usage);
+
+    const env = fs.readFileSync(envPath, 'utf-8').trim().split('\n');
+    assert.deepEqual(env, [
+      'CCSEVA_MESSAGE=This is a test message for the "Test channel" channel.',
+      'CCSEVA_PERCENTAGE=90.0',
+      'CCSEVA_SEVERITY=info',
+      'CCSEVA_STATUS=critical',
+      'CCSEVA_TEXT=🧪 CCSeva: Test Notification: 90%',
+      'CCSEVA_TITLE=🧪 CCSeva: Test Notification',
+    ]);
+  });
+
+  test('failing commands report their stderr', async () => {
+    const target = 'echo "hook failed" >&2; exit 3';
+    const result = await service.sendTest(channel({ type: 'command', target }), usage);
+
+    assert.deepEqual(result, { success: false, error: 'hook failed' });
+  });
+
+  test('commands that run past the timeout fail', async () => {
+    const result = await new NotificationChannelService(200).sendTest(
+      channel({ type: 'command', target: 'sleep 5' }),
+      usage
+    );
+
+    assert.equal(result.success, false);
+  });
+});
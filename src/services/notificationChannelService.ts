@@ -0,0 +1,192 @@
+import { exec } from 'node:child_process';
+import type {
+  MenuBarData,
+  NotificationChannel,
+  NotificationChannelResult,
+  TriggeredAlert,
+} from '../types/usage.js';
+import { SEVERITY_RANK } from './alertService.js';
+
+const SEND_TIMEOUT_MS = 10 * 1000;
+const DISCORD_MAX_CONTENT = 2000;
+
+export const DEFAULT_CHANNEL_TEMPLATE =
+  '{title}: {message} ({percentageUsed}% of {tokenLimit} tokens, ${cost} today)';
+
+/**
+ * Values available to channel templates, from the alert and the menu bar snapshot
+ */
+export function buildTemplateValues(
+  alert: TriggeredAlert,
+  data: MenuBarData
+): Record<string, string> {
+  return {
+    title: alert.title,
+    message: alert.message,
+    severity: alert.severity,
+    ruleId: alert.ruleId,
+    timestamp: alert.timestamp,
+    status: data.status,
+    percentageUsed: Math.round(data.percentageUsed).toString(),
+    tokensUsed: data.tokensUsed.toLocaleString(),
+    tokenLimit: data.tokenLimit.toLocaleString(),
+    cost: data.cost.toFixed(2),
+  };
+}
+
+/**
+ * Fill {placeholders}; unknown placeholders are left as written
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * JSON body for the HTTP channel types, in the shape each service expects
+ */
+export function buildRequestBody(
+  channel: NotificationChannel,
+  text: string,
+  alert: TriggeredAlert,
+  data: MenuBarData
+): Record<string, unknown> {
+  switch (channel.type) {
+    case 'slack':
+      return { text };
+    case 'discord':
+      return { content: text.slice(0, DISCORD_MAX_CONTENT) };
+    default:
+      return { text, alert, usage: data };
+  }
+}
+
+/**
+ * Delivers alerts to user-configured webhooks and shell commands
+ */
+export class NotificationChannelService {
+  private static instance: NotificationChannelService;
+  private channels: NotificationChannel[] = [];
+  private timeoutMs: number;
+
+  constructor(timeoutMs = SEND_TIMEOUT_MS) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  static getInstance(): NotificationChannelService {
+    if (!NotificationChannelService.instance) {
+      NotificationChannelService.instance = new NotificationChannelService();
+    }
+    return NotificationChannelService.instance;
+  }
+
+  setChannels(channels: NotificationChannel[]): void {
+    this.channels = channels;
+  }
+
+  /**
+   * Send an alert to every enabled channel whose minimum severity it meets
+   */
+  async dispatch(alert: TriggeredAlert, data: MenuBarData): Promise<void> {
+    const targets = this.channels.filter(
+      (channel) =>
+        channel.enabled && SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[channel.minSeverity]
+    );
+
+    const results = await Promise.all(targets.map((channel) => this.send(channel, alert, data)));
+    results.forEach((result, index) => {
+      if (!result.success) {
+        console.error(`Notification channel "${targets[index].name}" failed:`, result.error);
+      }
+    });
+  }
+
+  /**
+   * Send a sample alert through a channel, enabled or not, so Settings can verify it
+   */
+  sendTest(channel: NotificationChannel, data: MenuBarData): Promise<NotificationChannelResult> {
+    const alert: TriggeredAlert = {
+      ruleId: 'test',
+      title: '🧪 CCSeva: Test Notification',
+      message: `This is a test message for the "${channel.name}" channel.`,
+      severity: 'info',
+      timestamp: new Date().toISOString(),
+    };
+    return this.send(channel, alert, data);
+  }
+
+  private async send(
+    channel: NotificationChannel,
+    alert: TriggeredAlert,
+    data: MenuBarData
+  ): Promise<NotificationChannelResult> {
+    if (!channel.target.trim()) {
+      return { success: false, error: 'No target configured' };
+    }
+
+    const text = renderTemplate(
+      channel.template || DEFAULT_CHANNEL_TEMPLATE,
+      buildTemplateValues(alert, data)
+    );
+
+    try {
+      if (channel.type === 'command') {
+        await this.runCommand(channel.target, text, alert, data);
+      } else {
+        await this.postJson(channel.target, buildRequestBody(channel, text, alert, data));
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async postJson(url: string, body: Record<string, unknown>): Promise<void> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+    }
+  }
+
+  private runCommand(
+    command: string,
+    text: string,
+    alert: TriggeredAlert,
+    data: MenuBarData
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = exec(
+        command,
+        {
+          timeout: this.timeoutMs,
+          env: {
+            ...process.env,
+            CCSEVA_TEXT: text,
+            CCSEVA_TITLE: alert.title,
+            CCSEVA_MESSAGE: alert.message,
+            CCSEVA_SEVERITY: alert.severity,
+            CCSEVA_STATUS: data.status,
+            CCSEVA_PERCENTAGE: data.percentageUsed.toFixed(1),
+          },
+        },
+        (error, _stdout, stderr) => {
+          if (error) {
+            reject(new Error(stderr.trim() || error.message.trim()));
+            return;
+          }
+          resolve();
+        }
+      );
+
+      // The full payload goes to stdin for scripts that want structured data.
+      // Commands that never read it close the pipe early, which is not a failure.
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.end(JSON.stringify({ text, alert, usage: data }));
+    });
+  }
+}
@@ -1,13 +1,25 @@
 import { Notification } from 'electron';
-import type { MenuBarData } from '../types/usage.js';
+import type { TriggeredAlert, UsageSummary } from '../types/usage.js';
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return tokens.toLocaleString();
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatChange(current: number, previous: number): string {
+  if (previous === 0) return current === 0 ? 'no change' : 'up from $0';
+  const change = ((current - previous) / previous) * 100;
+  return `${change >= 0 ? '+' : ''}${Math.round(change)}%`;
+}
 
 export class NotificationService {
   private static instance: NotificationService;
-  private lastNotificationTime = 0;
-  private readonly NOTIFICATION_COOLDOWN = 300000; // 5 minutes
-  private lastWarningLevel: 'safe' | 'warning' | 'critical' = 'safe';
-  private lastNotificationData = '';
-  private notificationInProgress = false;
 
   static getInstance(): NotificationService {
     if (!NotificationService.instance) {
@@ -16,50 +28,11 @@ export class NotificationService {
     return NotificationService.instance;
   }
 
-  checkAndNotify(data: MenuBarData, source: 'auto' | 'manual' = 'auto'): void {
-    const now = Date.now();
-    const timeSinceLastNotification = now - this.lastNotificationTime;
-
-    // Create a unique identifier for this data state
-    const dataIdentifier = `${data.status}-${Math.round(data.percentageUsed)}-${data.tokensUsed}`;
-
-    // Prevent duplicate notifications for the same data
-    if (this.lastNotificationData === dataIdentifier || this.notificationInProgress) {
-      return;
-    }
-
-    // Only notify if enough time has passed and status has worsened
-    if (timeSinceLastNotification < this.NOTIFICATION_COOLDOWN) {
-      return;
-    }
-
-    // Check if we should send a notification
-    let shouldNotify = false;
-    let title = '';
-    let body = '';
-
-    if (data.status === 'critical' && this.lastWarningLevel !== 'critical') {
-      shouldNotify = true;
-      title = '🚨 CCSeva: Usage Critical';
-      body = `You've used ${Math.round(data.percentageUsed)}% of your tokens. Consider upgrading your plan.`;
-    } else if (data.status === 'warning' && this.lastWarningLevel === 'safe') {
-      shouldNotify = true;
-      title = '⚠️ CCSeva: Usage Warning';
-      body = `You've used ${Math.round(data.percentageUsed)}% of your tokens. Monitor your usage carefully.`;
-    }
-
-    if (shouldNotify) {
-      this.notificationInProgress = true;
-      this.sendNotification(title, body);
-      this.lastNotificationTime = now;
-      this.lastWarningLevel = data.status;
-      this.lastNotificationData = dataIdentifier;
-
-      // Reset notification lock after a short delay
-      setTimeout(() => {
-        this.notificationInProgress = false;
-      }, 1000);
-    }
+  /**
+   * Show an alert fired by the AlertService as a desktop notification
+   */
+  showAlert(alert: TriggeredAlert): void {
+    this.sendNotification(alert.title, alert.message);
   }
 
   private sendNotification(title: string, body: string): void {
@@ -76,13 +49,27 @@ export class NotificationService {
     }
   }
 
-  // Send a daily summary notification
-  sendDailySummary(tokensUsed: number, cost: number): void {
-    if (!Notification.isSupported()) return;
+  /**
+   * Show a scheduled usage summary, compared with the period before it
+   */
+  sendSummary(summary: UsageSummary): void {
+    const { current, previous } = summary;
+    const periodName = summary.period === 'daily' ? 'Daily' : 'Weekly';
+    const previousName = summary.period === 'daily' ? 'yesterday' : 'last week';
 
-    const title = '📊 CCSeva: Daily Summary';
-    const body = `Today: ${tokensUsed.toLocaleString()} tokens used, $${cost.toFixed(3)} spent`;
+    const lines = [
+      `${formatTokens(current.totalTokens)} tokens, $${current.totalCost.toFixed(2)} (${formatChange(current.totalCost, previous.totalCost)} vs ${previousName})`,
+    ];
+    if (current.topModel) {
+      lines.push(`Top model: ${current.topModel}`);
+    }
+    if (current.longestSession) {
+      const project = current.longestSession.projectPath.split(/[\\/]/).filter(Boolean).pop();
+      lines.push(
+        `Longest session: ${formatDuration(current.longestSession.durationMinutes)}${project ? ` in ${project}` : ''}`
+      );
+    }
 
-    this.sendNotification(title, body);
+    this.sendNotification(`📊 CCSeva: ${periodName} Summary`, lines.join('\n'));
   }
 }
@@ -0,0 +1,165 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { PlanSwitchRecord } from '../types/usage.js';
+
+type Plan = 'Pro' | 'Max5' | 'Max20' | 'Custom';
+
+export interface PlanDetectionResult {
+  detectedPlan: Plan;
+  detectedLimit: number;
+  confidence: number; // 0-100
+  detectionMethod: 'default' | 'plan-ceiling' | 'usage-cluster' | 'max-observed';
+  sampleSize: number;
+}
+
+const PLAN_LIMITS: Array<{ plan: Exclude<Plan, 'Custom'>; limit: number }> = [
+  { plan: 'Pro', limit: 7000 },
+  { plan: 'Max5', limit: 35000 },
+  { plan: 'Max20', limit: 140000 },
+];
+
+const HISTORY_FILENAME = 'plan-history.json';
+const MAX_HISTORY_ENTRIES = 50;
+const CLUSTER_TOLERANCE = 0.05; // blocks within 5% of the ceiling count as hitting it
+const MIN_CLUSTER_SIZE = 3;
+
+export class PlanDetectionService {
+  private static instance: PlanDetectionService;
+  private historyPath: string | null = null;
+  private history: PlanSwitchRecord[] = [];
+  private readOnly = false; // records switches in memory only
+
+  static getInstance(): PlanDetectionService {
+    if (!PlanDetectionService.instance) {
+      PlanDetectionService.instance = new PlanDetectionService();
+    }
+    return PlanDetectionService.instance;
+  }
+
+  /**
+   * Load the plan switch history from the given directory, never writing it back when read-only
+   */
+  setStorageDirectory(directory: string, readOnly = false): void {
+    this.historyPath = path.join(directory, HISTORY_FILENAME);
+    this.readOnly = readOnly;
+
+    try {
+      if (fs.existsSync(this.historyPath)) {
+        const raw = JSON.parse(fs.readFileSync(this.historyPath, 'utf-8'));
+        this.history = Array.isArray(raw) ? raw : [];
+      }
+    } catch (error) {
+      console.error('Error loading plan history:', error);
+      this.history = [];
+    }
+  }
+
+  /**
+   * Detect the most likely plan limit from completed session block totals.
+   * The active block's tokens are included because usage can never exceed the real limit.
+   */
+  detect(completedBlockTotals: number[], activeBlockTokens = 0): PlanDetectionResult {
+    const totals = completedBlockTotals.filter((total) => total > 0).sort((a, b) => a - b);
+    const maxObserved = Math.max(activeBlockTokens, totals[totals.length - 1] ?? 0);
+
+    if (maxObserved === 0) {
+      return {
+        detectedPlan: 'Pro',
+        detectedLimit: PLAN_LIMITS[0].limit,
+        confidence: 0,
+        detectionMethod: 'default',
+        sampleSize: 0,
+      };
+    }
+
+    // Smallest known plan that could have produced every observed block
+    const candidate = PLAN_LIMITS.find(({ limit }) => limit >= maxObserved);
+    const sampleScore = Math.min(1, totals.length / 20) * 50;
+
+    if (!candidate) {
+      // Usage above every known plan, so the best we can say is "at least this much"
+      return {
+        detectedPlan: 'Custom',
+        detectedLimit: maxObserved,
+        confidence: Math.round(Math.min(95, 30 + sampleScore)),
+        detectionMethod: 'max-observed',
+        sampleSize: totals.length,
+      };
+    }
+
+    // Blocks that stop at the same ceiling are the strongest signal of a real limit
+    const cluster = totals.filter((total) => total >= maxObserved * (1 - CLUSTER_TOLERANCE));
+    const clusterLimit = cluster[Math.floor(cluster.length / 2)] ?? maxObserved;
+    const isCustomCeiling =
+      cluster.length >= MIN_CLUSTER_SIZE && clusterLimit < candidate.limit * 0.8;
+
+    if (isCustomCeiling) {
+      return {
+        detectedPlan: 'Custom',
+        detectedLimit: clusterLimit,
+        confidence: Math.round(Math.min(95, sampleScore + Math.min(cluster.length, 10) * 4.5)),
+        detectionMethod: 'usage-cluster',
+        sampleSize: totals.length,
+      };
+    }
+
+    const proximityScore = (maxObserved / candidate.limit) * 30;
+    const clusterScore = Math.min(cluster.length, 5) * 4;
+
+    return {
+      detectedPlan: candidate.plan,
+      detectedLimit: candidate.limit,
+      confidence: Math.round(Math.min(95, sampleScore + proximityScore + clusterScore)),
+      detectionMethod: 'plan-ceiling',
+      sampleSize: totals.length,
+    };
+  }
+
+  /**
+   * Record a plan switch and persist the history
+   */
+  recordSwitch(fromPlan: string, toPlan: string, trigger: string): PlanSwitchRecord {
+    const record: PlanSwitchRecord = {
+      timestamp: new Date().toISOString(),
+      fromPlan,
+      toPlan,
+      trigger,
+    };
+
+    this.history = [...this.history, record].slice(-MAX_HISTORY_ENTRIES);
+    this.save();
+    return record;
+  }
+
+  /**
+   * The most recent switch, or only the most recent manual or automatic one when given a kind.
+   * Manual and automatic switches are tracked apart so one never reads as the other's previous plan.
+   */
+  getLastSwitch(kind?: 'manual' | 'automatic'): PlanSwitchRecord | undefined {
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const record = this.history[i];
+      if (!kind || (record.trigger === 'manual') === (kind === 'manual')) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  getHistory(): PlanSwitchRecord[] {
+    return [...this.history];
+  }
+
+  private save(): void {
+    if (!this.historyPath || this.readOnly) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.historyPath), { recursive: true });
+      // Write to a temp file first so a crash mid-write can't corrupt the history
+      const tempPath = `${this.historyPath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.history, null, 2));
+      fs.renameSync(tempPath, this.historyPath);
+    } catch (error) {
+      console.error('Error saving plan history:', error);
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import * as path from 'node:path';
+import type {
+  AppPreferences,
+  ProfileSettings,
+  ProfileStatus,
+  UsageProfile,
+  UsageStats,
+} from '../types/usage.js';
+import { AlertService } from './alertService.js';
+import { CCUsageService } from './ccusageService.js';
+import { preferencesToConfiguration } from './settingsService.js';
+
+const PROFILES_DIRNAME = 'profiles';
+const DEFAULT_PROFILE_NAME = 'Default';
+
+interface ProfileRuntime {
+  profile: UsageProfile | null; // null for the default profile
+  settings: ProfileSettings;
+  usageService: CCUsageService;
+  alertService: AlertService;
+  lastStats: UsageStats | null;
+}
+
+/**
+ * Keeps one usage pipeline per profile. The default profile runs on the singletons and the
+ * top-level preferences; every other profile gets its own services, reads only its own data
+ * directories and keeps its history in profiles/<id>, so accounts never mix.
+ */
+export class ProfileService {
+  private static instance: ProfileService;
+  private runtimes = new Map<string | null, ProfileRuntime>(); // keyed by profile id, null for the default
+  private activeProfileId: string | null = null;
+  private storageDirectory: string | null = null;
+  private readOnlyStorage = false;
+
+  static getInstance(): ProfileService {
+    if (!ProfileService.instance) {
+      ProfileService.instance = new ProfileService();
+    }
+    return ProfileService.instance;
+  }
+
+  /**
+   * Set where persistent data is stored. Other profiles keep theirs in a subdirectory each.
+   * Read-only storage is loaded but never written, so another process can own it.
+   */
+  setStorageDirectory(directory: string, readOnly = false): void {
+    this.storageDirectory = directory;
+    this.readOnlyStorage = readOnly;
+    CCUsageService.getInstance().setStorageDirectory(directory, readOnly);
+    for (const [id, runtime] of this.runtimes) {
+      if (id !== null) {
+        runtime.usageService.setStorageDirectory(this.getProfileDirectory(id), readOnly);
+      }
+    }
+  }
+
+  /**
+   * Push saved preferences into every profile's services, adding and dropping profiles to match
+   */
+  configure(preferences: AppPreferences): void {
+    this.configureRuntime(null, null, preferences);
+
+    const ids = new Set(preferences.profiles.map((profile) => profile.id));
+    for (const id of [...this.runtimes.keys()]) {
+      if (id !== null && !ids.has(id)) {
+        this.runtimes.delete(id);
+      }
+    }
+    for (const profile of preferences.profiles) {
+      this.configureRuntime(profile.id, profile, preferences);
+    }
+
+    const { activeProfileId } = preferences;
+    this.activeProfileId = activeProfileId && ids.has(activeProfileId) ? activeProfileId : null;
+  }
+
+  getActiveProfileId(): string | null {
+    return this.activeProfileId;
+  }
+
+  /**
+   * Every profile id, the default profile's (null) first
+   */
+  getProfileIds(): (string | null)[] {
+    return [...this.runtimes.keys()];
+  }
+
+  hasProfiles(): boolean {
+    return this.runtimes.size > 1;
+  }
+
+  getProfileName(id: string | null): string {
+    const profile = this.runtimes.get(id)?.profile;
+    return profile ? profile.name.trim() || 'Untitled profile' : DEFAULT_PROFILE_NAME;
+  }
+
+  /**
+   * The usage service of a profile, the active one by default.
+   * Unknown ids fall back to the default profile.
+   */
+  getUsageService(id = this.activeProfileId): CCUsageService {
+    return this.runtimes.get(id)?.usageService ?? CCUsageService.getInstance();
+  }
+
+  getAlertService(id = this.activeProfileId): AlertService {
+    return this.runtimes.get(id)?.alertService ?? AlertService.getInstance();
+  }
+
+  getSettings(id = this.activeProfileId): ProfileSettings | null {
+    return this.runtimes.get(id)?.settings ?? null;
+  }
+
+  /**
+   * Every Claude directory some profile reads. A profile without any is left out;
+   * its next load reports why.
+   */
+  getClaudeDirectories(): string[] {
+    const directories = new Set<string>();
+    for (const runtime of this.runtimes.values()) {
+      try {
+        for (const directory of runtime.usageService.getLogIngester().getClaudeDirectories()) {
+          directories.add(directory);
+        }
+      } catch {
+        // Nothing to watch for this profile
+      }
+    }
+    return [...directories];
+  }
+
+  /**
+   * Load a profile's stats, keeping them for its status in the profile list
+   */
+  async loadStats(id = this.activeProfileId): Promise<UsageStats> {
+    const stats = await this.getUsageService(id).getUsageStats();
+    const runtime = this.runtimes.get(id);
+    if (runtime) {
+      runtime.lastStats = stats;
+    }
+    return stats;
+  }
+
+  /**
+   * Every profile with the usage it had when last loaded
+   */
+  getStatuses(): ProfileStatus[] {
+    return [...this.runtimes].map(([id, runtime]) => ({
+      id,
+      name: this.getProfileName(id),
+      active: id === this.activeProfileId,
+      usage: runtime.lastStats && {
+        currentPlan: runtime.lastStats.currentPlan,
+        percentageUsed: runtime.lastStats.percentageUsed,
+        status: runtime.lastStats.status,
+        dataSource: runtime.lastStats.dataSource,
+      },
+    }));
+  }
+
+  private configureRuntime(
+    id: string | null,
+    profile: UsageProfile | null,
+    preferences: AppPreferences
+  ): void {
+    // A profile's own settings take the place of the top-level ones
+    const source = profile ?? preferences;
+    const settings: ProfileSettings = {
+      dataSources: source.dataSources,
+      plan: source.plan,
+      customTokenLimit: source.customTokenLimit,
+      resetMode: source.resetMode,
+      resetHour: source.resetHour,
+      alertRules: source.alertRules,
+    };
+
+    let runtime = this.runtimes.get(id);
+    if (runtime) {
+      runtime.profile = profile;
+      runtime.settings = settings;
+    } else {
+      runtime = this.createRuntime(id, profile, settings);
+      this.runtimes.set(id, runtime);
+    }
+    runtime.usageService.updateConfiguration(
+      preferencesToConfiguration({ ...preferences, ...settings })
+    );
+    // Only the default profile adds the directories ccusage finds on its own
+    runtime.usageService.setDataSources(settings.dataSources, id === null);
+    runtime.alertService.setRules(settings.alertRules);
+    runtime.alertService.setWarningThresholds(preferences.warningThresholds);
+  }
+
+  private createRuntime(
+    id: string | null,
+    profile: UsageProfile | null,
+    settings: ProfileSettings
+  ): ProfileRuntime {
+    const usageService =
+      id === null ? CCUsageService.getInstance() : CCUsageService.createIsolated();
+    if (id !== null && this.storageDirectory) {
+      usageService.setStorageDirectory(this.getProfileDirectory(id), this.readOnlyStorage);
+    }
+    return {
+      profile,
+      settings,
+      usageService,
+      alertService: id === null ? AlertService.getInstance() : new AlertService(),
+      lastStats: null,
+    };
+  }
+
+  private getProfileDirectory(id: string): string {
+    if (!this.storageDirectory) {
+      throw new Error('Profile storage directory is not set');
+    }
+    return path.join(this.storageDirectory, PROFILES_DIRNAME, encodeURIComponent(id));
+  }
+}
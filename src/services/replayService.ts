@@ -0,0 +1,234 @@
+import { formatDate } from 'ccusage/data-loader';
+import type { ReplayState } from '../types/usage.js';
+import type { Clock } from '../utils/clock.js';
+import type { CCUsageService } from './ccusageService.js';
+import { type LoadedUsageEntry, LogIngester } from './logIngester.js';
+import { ProfileService } from './profileService.js';
+
+const TICK_INTERVAL_MS = 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const SESSION_DURATION_MS = 5 * HOUR_MS; // the day's last block plays out until it expires
+const MIN_SPEED = 10;
+const MAX_SPEED = 1000;
+const DEFAULT_SPEED = 60;
+
+/**
+ * Replays a past day of the active profile's usage on a virtual clock. Entries up to the
+ * virtual time are fed into a separate ingester read by a CCUsageService of its own, so stats,
+ * session tracking and alerts run through the normal pipeline, only faster, while the live
+ * services keep reading the real logs and the wall clock.
+ */
+export class ReplayService {
+  private static instance: ReplayService;
+  private profileService: ProfileService;
+  private source: CCUsageService | null = null; // the profile being replayed
+  private usageService: CCUsageService | null = null; // reads the replayed entries
+  private ingester: LogIngester | null = null; // fed with the replayed entries
+  private timeline: LoadedUsageEntry[] = []; // every entry up to the replay's end, oldest first
+  private fed = 0; // how many timeline entries the replay ingester has
+  private day: string | null = null;
+  private startTime = 0; // epoch ms bounds of the replayed timeline
+  private endTime = 0;
+  private anchorTime = 0; // virtual time when playback last started, paused or moved
+  private anchorReal = 0; // wall-clock time at that moment
+  private speed = DEFAULT_SPEED;
+  private playing = false;
+  private timer: NodeJS.Timeout | null = null;
+  private onUpdate: (() => void) | null = null;
+
+  // Virtual time, for everything evaluated against the replay
+  readonly clock: Clock = () => this.getPosition();
+
+  constructor() {
+    this.profileService = ProfileService.getInstance();
+  }
+
+  static getInstance(): ReplayService {
+    if (!ReplayService.instance) {
+      ReplayService.instance = new ReplayService();
+    }
+    return ReplayService.instance;
+  }
+
+  /**
+   * Start replaying a day (YYYY-MM-DD, local time) from its first block. The timeline holds
+   * the logged entries and the stored blocks whose logs were pruned, and everything before
+   * the day is loaded up front so history-based stats stay meaningful.
+   * onUpdate runs on every tick and whenever the replay is paused, moved or sped up.
+   */
+  start(day: string, onUpdate: () => void): ReplayState {
+    const source = this.profileService.getUsageService();
+    const entries = source.getReplayTimeline();
+    const dayEntries = entries.filter((entry) => formatDate(entry.timestamp.toISOString()) === day);
+    if (dayEntries.length === 0) {
+      throw new Error(`No usage to replay on ${day}`);
+    }
+
+    this.stopTimer();
+    this.source = source;
+    this.usageService = null;
+    this.ingester = null;
+    this.fed = 0;
+    this.day = day;
+    // Blocks start at the top of the hour of their first entry
+    this.startTime = Math.floor(dayEntries[0].timestamp.getTime() / HOUR_MS) * HOUR_MS;
+    this.endTime = dayEntries[dayEntries.length - 1].timestamp.getTime() + SESSION_DURATION_MS;
+    this.timeline = entries.filter((entry) => entry.timestamp.getTime() <= this.endTime);
+    this.onUpdate = onUpdate;
+
+    this.moveTo(this.startTime);
+    this.play();
+    return this.getState();
+  }
+
+  pause(): ReplayState {
+    if (this.ingester && this.playing) {
+      this.anchorTime = this.getPosition();
+      this.playing = false;
+      this.stopTimer();
+      this.notify();
+    }
+    return this.getState();
+  }
+
+  /**
+   * Continue playback, from the beginning when the replay already reached its end
+   */
+  resume(): ReplayState {
+    if (this.ingester && !this.playing) {
+      if (this.anchorTime >= this.endTime) {
+        this.moveTo(this.startTime);
+      }
+      this.play();
+    }
+    return this.getState();
+  }
+
+  /**
+   * Jump to a point in the replayed timeline. Entries can't be taken back out of an
+   * ingester, so seeking backwards rebuilds it along with the services reading it.
+   */
+  seek(position: Date): ReplayState {
+    if (this.ingester) {
+      this.moveTo(Math.min(this.endTime, Math.max(this.startTime, position.getTime())));
+      this.notify();
+    }
+    return this.getState();
+  }
+
+  setSpeed(speed: number): ReplayState {
+    // Re-anchor first so changing speed doesn't move the virtual time
+    this.anchorTime = this.getPosition();
+    this.anchorReal = Date.now();
+    this.speed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, Math.round(speed)));
+    if (this.ingester) {
+      this.notify();
+    }
+    return this.getState();
+  }
+
+  /**
+   * End the replay and drop its services
+   */
+  stop(): ReplayState {
+    this.stopTimer();
+    this.source = null;
+    this.usageService = null;
+    this.ingester = null;
+    this.timeline = [];
+    this.fed = 0;
+    this.day = null;
+    this.playing = false;
+    this.onUpdate = null;
+    return this.getState();
+  }
+
+  /**
+   * The service stats are read from while a replay runs, null otherwise
+   */
+  getUsageService(): CCUsageService | null {
+    return this.usageService;
+  }
+
+  getState(): ReplayState {
+    const active = this.ingester !== null;
+    return {
+      active,
+      playing: this.playing,
+      speed: this.speed,
+      day: this.day,
+      start: active ? new Date(this.startTime).toISOString() : null,
+      end: active ? new Date(this.endTime).toISOString() : null,
+      position: active ? new Date(this.getPosition()).toISOString() : null,
+      days: (this.source ?? this.profileService.getUsageService()).getReplayDays(),
+    };
+  }
+
+  /**
+   * Virtual time: the anchor plus real time elapsed since it, scaled by the speed
+   */
+  private getPosition(): number {
+    if (!this.playing) return this.anchorTime;
+    return Math.min(this.endTime, this.anchorTime + (Date.now() - this.anchorReal) * this.speed);
+  }
+
+  private play(): void {
+    this.anchorReal = Date.now();
+    this.playing = true;
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  private tick(): void {
+    const position = this.getPosition();
+    if (position >= this.endTime) {
+      this.anchorTime = this.endTime;
+      this.playing = false;
+      this.stopTimer();
+    }
+    this.feed(position);
+    this.notify();
+  }
+
+  private moveTo(position: number): void {
+    const lastFed = this.fed > 0 ? this.timeline[this.fed - 1].timestamp.getTime() : 0;
+    if (!this.ingester || lastFed > position) {
+      const ingester = new LogIngester(this.clock);
+      this.ingester = ingester;
+      this.usageService =
+        this.source?.createReplay({
+          ingester,
+          clock: this.clock,
+          describe: () => `Replaying ${this.day} at ${this.speed}x`,
+        }) ?? null;
+      this.fed = 0;
+    }
+    this.anchorTime = position;
+    this.anchorReal = Date.now();
+    this.feed(position);
+  }
+
+  /**
+   * Hand the replay ingester every timeline entry logged by the given time
+   */
+  private feed(position: number): void {
+    let next = this.fed;
+    while (next < this.timeline.length && this.timeline[next].timestamp.getTime() <= position) {
+      next++;
+    }
+    if (next > this.fed) {
+      this.ingester?.addLoadedEntries(this.timeline.slice(this.fed, next));
+      this.fed = next;
+    }
+  }
+
+  private notify(): void {
+    this.onUpdate?.();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -1,27 +1,28 @@
-import {
-  addDays,
-  addMonths,
-  differenceInDays,
-  differenceInMilliseconds,
-  endOfDay,
-  format,
-  getDaysInMonth,
-  isAfter,
-  isBefore,
-  setHours,
-  setMilliseconds,
-  setMinutes,
-  setSeconds,
-  startOfDay,
-} from 'date-fns';
+import { addMonths, differenceInDays, differenceInMilliseconds, isBefore } from 'date-fns';
 import { format as formatTz, fromZonedTime, toZonedTime } from 'date-fns-tz';
-import type { ResetTimeInfo, UserConfiguration } from '../types/usage.js';
+import type { EnhancedResetInfo, ResetTimeInfo, UserConfiguration } from '../types/usage.js';
+import { type Clock, systemClock } from '../utils/clock.js';
+
+const SESSION_DURATION_MS = 5 * 60 * 60 * 1000; // Claude's rolling session window
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SESSION_CRITICAL_MS = 30 * 60 * 1000; // last 30 minutes of a session window
+const MONTHLY_CRITICAL_MS = 3 * DAY_MS; // last 3 days of a billing cycle
+const RESET_SCHEDULE_LENGTH = 4;
+
+/**
+ * The active session block, as far as reset timing is concerned
+ */
+export interface ResetWindow {
+  startTime: Date;
+  endTime: Date;
+}
 
 export class ResetTimeService {
   private static instance: ResetTimeService;
 
   // Default configuration based on Claude's standard reset time
   private defaultConfig: UserConfiguration = {
+    resetMode: 'session', // limits reset when the active 5-hour session block ends
     resetHour: 9, // 9 AM Pacific (Claude's standard reset time)
     timezone: 'America/Los_Angeles', // Pacific Time
     updateInterval: 30000, // 30 seconds
@@ -34,9 +35,11 @@ export class ResetTimeService {
   };
 
   private currentConfig: UserConfiguration;
+  private clock: Clock;
 
-  constructor(config?: Partial<UserConfiguration>) {
+  constructor(config?: Partial<UserConfiguration>, clock = systemClock) {
     this.currentConfig = { ...this.defaultConfig, ...config };
+    this.clock = clock;
   }
 
   static getInstance(config?: Partial<UserConfiguration>): ResetTimeService {
@@ -58,94 +61,74 @@ export class ResetTimeService {
   }
 
   /**
-   * Calculate next reset time information
-   * Based on Claude's monthly billing cycle with configurable reset hour
+   * Calculate next reset time information. In session mode the cycle is the active
+   * 5-hour block, so the next reset is its end time; with no active block a new window
+   * would start now. In monthly mode the cycle is the billing month at the reset hour.
    */
-  calculateResetInfo(currentDate: Date = new Date()): ResetTimeInfo {
-    const { resetHour, timezone } = this.currentConfig;
-
-    // Convert current time to user's timezone
-    const zonedNow = toZonedTime(currentDate, timezone);
-
-    // Calculate next reset time
-    const nextReset = this.calculateNextResetTime(zonedNow, resetHour, timezone);
-
-    // Calculate time until reset
-    const timeUntilReset = differenceInMilliseconds(nextReset, currentDate);
-
-    // Calculate billing cycle information
-    const cycleInfo = this.calculateBillingCycleInfo(zonedNow, resetHour, timezone);
+  calculateResetInfo(
+    currentDate: Date = new Date(this.clock()),
+    activeBlock?: ResetWindow
+  ): ResetTimeInfo {
+    const { resetMode, resetHour, timezone } = this.currentConfig;
+    const isMonthly = resetMode === 'monthly';
+
+    const cycle = isMonthly
+      ? this.calculateBillingCycle(currentDate, resetHour, timezone)
+      : this.calculateSessionWindow(currentDate, activeBlock);
+
+    const cycleDuration = differenceInMilliseconds(cycle.end, cycle.start);
+    const elapsed = differenceInMilliseconds(currentDate, cycle.start);
+    const percentUntilReset =
+      cycleDuration > 0 ? Math.min(100, Math.max(0, (elapsed / cycleDuration) * 100)) : 0;
 
     return {
-      nextResetTime: nextReset.toISOString(),
-      timeUntilReset: Math.max(0, timeUntilReset),
+      resetType: isMonthly ? 'monthly' : 'interval',
+      cycleStartTime: cycle.start.toISOString(),
+      cycleDuration,
+      nextResetTime: cycle.end.toISOString(),
+      timeUntilReset: Math.max(0, differenceInMilliseconds(cycle.end, currentDate)),
       resetHour,
       timezone,
-      percentUntilReset: cycleInfo.percentCompleted,
-      daysInCycle: cycleInfo.totalDays,
-      daysSinceReset: cycleInfo.daysElapsed,
+      percentUntilReset,
+      daysInCycle: isMonthly ? differenceInDays(cycle.end, cycle.start) : cycleDuration / DAY_MS,
+      daysSinceReset: isMonthly
+        ? differenceInDays(currentDate, cycle.start)
+        : Math.max(0, elapsed) / DAY_MS,
     };
   }
 
   /**
-   * Calculate the next reset time based on Claude's monthly billing cycle
+   * The active 5-hour session window, or a fresh one starting now when idle
    */
-  private calculateNextResetTime(zonedNow: Date, resetHour: number, timezone: string): Date {
-    // Create reset time for today
-    let resetToday = setMilliseconds(
-      setSeconds(setMinutes(setHours(startOfDay(zonedNow), resetHour), 0), 0),
-      0
-    );
-
-    // If today's reset time has passed, calculate next month's reset
-    if (isAfter(zonedNow, resetToday)) {
-      // Move to next month
-      const nextMonth = addMonths(resetToday, 1);
-      resetToday = setMilliseconds(
-        setSeconds(setMinutes(setHours(startOfDay(nextMonth), resetHour), 0), 0),
-        0
-      );
+  private calculateSessionWindow(
+    currentDate: Date,
+    activeBlock?: ResetWindow
+  ): { start: Date; end: Date } {
+    if (activeBlock && activeBlock.endTime > currentDate) {
+      return { start: new Date(activeBlock.startTime), end: new Date(activeBlock.endTime) };
     }
-
-    // Convert back to UTC for consistent storage
-    return fromZonedTime(resetToday, timezone);
+    return { start: currentDate, end: new Date(currentDate.getTime() + SESSION_DURATION_MS) };
   }
 
   /**
-   * Calculate billing cycle information
+   * The billing month containing currentDate, starting on the 1st at the reset hour
    */
-  private calculateBillingCycleInfo(
-    zonedNow: Date,
+  private calculateBillingCycle(
+    currentDate: Date,
     resetHour: number,
     timezone: string
-  ): {
-    totalDays: number;
-    daysElapsed: number;
-    percentCompleted: number;
-  } {
-    // Find the start of current billing cycle (last reset)
-    let currentCycleStart = setMilliseconds(
-      setSeconds(setMinutes(setHours(startOfDay(zonedNow), resetHour), 0), 0),
-      0
-    );
+  ): { start: Date; end: Date } {
+    const zonedNow = toZonedTime(currentDate, timezone);
+    let zonedStart = new Date(zonedNow.getFullYear(), zonedNow.getMonth(), 1, resetHour);
 
-    // If we haven't reached today's reset time, the cycle started last month
-    if (isBefore(zonedNow, currentCycleStart)) {
-      currentCycleStart = addMonths(currentCycleStart, -1);
+    // Before this month's reset hour on the 1st, the cycle started last month
+    if (isBefore(zonedNow, zonedStart)) {
+      zonedStart = addMonths(zonedStart, -1);
     }
 
-    // Calculate next reset (end of current cycle)
-    const nextReset = addMonths(currentCycleStart, 1);
-
-    // Calculate cycle information
-    const totalDays = differenceInDays(nextReset, currentCycleStart);
-    const daysElapsed = differenceInDays(zonedNow, currentCycleStart);
-    const percentCompleted = Math.min(100, Math.max(0, (daysElapsed / totalDays) * 100));
-
     return {
-      totalDays,
-      daysElapsed,
-      percentCompleted,
+      start: fromZonedTime(zonedStart, timezone),
+      end: fromZonedTime(addMonths(zonedStart, 1), timezone),
     };
   }
 
@@ -184,23 +167,53 @@ export class ResetTimeService {
   }
 
   /**
-   * Check if we're in the critical period before reset (last 3 days)
+   * Check if we're in the critical period before reset
+   * (last 30 minutes of a session window, last 3 days of a billing month)
    */
   isInCriticalPeriod(resetInfo: ResetTimeInfo): boolean {
-    const daysUntilReset = resetInfo.daysInCycle - resetInfo.daysSinceReset;
-    return daysUntilReset <= 3;
+    const criticalPeriod =
+      resetInfo.resetType === 'interval' ? SESSION_CRITICAL_MS : MONTHLY_CRITICAL_MS;
+    return resetInfo.timeUntilReset <= criticalPeriod;
   }
 
   /**
    * Get recommended daily token limit to last until reset
    */
   calculateRecommendedDailyLimit(tokensRemaining: number, resetInfo: ResetTimeInfo): number {
-    const daysUntilReset = resetInfo.daysInCycle - resetInfo.daysSinceReset;
-    if (daysUntilReset <= 0) return tokensRemaining;
+    const daysUntilReset = resetInfo.timeUntilReset / DAY_MS;
+    // Everything left can be used before a reset that is less than a day away
+    if (daysUntilReset <= 1) return tokensRemaining;
 
     return Math.floor(tokensRemaining / daysUntilReset);
   }
 
+  /**
+   * Reset info with the upcoming schedule and critical period flag for display.
+   * Session windows after the current one start when it ends, as under continuous use.
+   */
+  getEnhancedResetInfo(resetInfo: ResetTimeInfo): EnhancedResetInfo {
+    const nextReset = new Date(resetInfo.nextResetTime);
+    const resetSchedule = Array.from({ length: RESET_SCHEDULE_LENGTH }, (_, i) =>
+      resetInfo.resetType === 'interval'
+        ? nextReset.getTime() + i * SESSION_DURATION_MS
+        : this.addZonedMonths(nextReset, i, resetInfo.timezone).getTime()
+    );
+
+    return {
+      nextResetTime: resetInfo.nextResetTime,
+      timeUntilReset: resetInfo.timeUntilReset,
+      resetType: resetInfo.resetType,
+      resetSchedule,
+      formattedTimeUntilReset: this.formatTimeUntilReset(resetInfo.timeUntilReset),
+      cycleProgress: resetInfo.percentUntilReset,
+      isInCriticalPeriod: this.isInCriticalPeriod(resetInfo),
+    };
+  }
+
+  private addZonedMonths(date: Date, months: number, timezone: string): Date {
+    return fromZonedTime(addMonths(toZonedTime(date, timezone), months), timezone);
+  }
+
   /**
    * Determine if current usage is on track to last until reset
    */
@@ -3,7 +3,8 @@ import {
   type SessionInfo,
   type SessionTracking,
   SessionWindow,
-} from '../types/usage';
+} from '../types/usage.js';
+import { type Clock, systemClock } from '../utils/clock.js';
 
 export class SessionTracker {
   private static instance: SessionTracker;
@@ -11,8 +12,10 @@ export class SessionTracker {
   private readonly SESSION_GAP_THRESHOLD = 10 * 60 * 1000; // 10 minutes gap threshold
 
   private sessionTracking: SessionTracking;
+  private clock: Clock;
 
-  constructor() {
+  constructor(clock = systemClock) {
+    this.clock = clock;
     this.sessionTracking = this.initializeSessionTracking();
   }
 
@@ -24,7 +27,7 @@ export class SessionTracker {
   }
 
   private initializeSessionTracking(): SessionTracking {
-    const now = new Date();
+    const now = new Date(this.clock());
     const windowStart = new Date(now.getTime() - this.WINDOW_DURATION);
 
     return {
@@ -52,7 +55,7 @@ export class SessionTracker {
    * Update session tracking based on token usage data from ccusage blocks
    */
   updateFromBlocks(blocks: CCUsageBlock[]): SessionTracking {
-    const now = new Date();
+    const now = new Date(this.clock());
 
     // Convert ccusage blocks to session format
     const sessions = this.convertBlocksToSessions(blocks);
@@ -63,6 +66,9 @@ export class SessionTracker {
     // Identify current active session
     this.updateCurrentSession(sessions);
 
+    // Keep completed windows for history and exports
+    this.updateSessionHistory(sessions);
+
     // Calculate session statistics
     this.calculateSessionStatistics();
 
@@ -103,11 +109,11 @@ export class SessionTracker {
     if (block.endTime) {
       return new Date(block.endTime);
     }
-    return new Date();
+    return new Date(this.clock());
   }
 
   private calculateDuration(isActive: boolean, startTime: Date, endTime: Date): number {
-    return isActive ? Date.now() - startTime.getTime() : endTime.getTime() - startTime.getTime();
+    return isActive ? this.clock() - startTime.getTime() : endTime.getTime() - startTime.getTime();
   }
 
   private determineSessionType(block: CCUsageBlock): 'active' | 'gap' | 'completed' {
@@ -148,7 +154,7 @@ export class SessionTracker {
 
     if (activeSession) {
       this.sessionTracking.currentSession = activeSession;
-      this.sessionTracking.lastActivity = new Date();
+      this.sessionTracking.lastActivity = new Date(this.clock());
     } else {
       // Check if we should consider the last session as ongoing
       const lastSession = sessions[0]; // Assuming sessions are sorted by start time (newest first)
@@ -161,6 +167,24 @@ export class SessionTracker {
     }
   }
 
+  /**
+   * Record each completed session block as a finished 5-hour window
+   */
+  private updateSessionHistory(sessions: SessionInfo[]): void {
+    this.sessionTracking.sessionHistory = sessions
+      .filter((session) => !session.isActive)
+      .map((session) => ({
+        id: session.id,
+        startTime: session.startTime,
+        endTime: new Date(session.startTime.getTime() + this.WINDOW_DURATION),
+        duration: this.WINDOW_DURATION,
+        sessions: [session],
+        totalTokens: session.tokensUsed,
+        totalCost: session.costUSD,
+        isComplete: true,
+      }));
+  }
+
   /**
    * Calculate session statistics
    */
@@ -180,7 +204,7 @@ export class SessionTracker {
    * Check if session represents recent activity (within gap threshold)
    */
   private isRecentActivity(session: SessionInfo): boolean {
-    const now = Date.now();
+    const now = this.clock();
     const sessionEnd = session.endTime ? session.endTime.getTime() : session.startTime.getTime();
     return now - sessionEnd < this.SESSION_GAP_THRESHOLD;
   }
@@ -195,7 +219,7 @@ export class SessionTracker {
     efficiency: number; // Tokens per minute in window
   } {
     const { activeWindow, currentSession } = this.sessionTracking;
-    const now = Date.now();
+    const now = this.clock();
     const windowStart = activeWindow.startTime.getTime();
 
     // Calculate window progress
@@ -0,0 +1,221 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type {
+  AppPreferences,
+  PersistedSettings,
+  UserConfiguration,
+  WarningThresholds,
+} from '../types/usage.js';
+import { DEFAULT_ALERT_RULES } from './alertService.js';
+
+type Migration = (raw: Record<string, unknown>) => Record<string, unknown>;
+
+const SETTINGS_FILENAME = 'settings.json';
+const CURRENT_SCHEMA_VERSION = 1;
+// The ranges Settings offers; anything outside them only arrives through a bad IPC call
+const MIN_REFRESH_INTERVAL_MS = 15000;
+const MAX_REFRESH_INTERVAL_MS = 300000;
+const MIN_PORT = 1024;
+const MAX_PORT = 65535;
+
+/**
+ * Migrations indexed by the version they upgrade from.
+ * migrations[0] turns an unversioned file into version 1, and so on.
+ */
+const migrations: Migration[] = [
+  // v0 -> v1: early builds wrote the preferences object directly at the top level
+  (raw) => ({ version: 1, preferences: raw }),
+];
+
+export const DEFAULT_PREFERENCES: AppPreferences = {
+  autoRefresh: true,
+  refreshInterval: 30000,
+  theme: 'auto',
+  notifications: true,
+  animationsEnabled: true,
+  timezone: 'America/Los_Angeles',
+  resetMode: 'session',
+  resetHour: 0,
+  menuBarDisplay: 'all',
+  plan: 'auto',
+  customTokenLimit: undefined,
+  statusServerEnabled: false,
+  statusServerPort: 7337,
+  metricsEnabled: false,
+  metricsHost: '127.0.0.1',
+  metricsPort: 9466,
+  warningThresholds: { low: 70, high: 90 },
+  alertRules: DEFAULT_ALERT_RULES,
+  notificationChannels: [],
+  summarySchedule: {
+    dailyEnabled: false,
+    dailyHour: 18,
+    weeklyEnabled: false,
+    weeklyDay: 5,
+    weeklyHour: 17,
+  },
+  demoMode: false,
+  demoDataDirectory: '',
+  dataSources: [],
+  profiles: [],
+  activeProfileId: null,
+};
+
+/**
+ * Map saved preferences onto the configuration consumed by CCUsageService
+ */
+export function preferencesToConfiguration(
+  preferences: AppPreferences
+): Partial<UserConfiguration> {
+  return {
+    updateInterval: preferences.refreshInterval,
+    plan: preferences.plan,
+    customTokenLimit: preferences.customTokenLimit,
+    warningThresholds: preferences.warningThresholds,
+    resetMode: preferences.resetMode,
+    ...(preferences.timezone !== undefined && { timezone: preferences.timezone }),
+    ...(preferences.resetHour !== undefined && { resetHour: preferences.resetHour }),
+  };
+}
+
+function isPort(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= MIN_PORT && (value as number) <= MAX_PORT;
+}
+
+function isPercentage(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 100;
+}
+
+function areThresholdsValid(thresholds: WarningThresholds | undefined): boolean {
+  const { low, high } = thresholds ?? {};
+  return isPercentage(low) && isPercentage(high) && low < high;
+}
+
+/**
+ * Check preference changes from the renderer before they are saved. The refresh interval is
+ * clamped to the range Settings offers; ports outside 1024-65535 and thresholds that aren't
+ * whole percentages with low below high are dropped, keeping the saved value.
+ */
+export function validatePreferences(changes: Partial<AppPreferences>): Partial<AppPreferences> {
+  const validated = { ...changes };
+  const reject = (key: keyof AppPreferences) => {
+    console.error(`Ignoring invalid ${key} preference:`, changes[key]);
+    delete validated[key];
+  };
+
+  if ('refreshInterval' in changes) {
+    const interval = changes.refreshInterval;
+    if (typeof interval === 'number' && Number.isFinite(interval)) {
+      validated.refreshInterval = Math.min(
+        MAX_REFRESH_INTERVAL_MS,
+        Math.max(MIN_REFRESH_INTERVAL_MS, Math.round(interval))
+      );
+    } else {
+      reject('refreshInterval');
+    }
+  }
+  for (const key of ['statusServerPort', 'metricsPort'] as const) {
+    if (key in changes && !isPort(changes[key])) {
+      reject(key);
+    }
+  }
+  if ('warningThresholds' in changes && !areThresholdsValid(changes.warningThresholds)) {
+    reject('warningThresholds');
+  }
+  return validated;
+}
+
+export class SettingsService {
+  private static instance: SettingsService;
+  private settingsPath: string | null = null;
+  private readOnly = false; // migrates and updates in memory only
+  private preferences: AppPreferences = { ...DEFAULT_PREFERENCES };
+
+  static getInstance(): SettingsService {
+    if (!SettingsService.instance) {
+      SettingsService.instance = new SettingsService();
+    }
+    return SettingsService.instance;
+  }
+
+  /**
+   * Load settings from the given directory (Electron's userData dir in the app).
+   * Read-only settings are never written back, e.g. when the CLI reads the app's settings.
+   */
+  load(directory: string, readOnly = false): AppPreferences {
+    this.settingsPath = path.join(directory, SETTINGS_FILENAME);
+    this.readOnly = readOnly;
+
+    try {
+      if (fs.existsSync(this.settingsPath)) {
+        const raw = JSON.parse(fs.readFileSync(this.settingsPath, 'utf-8'));
+        const { settings, migrated } = this.migrate(raw);
+        this.preferences = { ...DEFAULT_PREFERENCES, ...settings.preferences };
+
+        if (migrated) {
+          this.save();
+        }
+      }
+    } catch (error) {
+      console.error('Error loading settings, falling back to defaults:', error);
+      this.preferences = { ...DEFAULT_PREFERENCES };
+    }
+
+    return this.getPreferences();
+  }
+
+  getPreferences(): AppPreferences {
+    return { ...this.preferences };
+  }
+
+  updatePreferences(changes: Partial<AppPreferences>): AppPreferences {
+    this.preferences = { ...this.preferences, ...validatePreferences(changes) };
+    this.save();
+    return this.getPreferences();
+  }
+
+  /**
+   * Bring a raw settings object up to the current schema version
+   */
+  private migrate(raw: Record<string, unknown>): {
+    settings: PersistedSettings;
+    migrated: boolean;
+  } {
+    let current = raw;
+    let version = typeof current.version === 'number' ? current.version : 0;
+    const startVersion = version;
+
+    while (version < CURRENT_SCHEMA_VERSION) {
+      const migration = migrations[version];
+      if (!migration) {
+        throw new Error(`No settings migration from version ${version}`);
+      }
+      current = migration(current);
+      version++;
+    }
+
+    return {
+      settings: current as unknown as PersistedSettings,
+      migrated: version !== startVersion,
+    };
+  }
+
+  private save(): void {
+    if (!this.settingsPath || this.readOnly) return;
+
+    const settings: PersistedSettings = {
+      version: CURRENT_SCHEMA_VERSION,
+      preferences: this.preferences,
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.settingsPath), { recursive: true });
+      // Write to a temp file first so a crash mid-write can't corrupt the settings
+      const tempPath = `${this.settingsPath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(settings, null, 2));
+      fs.renameSync(tempPath, this.settingsPath);
+    } catch (error) {
+      console.error('Error saving settings:', error);
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import * as http from 'node:http';
+import type { LocalServerStatus } from '../types/usage.js';
+import { ProfileService } from './profileService.js';
+
+const HOST = '127.0.0.1';
+const HEARTBEAT_INTERVAL = 30000; // keep idle SSE connections open through proxies
+
+export class StatusServer {
+  private static instance: StatusServer;
+  private server: http.Server | null = null;
+  private port: number | null = null;
+  private eventClients = new Set<http.ServerResponse>();
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private lastUpdated: Date | null = null;
+  private lastError: string | null = null;
+  private pending: Promise<void> = Promise.resolve(); // start and stop run one at a time
+  private profileService: ProfileService;
+
+  constructor() {
+    this.profileService = ProfileService.getInstance();
+  }
+
+  static getInstance(): StatusServer {
+    if (!StatusServer.instance) {
+      StatusServer.instance = new StatusServer();
+    }
+    return StatusServer.instance;
+  }
+
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  getStatus(): LocalServerStatus {
+    return { running: this.isRunning(), port: this.port, error: this.lastError };
+  }
+
+  /**
+   * Start serving on localhost, restarting if already running on another port
+   */
+  start(port: number): Promise<void> {
+    return this.serialize(async () => {
+      try {
+        await this.listen(port);
+        this.lastError = null;
+      } catch (error) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        throw error;
+      }
+    });
+  }
+
+  stop(): Promise<void> {
+    return this.serialize(async () => {
+      this.lastError = null;
+      await this.close();
+    });
+  }
+
+  private serialize(task: () => Promise<void>): Promise<void> {
+    const run = this.pending.then(task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private async listen(port: number): Promise<void> {
+    if (this.server && this.port === port) return;
+    await this.close();
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('Status server request failed:', error);
+        this.sendJson(res, 500, { error: 'Internal server error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.port = port;
+    this.heartbeatInterval = setInterval(() => {
+      for (const client of this.eventClients) {
+        client.write(': heartbeat\n\n');
+      }
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private async close(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    for (const client of this.eventClients) {
+      client.end();
+    }
+    this.eventClients.clear();
+
+    const server = this.server;
+    this.server = null;
+    this.port = null;
+
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Push fresh stats to every connected SSE client
+   */
+  async publishUpdate(): Promise<void> {
+    this.lastUpdated = new Date();
+    if (this.eventClients.size === 0) return;
+
+    try {
+      const usageService = this.profileService.getUsageService();
+      const stats = await usageService.getUsageStats();
+      const menuBarData = await usageService.getMenuBarData(stats);
+      this.broadcast('stats', stats);
+      this.broadcast('menubar', menuBarData);
+    } catch (error) {
+      console.error('Error publishing status update:', error);
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    // Only answer requests addressed to localhost, so a web page can't reach us through DNS rebinding
+    const allowedHosts = [`${HOST}:${this.port}`, `localhost:${this.port}`];
+    if (!allowedHosts.includes(req.headers.host?.toLowerCase() ?? '')) {
+      this.sendJson(res, 403, { error: 'Forbidden host' });
+      return;
+    }
+
+    if (req.method !== 'GET') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? '/', `http://${HOST}`);
+    // Every endpoint serves the profile that is active in the app
+    const usageService = this.profileService.getUsageService();
+
+    switch (pathname) {
+      case '/health':
+        this.sendJson(res, 200, {
+          status: 'ok',
+          uptime: process.uptime(),
+          lastUpdated: this.lastUpdated?.toISOString() ?? null,
+        });
+        break;
+
+      case '/stats':
+        this.sendJson(res, 200, await usageService.getUsageStats());
+        break;
+
+      case '/menubar':
+        this.sendJson(res, 200, await usageService.getMenuBarData());
+        break;
+
+      case '/sessions': {
+        // Refresh stats first so session tracking reflects the latest blocks
+        const { dataSource } = await usageService.getUsageStats();
+        this.sendJson(res, 200, {
+          ...usageService.getSessionTracker().getSessionTracking(),
+          summary: usageService.getSessionTracker().getSessionSummary(),
+          dataSource: dataSource.state,
+        });
+        break;
+      }
+
+      case '/events':
+        this.openEventStream(req, res);
+        break;
+
+      default:
+        this.sendJson(res, 404, { error: `Unknown route: ${pathname}` });
+    }
+  }
+
+  private openEventStream(req: http.IncomingMessage, res: http.ServerResponse) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    this.eventClients.add(res);
+    req.on('close', () => {
+      this.eventClients.delete(res);
+    });
+  }
+
+  private broadcast(event: string, data: unknown) {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const client of this.eventClients) {
+      client.write(message);
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,180 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { SummaryPeriod, SummarySchedule, UsageSummary } from '../types/usage.js';
+import { addZonedDays, getLatestOccurrence } from '../utils/zonedTime.js';
+import { NotificationService } from './notificationService.js';
+import { ProfileService } from './profileService.js';
+import { ResetTimeService } from './resetTimeService.js';
+
+const STATE_FILENAME = 'summary-state.json';
+// Re-check at least this often so timezone or DST shifts can't leave a stale timer
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+const SUMMARY_PERIODS: SummaryPeriod[] = ['daily', 'weekly'];
+const PERIOD_DAYS: Record<SummaryPeriod, number> = { daily: 1, weekly: 7 };
+
+type SentState = Partial<Record<SummaryPeriod, string>>; // ISO string of the last occurrence handled
+
+function isEnabled(schedule: SummarySchedule, period: SummaryPeriod): boolean {
+  return period === 'daily' ? schedule.dailyEnabled : schedule.weeklyEnabled;
+}
+
+/**
+ * Sends the end-of-day and end-of-week summaries. Each covers the calendar day or week
+ * before its scheduled time in the configured timezone. A time missed while asleep or quit
+ * is caught up once on the next check, so only the most recent summary of each kind is ever
+ * sent late.
+ */
+export class SummaryScheduler {
+  private static instance: SummaryScheduler;
+  private profileService: ProfileService;
+  private notificationService: NotificationService;
+  private resetTimeService: ResetTimeService;
+  private statePath: string | null = null;
+  private sent: SentState = {};
+  private schedule: SummarySchedule | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.profileService = ProfileService.getInstance();
+    this.notificationService = NotificationService.getInstance();
+    this.resetTimeService = ResetTimeService.getInstance();
+  }
+
+  static getInstance(): SummaryScheduler {
+    if (!SummaryScheduler.instance) {
+      SummaryScheduler.instance = new SummaryScheduler();
+    }
+    return SummaryScheduler.instance;
+  }
+
+  /**
+   * Load which summaries were already sent from the given directory
+   */
+  setStorageDirectory(directory: string): void {
+    this.statePath = path.join(directory, STATE_FILENAME);
+    try {
+      if (fs.existsSync(this.statePath)) {
+        this.sent = JSON.parse(fs.readFileSync(this.statePath, 'utf-8'));
+      }
+    } catch (error) {
+      console.error('Error loading summary state:', error);
+      this.sent = {};
+    }
+  }
+
+  /**
+   * Apply a new schedule and re-arm the timer, catching up on anything already due.
+   * Times are in the timezone configured for reset calculations.
+   */
+  configure(schedule: SummarySchedule, now = new Date()): void {
+    // A summary that was just switched on starts from now rather than sending a stale one.
+    // On startup the saved state is kept, so summaries missed while quit are caught up.
+    for (const period of SUMMARY_PERIODS) {
+      const wasEnabled = this.schedule
+        ? isEnabled(this.schedule, period)
+        : this.sent[period] !== undefined;
+      if (isEnabled(schedule, period) && !wasEnabled) {
+        this.sent[period] = now.toISOString();
+        this.saveState();
+      }
+    }
+
+    this.schedule = schedule;
+    this.check(now);
+  }
+
+  /**
+   * Send any summary whose scheduled time has passed since it was last handled,
+   * then schedule the next check. Called on a timer and when the system resumes.
+   */
+  check(now = new Date()): void {
+    if (!this.schedule) return;
+
+    for (const period of this.getEnabledPeriods()) {
+      const occurrence = this.getOccurrence(period, now);
+      const lastSent = this.sent[period];
+      if (lastSent && new Date(lastSent) >= occurrence) continue;
+
+      // Record before sending so an overlapping check can't send it twice
+      this.sent[period] = occurrence.toISOString();
+      this.saveState();
+      this.sendSummary(period, occurrence).catch((error) => {
+        console.error(`Error sending ${period} summary:`, error);
+      });
+    }
+
+    this.scheduleNext(now);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private getEnabledPeriods(): SummaryPeriod[] {
+    const { schedule } = this;
+    return schedule ? SUMMARY_PERIODS.filter((period) => isEnabled(schedule, period)) : [];
+  }
+
+  private getOccurrence(period: SummaryPeriod, now: Date): Date {
+    const schedule = this.schedule as SummarySchedule;
+    const timezone = this.getTimezone();
+    return period === 'daily'
+      ? getLatestOccurrence(now, timezone, schedule.dailyHour)
+      : getLatestOccurrence(now, timezone, schedule.weeklyHour, schedule.weeklyDay);
+  }
+
+  private scheduleNext(now: Date): void {
+    this.stop();
+
+    const periods = this.getEnabledPeriods();
+    if (periods.length === 0) return;
+
+    const nextDue = Math.min(
+      ...periods.map((period) =>
+        addZonedDays(
+          this.getOccurrence(period, now),
+          this.getTimezone(),
+          PERIOD_DAYS[period]
+        ).getTime()
+      )
+    );
+    const delay = Math.max(1000, Math.min(nextDue - now.getTime(), MAX_TIMER_MS));
+    this.timer = setTimeout(() => this.check(), delay);
+  }
+
+  private getTimezone(): string {
+    return this.resetTimeService.getConfiguration().timezone;
+  }
+
+  private async sendSummary(period: SummaryPeriod, end: Date): Promise<void> {
+    const timezone = this.getTimezone();
+    const start = addZonedDays(end, timezone, -PERIOD_DAYS[period]);
+    const previousStart = addZonedDays(start, timezone, -PERIOD_DAYS[period]);
+    // Summaries cover the profile that is active in the app
+    const usageService = this.profileService.getUsageService();
+
+    const summary: UsageSummary = {
+      period,
+      current: await usageService.getPeriodUsage(start, end),
+      previous: await usageService.getPeriodUsage(previousStart, start),
+    };
+    this.notificationService.sendSummary(summary);
+  }
+
+  private saveState(): void {
+    if (!this.statePath) return;
+
+    try {
+      // Write to a temp file first so a crash mid-write can't corrupt the state
+      const tempPath = `${this.statePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.sent, null, 2));
+      fs.renameSync(tempPath, this.statePath);
+    } catch (error) {
+      console.error('Error saving summary state:', error);
+    }
+  }
+}
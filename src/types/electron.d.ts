@@ -1,3 +1,18 @@
+import type {
+  AppPreferences,
+  ConversationUsage,
+  DailyUsage,
+  DataSourceDiagnostics,
+  DemoModeInfo,
+  ExportRequest,
+  IntegrationStatus,
+  NotificationChannel,
+  NotificationChannelResult,
+  ProfileStatus,
+  ReplayState,
+  UsageHeatmap,
+} from './usage';
+
 export interface ScreenshotResult {
   success: boolean;
   filename?: string;
@@ -6,14 +21,45 @@ export interface ScreenshotResult {
   error?: string;
 }
 
+export interface ExportResult {
+  success: boolean;
+  canceled?: boolean;
+  filename?: string;
+  filepath?: string;
+  message?: string;
+  error?: string;
+}
+
 export interface ElectronAPI {
   getUsageStats: () => Promise<any>;
   refreshData: () => Promise<any>;
   quitApp: () => Promise<void>;
   takeScreenshot: () => Promise<ScreenshotResult>;
+  getUsageHistory: (startDate?: string, endDate?: string) => Promise<DailyUsage[]>;
+  getUsageHeatmap: (startDate?: string) => Promise<UsageHeatmap>;
+  getConversations: (blockId?: string) => Promise<ConversationUsage[]>;
+  getDataSourceDiagnostics: () => Promise<DataSourceDiagnostics>;
+  getProfiles: () => Promise<ProfileStatus[]>;
+  getIntegrationStatus: () => Promise<IntegrationStatus>;
+  exportUsage: (request: ExportRequest) => Promise<ExportResult>;
+  testNotificationChannel: (channel: NotificationChannel) => Promise<NotificationChannelResult>;
   updateMenuBarDisplay: (mode: 'off' | 'percentage' | 'value' | 'all') => Promise<void>;
+  getReplayState: () => Promise<ReplayState>;
+  startReplay: (day: string) => Promise<ReplayState>;
+  pauseReplay: () => Promise<ReplayState>;
+  resumeReplay: () => Promise<ReplayState>;
+  seekReplay: (position: string) => Promise<ReplayState>;
+  setReplaySpeed: (speed: number) => Promise<ReplayState>;
+  stopReplay: () => Promise<ReplayState>;
+  getDemoMode: () => Promise<DemoModeInfo>;
+  getPreferences: () => Promise<AppPreferences>;
+  updatePreferences: (changes: Partial<AppPreferences>) => Promise<AppPreferences>;
   onUsageUpdated: (callback: () => void) => void;
   removeUsageUpdatedListener: (callback: () => void) => void;
+  onPreferencesUpdated: (callback: () => void) => void;
+  removePreferencesUpdatedListener: (callback: () => void) => void;
+  onIntegrationStatusUpdated: (callback: () => void) => void;
+  removeIntegrationStatusUpdatedListener: (callback: () => void) => void;
 }
 
 declare global {
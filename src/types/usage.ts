@@ -20,14 +20,19 @@ export interface DailyUsage {
   };
 }
 
+export type ResetMode = 'session' | 'monthly'; // 5-hour session windows or a monthly billing cycle
+
 export interface ResetTimeInfo {
+  resetType: 'interval' | 'monthly'; // 'interval' for 5-hour session windows
+  cycleStartTime: string; // ISO string of when the current cycle started
+  cycleDuration: number; // milliseconds from cycle start to next reset
   nextResetTime: string; // ISO string of next reset
   timeUntilReset: number; // milliseconds until reset
-  resetHour: number; // hour when reset occurs (0-23)
+  resetHour: number; // hour when reset occurs (0-23), monthly mode only
   timezone: string; // timezone identifier (e.g., 'America/Los_Angeles')
-  percentUntilReset: number; // percentage of billing cycle completed (0-100)
-  daysInCycle: number; // total days in current billing cycle
-  daysSinceReset: number; // days elapsed since last reset
+  percentUntilReset: number; // percentage of the current cycle elapsed (0-100)
+  daysInCycle: number; // total days in current cycle (fractional for session windows)
+  daysSinceReset: number; // days elapsed since last reset (fractional for session windows)
 }
 
 export interface VelocityInfo {
@@ -46,6 +51,84 @@ export interface PredictionInfo {
   daysRemaining: number; // estimated days until depletion
   recommendedDailyLimit: number; // suggested daily token limit
   onTrackForReset: boolean; // will tokens last until reset
+  forecast?: DepletionForecast; // percentile forecast for the active session block
+}
+
+export interface ForecastPoint {
+  time: string; // ISO string
+  p10: number; // projected tokens used in the block, low-usage bound
+  p50: number;
+  p90: number; // high-usage bound
+}
+
+export interface DepletionForecast {
+  // Times by which the limit is reached with 10%, 50% and 90% probability; null if not before horizon
+  p10: string | null;
+  p50: string | null;
+  p90: string | null;
+  ratePerMinute: number; // exponentially weighted tokens per minute, before seasonality
+  confidence: number; // 0-100, from the spread of the forecast and how much timeline backs it
+  horizon: string; // ISO string the forecast runs until (the next reset, at most a day ahead)
+  cone: ForecastPoint[]; // from now to the horizon
+}
+
+export interface EnhancedResetInfo {
+  nextResetTime: string;
+  timeUntilReset: number;
+  resetType: ResetTimeInfo['resetType'];
+  resetSchedule: number[]; // epoch ms of upcoming resets, later session windows assume continuous use
+  formattedTimeUntilReset: string;
+  cycleProgress: number; // percentage of the current cycle elapsed (0-100)
+  isInCriticalPeriod: boolean;
+}
+
+export type BurnRateClassification = 'slow' | 'normal' | 'fast' | 'very_fast';
+
+export interface AdvancedBurnRate {
+  current: number; // tokens per minute over the last 15 minutes
+  hourly: number; // tokens per hour over the last 60 minutes
+  trend: {
+    direction: 'increasing' | 'decreasing' | 'stable';
+    percentage: number; // last 30 minutes against the 30 minutes before
+  };
+  velocity: {
+    classification: BurnRateClassification; // hourly rate against the session token limit
+    emoji: string;
+  };
+  confidence: number; // 0-100, from how many entries and how much history back the rate
+}
+
+// live: read from the Claude logs; stale: the last good stats after a failed load;
+// mock: generated sample data; error: nothing loaded yet, all values are zero
+export type DataSourceState = 'live' | 'stale' | 'mock' | 'replay' | 'error';
+
+export interface DataSourceStatus {
+  state: DataSourceState;
+  reason?: string; // why the data isn't live
+  lastSuccessfulLoad: string | null; // ISO string of the last load that found usage
+}
+
+export interface DataDirectoryDiagnostics {
+  path: string; // Claude config directory, containing projects/
+  // CLAUDE_CONFIG_DIR, a built-in location, added in Settings, or set by the app (demo mode)
+  origin: 'env' | 'default' | 'settings' | 'override';
+  label?: string; // from the matching data source in Settings
+  enabled: boolean; // false when turned off in Settings
+  inUse: boolean; // whether the last scan read logs from it
+  exists: boolean;
+  hasProjects: boolean; // whether the projects/ subdirectory exists
+  logFileCount: number;
+  error?: string; // why the directory couldn't be listed
+}
+
+export interface DataSourceDiagnostics {
+  status: DataSourceStatus;
+  configDirEnv: string | null; // raw CLAUDE_CONFIG_DIR value
+  directories: DataDirectoryDiagnostics[];
+  lastScan: string | null; // ISO string of the last log scan
+  logFileCount: number;
+  entryCount: number;
+  blockCount: number;
 }
 
 export interface UsageStats {
@@ -62,41 +145,21 @@ export interface UsageStats {
   tokensUsed: number;
   tokensRemaining: number;
   percentageUsed: number;
+  status: UsageStatus; // percentageUsed against warningThresholds
+  warningThresholds: WarningThresholds; // the thresholds status was computed with
   sessionTracking?: SessionTracking; // 5-hour rolling session tracking
+  projects?: ProjectUsage[]; // usage per project directory, busiest in the current block first
+  sources?: SourceUsage[]; // usage per Claude data directory, in scan order
   // Enhanced features
-  enhancedResetInfo?: {
-    nextResetTime: string;
-    timeUntilReset: number;
-    resetType: 'interval' | 'monthly';
-    resetSchedule: number[];
-    formattedTimeUntilReset: string;
-    cycleProgress: number;
-    isInCriticalPeriod: boolean;
-  };
-  advancedBurnRate?: {
-    current: number;
-    hourly: number;
-    trend: {
-      direction: 'increasing' | 'decreasing' | 'stable';
-      percentage: number;
-    };
-    velocity: {
-      classification: 'slow' | 'normal' | 'fast' | 'very_fast';
-      emoji: string;
-    };
-    confidence: number;
-  };
+  enhancedResetInfo?: EnhancedResetInfo;
+  advancedBurnRate?: AdvancedBurnRate;
+  dataSource: DataSourceStatus; // whether these numbers come from the Claude logs
   planManager?: {
     currentPlan: 'Pro' | 'Max5' | 'Max20' | 'Custom';
     autoSwitchEnabled: boolean;
     detectedPlan: 'Pro' | 'Max5' | 'Max20' | 'Custom';
     confidence: number;
-    lastSwitch?: {
-      timestamp: string;
-      fromPlan: string;
-      toPlan: string;
-      trigger: string;
-    };
+    lastSwitch?: PlanSwitchRecord;
   };
   limitDetection?: {
     detectedLimit: number;
@@ -106,14 +169,108 @@ export interface UsageStats {
   };
 }
 
+export interface SourceUsage {
+  path: string; // Claude config directory the logs were read from
+  label: string; // label from Settings, or the directory name
+  totalTokens: number;
+  totalCost: number;
+  activeBlockTokens: number; // tokens used in the current 5-hour block
+  activeBlockCost: number;
+  lastActivity: string; // ISO string of the latest message
+  dailyUsage: DailyUsage[]; // newest first
+}
+
+export interface ProjectUsage {
+  projectPath: string; // working directory Claude Code ran in
+  displayName: string; // last segment of projectPath
+  totalTokens: number;
+  totalCost: number;
+  sessionCount: number; // distinct Claude Code sessions
+  activeBlockTokens: number; // tokens used in the current 5-hour block
+  activeBlockCost: number;
+  lastActivity: string; // ISO string of the latest message
+  models: DailyUsage['models'];
+  dailyUsage: DailyUsage[]; // newest first
+}
+
+export interface ConversationUsage {
+  sessionId: string; // Claude Code session ID
+  projectPath: string;
+  startTime: string; // ISO string of the first message
+  endTime: string; // ISO string of the last message
+  messageCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  totalCost: number;
+  models: DailyUsage['models'];
+}
+
+export interface HeatmapCell {
+  tokens: number;
+  cost: number;
+  messageCount: number;
+}
+
+export interface UsageHeatmap {
+  start: string | null; // ISO string, null for everything still in the logs
+  end: string; // ISO string
+  timezone: string; // weekdays and hours are in this timezone
+  cells: HeatmapCell[][]; // [weekday, 0 = Sunday][hour 0-23]
+}
+
+export interface PeriodUsage {
+  start: string; // ISO string, inclusive
+  end: string; // ISO string, exclusive
+  totalTokens: number;
+  totalCost: number;
+  topModel: string | null;
+  longestSession: {
+    sessionId: string;
+    projectPath: string;
+    durationMinutes: number;
+    totalTokens: number;
+  } | null;
+}
+
+export type SummaryPeriod = 'daily' | 'weekly';
+
+export interface UsageSummary {
+  period: SummaryPeriod;
+  current: PeriodUsage;
+  previous: PeriodUsage; // the period of the same length just before current
+}
+
+export interface SummarySchedule {
+  dailyEnabled: boolean;
+  dailyHour: number; // 0-23, in the configured timezone
+  weeklyEnabled: boolean;
+  weeklyDay: number; // 0 = Sunday
+  weeklyHour: number;
+}
+
+export interface PlanSwitchRecord {
+  timestamp: string; // ISO string of when the switch happened
+  fromPlan: string;
+  toPlan: string;
+  trigger: string; // what caused the switch, e.g. 'auto-detection' or 'manual'
+}
+
+export type UsageStatus = 'safe' | 'warning' | 'critical';
+
+export interface WarningThresholds {
+  low: number; // percentage for first warning
+  high: number; // percentage for critical warning
+}
+
 export interface UserConfiguration {
-  resetHour: number; // hour when tokens reset (0-23)
+  resetMode: ResetMode;
+  resetHour: number; // hour when tokens reset (0-23), monthly mode only
   timezone: string; // user's timezone
   updateInterval: number; // milliseconds between updates
-  warningThresholds: {
-    low: number; // percentage for first warning
-    high: number; // percentage for critical warning
-  };
+  warningThresholds: WarningThresholds;
   plan: 'Pro' | 'Max5' | 'Max20' | 'Custom' | 'auto'; // 'auto' for auto-detection
   customTokenLimit?: number; // for custom plans
 }
@@ -174,9 +331,160 @@ export interface MenuBarData {
   tokensUsed: number;
   tokenLimit: number;
   percentageUsed: number;
-  status: 'safe' | 'warning' | 'critical';
+  status: UsageStatus;
   cost: number;
   timeUntilReset?: string; // formatted time until reset
   resetInfo?: ResetTimeInfo; // detailed reset information
   sessionTracking?: SessionTracking; // 5-hour rolling session tracking
+  dataSource: DataSourceState;
+}
+
+export interface AppPreferences {
+  autoRefresh: boolean;
+  refreshInterval: number; // milliseconds between main-process polls
+  theme: 'auto' | 'light' | 'dark';
+  notifications: boolean;
+  animationsEnabled: boolean;
+  timezone?: string;
+  resetMode: ResetMode;
+  resetHour?: number;
+  menuBarDisplay: 'off' | 'percentage' | 'value' | 'all';
+  plan: UserConfiguration['plan']; // 'auto' detects the plan, anything else pins it
+  customTokenLimit?: number; // token limit used when plan is 'Custom'
+  statusServerEnabled: boolean; // serve stats over HTTP on localhost
+  statusServerPort: number;
+  metricsEnabled: boolean; // expose Prometheus metrics for scraping
+  metricsHost: string; // address the exporter binds to, 127.0.0.1 unless it's scraped remotely
+  metricsPort: number;
+  warningThresholds: WarningThresholds; // usage percentages for warning and critical status
+  alertRules: AlertRule[];
+  notificationChannels: NotificationChannel[]; // where alerts go besides the desktop
+  summarySchedule: SummarySchedule;
+  demoMode: boolean; // show synthetic fixture logs instead of real usage
+  demoDataDirectory: string; // Claude config directory with fixture logs, empty for the bundled set
+  dataSources: DataSourceConfig[]; // read alongside the directories ccusage finds
+  profiles: UsageProfile[]; // further accounts, each tracked on its own
+  activeProfileId: string | null; // profile shown in the window and tray, null for the default one
+}
+
+// Settings each profile has its own copy of; the default profile's are the top-level preferences
+export type ProfileSettings = Pick<
+  AppPreferences,
+  'dataSources' | 'plan' | 'customTokenLimit' | 'resetMode' | 'resetHour' | 'alertRules'
+>;
+
+/**
+ * A Claude account tracked apart from the others: its data directories are read on their
+ * own, with its own plan, limit, reset timing and alert rules
+ */
+export interface UsageProfile extends ProfileSettings {
+  id: string;
+  name: string;
+}
+
+export interface ProfileStatus {
+  id: string | null; // null for the default profile
+  name: string;
+  active: boolean;
+  usage: Pick<UsageStats, 'currentPlan' | 'percentageUsed' | 'status' | 'dataSource'> | null; // null until first loaded
+}
+
+export interface DataSourceConfig {
+  id: string;
+  label: string;
+  path: string; // Claude config directory, containing projects/
+  enabled: boolean; // a disabled directory is skipped even when ccusage finds it
+}
+
+export interface DemoModeInfo {
+  active: boolean;
+  source: string | null; // directory the fixture logs were loaded from
+  fromCommandLine: boolean; // forced by --demo, overriding the saved preference
+  error?: string; // why demo mode was requested but couldn't start
+}
+
+export interface LocalServerStatus {
+  running: boolean;
+  port: number | null;
+  error: string | null; // why the last start failed, e.g. the port is already in use
+}
+
+export interface IntegrationStatus {
+  statusServer: LocalServerStatus;
+  metrics: LocalServerStatus;
+}
+
+export interface ReplayState {
+  active: boolean;
+  playing: boolean;
+  speed: number; // virtual time elapsed per real second, in seconds
+  day: string | null; // YYYY-MM-DD being replayed, in local time
+  start: string | null; // ISO strings bounding the replayed timeline
+  end: string | null;
+  position: string | null; // ISO string of the virtual time
+  days: string[]; // days with usage that can be replayed, newest first
+}
+
+export type AlertMetric =
+  | 'percentageUsed' // % of the session token limit
+  | 'burnRate' // tokens per hour
+  | 'depletionBeforeReset' // predicted to run out before the next reset
+  | 'dailyCost' // USD spent today
+  | 'sessionEndsIn'; // minutes until the current 5-hour session block ends
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: AlertMetric;
+  threshold: number; // unit depends on the metric; unused by depletionBeforeReset
+  thresholdLevel?: keyof WarningThresholds; // percentageUsed rules that follow the warning thresholds
+  durationMinutes: number; // how long the condition must hold before firing
+  cooldownMinutes: number; // minimum time between two firings of this rule
+  severity: AlertSeverity;
+  message: string; // template with {placeholders}, e.g. {percentageUsed}
+}
+
+export interface TriggeredAlert {
+  ruleId: string;
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  timestamp: string; // ISO string
+}
+
+export type NotificationChannelType =
+  | 'webhook' // generic JSON POST
+  | 'slack' // Slack incoming webhook
+  | 'discord' // Discord webhook
+  | 'command'; // shell command, payload on stdin and in CCSEVA_* env vars
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  enabled: boolean;
+  type: NotificationChannelType;
+  target: string; // webhook URL, or the command line for 'command'
+  template: string; // message text with {placeholders} from the alert and MenuBarData
+  minSeverity: AlertSeverity; // alerts below this severity are not sent
+}
+
+export interface NotificationChannelResult {
+  success: boolean;
+  error?: string;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+export interface ExportRequest {
+  format: ExportFormat;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+export interface PersistedSettings {
+  version: number; // schema version, bumped whenever the stored shape changes
+  preferences: AppPreferences;
 }
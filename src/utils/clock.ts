@@ -0,0 +1,7 @@
+/**
+ * The time usage stats are evaluated at, in epoch ms. Services read the wall clock unless
+ * they are built for a replay, whose clock runs on its past timeline instead.
+ */
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
@@ -3,8 +3,16 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as zlib from 'node:zlib';
 import { PNG } from 'pngjs';
+import type { UsageStatus } from '../types/usage.js';
 import { digitPatterns } from './digitPatterns.js';
 
+// Text colour per usage status: white, amber, red
+const STATUS_COLORS: Record<UsageStatus, [number, number, number]> = {
+  safe: [255, 255, 255],
+  warning: [245, 158, 11],
+  critical: [239, 68, 68],
+};
+
 export class DynamicTrayIcon {
   private static instance: DynamicTrayIcon;
   
@@ -61,8 +69,9 @@ export class DynamicTrayIcon {
     return null;
   }
 
-  private createPngIcon(text: string, symbol: string): Electron.NativeImage {
+  private createPngIcon(text: string, symbol: string, status: UsageStatus): Electron.NativeImage {
     const claudeIcon = this.loadClaudeIcon();
+    const [red, green, blue] = STATUS_COLORS[status];
     
     // If we have text and the Claude icon loaded successfully, create a composite
     if (claudeIcon && text.length > 0) {
@@ -125,9 +134,9 @@ export class DynamicTrayIcon {
               const y = 4 + py; // Center 16px text in 24px height
               if (x >= 0 && x < totalWidth && y >= 0 && y < height) {
                 const pixelIndex = (y * totalWidth + x) * 4;
-                pixels[pixelIndex] = 255;     // R - white
-                pixels[pixelIndex + 1] = 255; // G
-                pixels[pixelIndex + 2] = 255; // B
+                pixels[pixelIndex] = red;
+                pixels[pixelIndex + 1] = green;
+                pixels[pixelIndex + 2] = blue;
                 pixels[pixelIndex + 3] = 255; // A
               }
             }
@@ -209,9 +218,9 @@ export class DynamicTrayIcon {
             const y = 4 + py;
             if (x >= 0 && x < width && y >= 0 && y < height) {
               const pixelIndex = (y * width + x) * 4;
-              pixels[pixelIndex] = 255;     // R - white
-              pixels[pixelIndex + 1] = 255; // G
-              pixels[pixelIndex + 2] = 255; // B
+              pixels[pixelIndex] = red;
+              pixels[pixelIndex + 1] = green;
+              pixels[pixelIndex + 2] = blue;
               pixels[pixelIndex + 3] = 255; // A
             }
           }
@@ -326,22 +335,22 @@ export class DynamicTrayIcon {
     }
   }
 
-  createPercentageIcon(percentage: number): Electron.NativeImage {
+  createPercentageIcon(percentage: number, status: UsageStatus = 'safe'): Electron.NativeImage {
     const text = `${Math.round(percentage)}%`;
-    return this.createPngIcon(text, '%');
+    return this.createPngIcon(text, '%', status);
   }
 
-  createCostIcon(cost: number): Electron.NativeImage {
+  createCostIcon(cost: number, status: UsageStatus = 'safe'): Electron.NativeImage {
     // cost should be in whole dollars
     const text = `$${Math.round(cost)}`;
-    return this.createPngIcon(text, '$');
+    return this.createPngIcon(text, '$', status);
   }
 
-  createIcon(value: number, isPercentage: boolean): Electron.NativeImage {
+  createIcon(value: number, isPercentage: boolean, status: UsageStatus = 'safe'): Electron.NativeImage {
     if (isPercentage) {
-      return this.createPercentageIcon(value);
+      return this.createPercentageIcon(value, status);
     }
-    return this.createCostIcon(value);
+    return this.createCostIcon(value, status);
   }
 
   createStaticIcon(): Electron.NativeImage {
@@ -0,0 +1,23 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+// Matches the package name Electron uses for app.getPath('userData')
+const APP_DIR_NAME = 'ccseva-linux';
+
+/**
+ * Resolve the directory Electron uses for app.getPath('userData'),
+ * so tools running outside Electron share the app's settings and history
+ */
+export function getUserDataDir(): string {
+  if (process.platform === 'win32') {
+    const appData = process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+    return path.join(appData, APP_DIR_NAME);
+  }
+
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Application Support', APP_DIR_NAME);
+  }
+
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, APP_DIR_NAME);
+}
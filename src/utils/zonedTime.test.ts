@@ -0,0 +1,50 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { addZonedDays, getLatestOccurrence } from './zonedTime.js';
+
+const iso = (date: Date) => date.toISOString();
+
+describe('getLatestOccurrence', () => {
+  test('finds the hour in the given timezone, not in UTC', () => {
+    // 08:30 in Tokyo on Monday, October 19
+    const now = new Date('2026-10-18T23:30:00Z');
+    assert.equal(iso(getLatestOccurrence(now, 'Asia/Tokyo', 8)), '2026-10-18T23:00:00.000Z');
+    assert.equal(iso(getLatestOccurrence(now, 'Asia/Tokyo', 9)), '2026-10-18T00:00:00.000Z');
+    assert.equal(iso(getLatestOccurrence(now, 'UTC', 9)), '2026-10-18T09:00:00.000Z');
+  });
+
+  test('steps back to the previous week when this week’s occurrence is still ahead', () => {
+    // Monday 09:30 and 08:30 in Tokyo
+    const after = new Date('2026-10-19T00:30:00Z');
+    const before = new Date('2026-10-18T23:30:00Z');
+    assert.equal(iso(getLatestOccurrence(after, 'Asia/Tokyo', 9, 1)), '2026-10-19T00:00:00.000Z');
+    assert.equal(iso(getLatestOccurrence(before, 'Asia/Tokyo', 9, 1)), '2026-10-12T00:00:00.000Z');
+  });
+
+  test('keeps the local hour when the previous day had a different UTC offset', () => {
+    // 08:00 EDT on March 8, the morning clocks went forward in New York
+    const now = new Date('2026-03-08T12:00:00Z');
+    assert.equal(
+      iso(getLatestOccurrence(now, 'America/New_York', 9)),
+      '2026-03-07T14:00:00.000Z' // 09:00 EST
+    );
+    assert.equal(
+      iso(getLatestOccurrence(now, 'America/New_York', 1)),
+      '2026-03-08T06:00:00.000Z' // 01:00 EST
+    );
+  });
+});
+
+describe('addZonedDays', () => {
+  test('a day that ends daylight saving time is 25 hours long', () => {
+    const start = new Date('2026-10-31T13:00:00Z'); // 09:00 EDT
+    assert.equal(iso(addZonedDays(start, 'America/New_York', 1)), '2026-11-01T14:00:00.000Z');
+  });
+
+  test('a week across the start of daylight saving time is 167 hours long', () => {
+    const start = new Date('2026-03-02T14:00:00Z'); // Monday 09:00 EST
+    const end = addZonedDays(start, 'America/New_York', 7);
+    assert.equal(iso(end), '2026-03-09T13:00:00.000Z');
+    assert.equal((end.getTime() - start.getTime()) / (60 * 60 * 1000), 167);
+  });
+});
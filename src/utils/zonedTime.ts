@@ -0,0 +1,34 @@
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+
+/**
+ * The latest scheduled time at or before now, at the given hour (and weekday) in the timezone
+ */
+export function getLatestOccurrence(
+  now: Date,
+  timezone: string,
+  hour: number,
+  weekday?: number
+): Date {
+  const zonedNow = toZonedTime(now, timezone);
+  const candidate = new Date(zonedNow);
+  candidate.setHours(hour, 0, 0, 0);
+
+  if (weekday !== undefined) {
+    candidate.setDate(candidate.getDate() - ((candidate.getDay() - weekday + 7) % 7));
+  }
+  if (candidate > zonedNow) {
+    candidate.setDate(candidate.getDate() - (weekday !== undefined ? 7 : 1));
+  }
+
+  return fromZonedTime(candidate, timezone);
+}
+
+/**
+ * The same wall-clock time the given number of calendar days away in the timezone,
+ * so a day that crosses a DST change is 23 or 25 hours long
+ */
+export function addZonedDays(date: Date, timezone: string, days: number): Date {
+  const zoned = toZonedTime(date, timezone);
+  zoned.setDate(zoned.getDate() + days);
+  return fromZonedTime(zoned, timezone);
+}